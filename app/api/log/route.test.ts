@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+
+function logRequest(body: BodyInit, headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/log", { method: "POST", headers, body });
+}
+
+describe("POST /api/log", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("accepts a small entry", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const res = await POST(logRequest(JSON.stringify({ level: "warn", namespace: "test", message: "ciao" })));
+    expect(res.status).toBe(204);
+    expect(warn).toHaveBeenCalledWith("[client:test] ciao", expect.anything());
+  });
+
+  it("rejects on the declared content-length before reading", async () => {
+    const req = logRequest("{}", { "Content-Length": String(9 * 1024) });
+    const text = vi.spyOn(req, "text");
+    expect((await POST(req)).status).toBe(413);
+    expect(text).not.toHaveBeenCalled();
+    expect(req.bodyUsed).toBe(false);
+  });
+
+  it("counts bytes, not characters", async () => {
+    // 3000 caratteri ma 9000 byte in UTF-8: sotto il limite contando i caratteri, sopra contando i byte
+    const message = "€".repeat(3000);
+    const res = await POST(logRequest(JSON.stringify({ level: "error", message })));
+    expect(res.status).toBe(413);
+  });
+
+  it("stops reading a streamed body past the limit", async () => {
+    const chunk = new TextEncoder().encode("x".repeat(4096));
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(chunk);
+      },
+    });
+    const req = new Request("http://localhost/api/log", { method: "POST", body, duplex: "half" } as RequestInit);
+    expect((await POST(req)).status).toBe(413);
+    expect(pulled).toBeLessThan(5);
+  });
+
+  it("rejects an empty body", async () => {
+    expect((await POST(logRequest(""))).status).toBe(400);
+  });
+});
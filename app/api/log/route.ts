@@ -0,0 +1,51 @@
+// app/api/log/route.ts
+// Sink first-party per i log client (warn/error). Il payload viene ri-redatto: non ci fidiamo del browser.
+
+import { redact, redactString } from "@/lib/log";
+
+const MAX_BODY_BYTES = 8 * 1024;
+
+// Legge il corpo contando i byte e smette appena supera il limite: null se è troppo grande.
+async function readCappedText(req: Request, maxBytes: number): Promise<string | null> {
+  const declared = Number(req.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) return null;
+  if (!req.body) return "";
+
+  const reader = req.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const text = await readCappedText(req, MAX_BODY_BYTES);
+    if (text == null) return new Response(null, { status: 413 });
+    if (!text) return new Response(null, { status: 400 });
+
+    const entry = JSON.parse(text) as Record<string, unknown>;
+    const level = entry.level === "error" ? "error" : entry.level === "warn" ? "warn" : null;
+    if (!level) return new Response(null, { status: 400 });
+
+    const namespace = typeof entry.namespace === "string" ? entry.namespace.slice(0, 40) : "client";
+    const message = typeof entry.message === "string" ? redactString(entry.message.slice(0, 500)) : "";
+    const payload = { at: entry.at, data: redact(entry.data) };
+
+    if (level === "error") console.error(`[client:${namespace}] ${message}`, payload);
+    else console.warn(`[client:${namespace}] ${message}`, payload);
+
+    return new Response(null, { status: 204 });
+  } catch {
+    return new Response(null, { status: 400 });
+  }
+}
@@ -0,0 +1,53 @@
+// app/api/pay/[token]/checkout/route.ts
+// Crea una sessione Stripe Checkout per la quota dell'ospite (pagamento con carta).
+// Lo stato "paid" non si scrive qui: arriva dal webhook firmato (app/api/stripe/webhook).
+
+import { getLocale } from "@/lib/i18n/server";
+import { createLogger } from "@/lib/log";
+import { getPaymentPage } from "@/lib/payment-page";
+import { isPositiveMoney } from "@/lib/money";
+import { feeMoney, isPaymentConfirmed } from "@/lib/payments";
+import { SITE_URL } from "@/lib/site";
+import { StripeError, createCheckoutSession, isStripeConfigured } from "@/lib/stripe";
+
+const log = createLogger("stripe-checkout");
+
+export async function POST(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  if (!isStripeConfigured()) {
+    return Response.json({ error: "card_unavailable" }, { status: 503 });
+  }
+
+  const row = await getPaymentPage(token);
+  if (!row) return Response.json({ error: "not_found" }, { status: 404 });
+  if (isPaymentConfirmed(row)) return Response.json({ error: "already_paid" }, { status: 409 });
+
+  const amount = feeMoney(row);
+  if (!isPositiveMoney(amount)) {
+    return Response.json({ error: "invalid_amount" }, { status: 400 });
+  }
+
+  const payUrl = `${SITE_URL}/pay/${encodeURIComponent(token)}`;
+
+  try {
+    const session = await createCheckoutSession({
+      amount,
+      productName: row.party_title,
+      successUrl: `${payUrl}?checkout=success`,
+      cancelUrl: `${payUrl}?checkout=cancelled`,
+      clientReferenceId: `${row.party_id}:${row.guest_user_id}`,
+      // il token del link resta fuori da Stripe: il webhook ritrova l'ospite da festa e utente
+      metadata: { party_id: row.party_id, guest_user_id: row.guest_user_id },
+      locale: await getLocale(),
+      // doppio click o reload: stessa sessione finché non cambiano quota, lingua o URL (lib/stripe aggiunge l'hash del body)
+      idempotencyScope: `checkout:${row.party_id}:${row.guest_user_id}`,
+    });
+
+    if (!session.url) throw new StripeError("checkout session without url");
+    return Response.json({ url: session.url });
+  } catch (e) {
+    log.error("create checkout session error", e);
+    return Response.json({ error: "checkout_failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,111 @@
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { STRIPE_SIGNATURE_TOLERANCE_SEC, signStripePayload } from "@/lib/stripe";
+
+const rpc = vi.hoisted(() => vi.fn());
+vi.mock("@/lib/supabase-admin", () => ({ supabaseAdmin: () => ({ rpc }) }));
+
+import { POST } from "./route";
+
+const SECRET = "whsec_test";
+
+function fixture(name: string) {
+  return readFileSync(`fixtures/stripe/${name}.json`, "utf8");
+}
+
+function webhookRequest(payload: string, options: { secret?: string; timestamp?: number } = {}) {
+  const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+  const signature = signStripePayload(payload, options.secret ?? SECRET, timestamp);
+  return new Request("http://localhost/api/stripe/webhook", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": `t=${timestamp},v1=${signature}` },
+    body: payload,
+  });
+}
+
+describe("POST /api/stripe/webhook", () => {
+  beforeEach(() => {
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", SECRET);
+    rpc.mockReset();
+    rpc.mockResolvedValue({ data: [{ ok: true }], error: null });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("marks the guest paid for a signed checkout.session.completed", async () => {
+    const res = await POST(webhookRequest(fixture("checkout.session.completed")));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ received: true });
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith("mark_guest_payment_paid_by_card", {
+      p_party_id: "00000000-0000-0000-0000-0000000000a1",
+      p_guest_user_id: "00000000-0000-0000-0000-0000000000b1",
+      p_checkout_session_id: "cs_test_fixture_completed_0001",
+      p_amount_cents: 1500,
+      p_currency: "eur",
+      p_event_id: "evt_1PfixtureCompleted0001",
+    });
+  });
+
+  it("rejects a bad signature without touching the database", async () => {
+    const res = await POST(webhookRequest(fixture("checkout.session.completed"), { secret: "whsec_other" }));
+    expect(res.status).toBe(400);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("rejects a stale timestamp", async () => {
+    const stale = Math.floor(Date.now() / 1000) - STRIPE_SIGNATURE_TOLERANCE_SEC - 60;
+    const res = await POST(webhookRequest(fixture("checkout.session.completed"), { timestamp: stale }));
+    expect(res.status).toBe(400);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("rejects a request without signature", async () => {
+    const payload = fixture("checkout.session.completed");
+    const res = await POST(new Request("http://localhost/api/stripe/webhook", { method: "POST", body: payload }));
+    expect(res.status).toBe(400);
+  });
+
+  it("acknowledges a duplicate delivery and lets the RPC dedupe on event and session", async () => {
+    const payload = fixture("checkout.session.completed");
+    rpc
+      .mockResolvedValueOnce({ data: [{ ok: true }], error: null })
+      .mockResolvedValueOnce({ data: [{ ok: true, duplicate: true }], error: null });
+
+    const first = await POST(webhookRequest(payload));
+    const second = await POST(webhookRequest(payload));
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(rpc.mock.calls[1]).toEqual(rpc.mock.calls[0]);
+  });
+
+  it("ignores a completed session that is not paid yet", async () => {
+    const res = await POST(webhookRequest(fixture("checkout.session.async_payment_pending")));
+    expect(res.status).toBe(200);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("ignores events other than payment success", async () => {
+    const res = await POST(webhookRequest(fixture("checkout.session.expired")));
+    expect(res.status).toBe(200);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it("answers 500 on a database error so Stripe retries", async () => {
+    rpc.mockResolvedValue({ data: null, error: { message: "boom" } });
+    const res = await POST(webhookRequest(fixture("checkout.session.completed")));
+    expect(res.status).toBe(500);
+  });
+
+  it("answers 503 when the webhook secret is not configured", async () => {
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", "");
+    const res = await POST(webhookRequest(fixture("checkout.session.completed")));
+    expect(res.status).toBe(503);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
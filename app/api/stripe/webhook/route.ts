@@ -0,0 +1,62 @@
+// app/api/stripe/webhook/route.ts
+// Webhook Stripe: a Checkout pagato segna l'ospite "paid" senza passare da pending_review.
+// La firma si verifica sul body grezzo; un errore del database risponde 500 così Stripe ritenta.
+
+import { createLogger } from "@/lib/log";
+import { type CheckoutSession, verifyStripeEvent } from "@/lib/stripe";
+import { supabaseAdmin } from "@/lib/supabase-admin";
+
+const log = createLogger("stripe-webhook");
+
+const PAID_EVENTS = new Set(["checkout.session.completed", "checkout.session.async_payment_succeeded"]);
+
+export async function POST(req: Request) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) return new Response("Webhook not configured", { status: 503 });
+
+  const payload = await req.text();
+
+  let event;
+  try {
+    event = verifyStripeEvent(payload, req.headers.get("stripe-signature"), secret);
+  } catch (e) {
+    log.warn("rejected webhook", e);
+    return new Response("Invalid signature", { status: 400 });
+  }
+
+  if (!PAID_EVENTS.has(event.type)) return Response.json({ received: true });
+
+  const session = event.data.object as CheckoutSession;
+  // completed con metodi asincroni (es. SEPA) arriva "unpaid": aspettiamo async_payment_succeeded
+  if (session.payment_status !== "paid") return Response.json({ received: true });
+
+  const partyId = session.metadata?.party_id;
+  const guestUserId = session.metadata?.guest_user_id;
+  if (!partyId || !guestUserId) {
+    log.warn("checkout session without guest metadata", { event: event.id, session: session.id });
+    return Response.json({ received: true });
+  }
+
+  // Idempotente per sessione: gli eventi ripetuti da Stripe non cambiano nulla.
+  const { data, error } = await supabaseAdmin().rpc("mark_guest_payment_paid_by_card", {
+    p_party_id: partyId,
+    p_guest_user_id: guestUserId,
+    p_checkout_session_id: session.id,
+    p_amount_cents: session.amount_total ?? null,
+    p_currency: session.currency ?? null,
+    p_event_id: event.id,
+  });
+
+  if (error) {
+    log.error("mark_guest_payment_paid_by_card error", error);
+    return new Response("Payment update failed", { status: 500 });
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+  if (!result?.ok) {
+    // es. importo diverso dalla quota: resta da verificare a mano, ritentare non serve
+    log.warn("card payment not applied", { event: event.id, session: session.id, result });
+  }
+
+  return Response.json({ received: true });
+}
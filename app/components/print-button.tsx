@@ -0,0 +1,12 @@
+"use client";
+
+import React from "react";
+
+// Bottone "Stampa" delle pagine stampabili (poster dell'invito, ricevuta). L'etichetta arriva già tradotta dalla pagina.
+export default function PrintButton({ label, style }: { label: string; style?: React.CSSProperties }) {
+  return (
+    <button type="button" style={style} onClick={() => window.print()}>
+      {label}
+    </button>
+  );
+}
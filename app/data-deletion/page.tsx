@@ -1,13 +1,24 @@
 import type { Metadata } from "next";
+import { getLegalDocuments, LEGAL_CONTACT_EMAIL } from "@/lib/i18n/legal";
+import { renderRichText } from "@/lib/i18n/rich-text";
+import { getLocale } from "@/lib/i18n/server";
 
-export const metadata: Metadata = {
-  title: "Cancellazione dati | echo",
-  description: "Come richiedere la cancellazione dell'account e dei dati in echo.",
-  robots: { index: true, follow: true },
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const doc = getLegalDocuments(await getLocale()).dataDeletion;
+  return {
+    title: doc.metaTitle,
+    description: doc.metaDescription,
+    robots: { index: true, follow: true },
+  };
+}
 
-export default function DataDeletionPage() {
-  const contactEmail = "partydispo.app@gmail.com";
+export default async function DataDeletionPage() {
+  const doc = getLegalDocuments(await getLocale()).dataDeletion;
+  const rich = (text: string) =>
+    renderRichText(text, {
+      vars: { email: LEGAL_CONTACT_EMAIL },
+      linkStyle: { color: "#2A7FFF", fontWeight: 800 },
+    });
 
   return (
     <main style={{ minHeight: "100vh", background: "#F6F8FF", padding: "32px 16px" }}>
@@ -23,31 +34,23 @@ export default function DataDeletionPage() {
         }}
       >
         <h1 style={{ fontSize: 30, fontWeight: 900, margin: 0, color: "#0E0F12" }}>
-          Cancellazione dati / account
+          {doc.title}
         </h1>
 
-        <p style={{ margin: "12px 0", lineHeight: 1.6, color: "rgba(0,0,0,0.78)" }}>
-          Puoi cancellare il tuo account echo direttamente dall'app, nella pagina <strong>Profilo</strong>, utilizzando l'opzione <strong>"Elimina account"</strong>.
-          In alternativa, puoi richiedere la cancellazione del tuo account e dei dati associati inviando una email a{" "}
-          <a href={`mailto:${contactEmail}`} style={{ color: "#2A7FFF", fontWeight: 800 }}>
-            {contactEmail}
-          </a>.
-        </p>
-
-        <p style={{ margin: "12px 0", lineHeight: 1.6, color: "rgba(0,0,0,0.78)" }}>
-          Nell’email indica:
-        </p>
-
-        <ul style={{ paddingLeft: 18, margin: "8px 0", color: "rgba(0,0,0,0.78)", lineHeight: 1.6 }}>
-          <li>Email usata in echo</li>
-          <li>Numero di telefono associato (se presente)</li>
-          <li>Oggetto: “Richiesta cancellazione account”</li>
-        </ul>
-
-        <p style={{ margin: "12px 0", lineHeight: 1.6, color: "rgba(0,0,0,0.78)" }}>
-          Ti risponderemo appena possibile per confermare la presa in carico della richiesta.
-        </p>
+        {doc.intro.map((block, index) =>
+          typeof block === "string" ? (
+            <p key={index} style={{ margin: "12px 0", lineHeight: 1.6, color: "rgba(0,0,0,0.78)" }}>
+              {rich(block)}
+            </p>
+          ) : (
+            <ul key={index} style={{ paddingLeft: 18, margin: "8px 0", color: "rgba(0,0,0,0.78)", lineHeight: 1.6 }}>
+              {block.list.map((item, itemIndex) => (
+                <li key={itemIndex}>{rich(item)}</li>
+              ))}
+            </ul>
+          )
+        )}
       </div>
     </main>
   );
-}
\ No newline at end of file
+}
@@ -2,6 +2,7 @@
 "use client";
 
 import { useMemo } from "react";
+import { useI18n } from "@/lib/i18n/client";
 
 const IOS_APP_STORE_URL = process.env.NEXT_PUBLIC_IOS_APP_STORE_URL || "";
 const ANDROID_PLAY_STORE_URL = process.env.NEXT_PUBLIC_ANDROID_PLAY_STORE_URL || "";
@@ -16,6 +17,8 @@ function detectPlatform(ua: string) {
 }
 
 export default function GetAppPage() {
+  const { t, messages } = useI18n();
+
   const { isAndroid, isIOS } = useMemo(() => {
     const ua = typeof navigator !== "undefined" ? navigator.userAgent || "" : "";
     return detectPlatform(ua);
@@ -29,10 +32,10 @@ export default function GetAppPage() {
   }, [isIOS, isAndroid]);
 
   const primaryLabel = useMemo(() => {
-    if (isIOS) return IOS_APP_STORE_URL ? "Scarica su App Store" : "App Store (non disponibile)";
-    if (isAndroid) return ANDROID_PLAY_STORE_URL ? "Scarica su Google Play" : "Google Play (non disponibile)";
-    return "Scarica l’app";
-  }, [isIOS, isAndroid]);
+    if (isIOS) return IOS_APP_STORE_URL ? t("get.appStore") : t("get.appStoreUnavailable");
+    if (isAndroid) return ANDROID_PLAY_STORE_URL ? t("get.googlePlay") : t("get.googlePlayUnavailable");
+    return t("get.title");
+  }, [isIOS, isAndroid, t]);
 
   const onOpenApp = () => {
     if (!DEEPLINK_BASE) return;
@@ -47,21 +50,18 @@ export default function GetAppPage() {
         <div style={S.card}>
           <div style={S.hero}>
             <div style={S.kicker}>echo</div>
-            <h1 style={S.h1}>Scarica l’app</h1>
-            <p style={S.muted}>
-              Per vedere luogo, orario e aggiornamenti in tempo reale dell’evento, ti conviene usare echo.
-            </p>
+            <h1 style={S.h1}>{t("get.title")}</h1>
+            <p style={S.muted}>{t("get.intro")}</p>
           </div>
 
           <div style={S.divider} />
 
           <div style={S.featureBox}>
-            <div style={S.featureTitle}>Con l’app ottieni</div>
+            <div style={S.featureTitle}>{t("get.perksTitle")}</div>
             <ul style={S.list}>
-              <li>Notifiche istantanee quando vieni approvato</li>
-              <li>Luogo e orario dell’evento (appena disponibili)</li>
-              <li>Info e aggiornamenti in tempo reale</li>
-              <li>Scatti “vintage” con un tocco, stile disposable camera</li>
+              {messages.get.perks.map((perk) => (
+                <li key={perk}>{perk}</li>
+              ))}
             </ul>
           </div>
 
@@ -92,7 +92,7 @@ export default function GetAppPage() {
               onClick={onOpenApp}
               disabled={!DEEPLINK_BASE}
             >
-              Apri l’app (se già installata)
+              {t("get.openApp")}
             </button>
 
             {/* Bottoni espliciti (quando avrai gli store link) */}
@@ -127,8 +127,8 @@ export default function GetAppPage() {
 
             {!IOS_APP_STORE_URL && !ANDROID_PLAY_STORE_URL ? (
               <div style={S.note}>
-                Nota: gli store link non sono ancora disponibili. Quando pubblicherai l’app, imposta le env:
-                <code style={S.code}> NEXT_PUBLIC_IOS_APP_STORE_URL</code> e
+                {t("get.storeNote")}
+                <code style={S.code}> NEXT_PUBLIC_IOS_APP_STORE_URL</code> {t("get.storeNoteAnd")}
                 <code style={S.code}> NEXT_PUBLIC_ANDROID_PLAY_STORE_URL</code>.
               </div>
             ) : null}
@@ -0,0 +1,43 @@
+// app/i/[token]/calendar.ics/route.ts
+// Evento calendario della festa (.ics). Solo titolo e data da get_invite_public: il luogo resta nell'app.
+// UID stabile per token, SEQUENCE = party_date_revision: quando la data cambia il calendario aggiorna l'evento.
+
+import { createHash } from "node:crypto";
+import { buildIcs, partyCalendarEvent } from "@/lib/calendar";
+import { getI18n } from "@/lib/i18n/server";
+import { getInvitePreview } from "@/lib/invite-public";
+import { SITE_URL, inviteUrl } from "@/lib/site";
+
+function eventUid(token: string) {
+  const host = new URL(SITE_URL).hostname;
+  return `invite-${createHash("sha1").update(token).digest("hex").slice(0, 24)}@${host}`;
+}
+
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const [preview, { t }] = await Promise.all([getInvitePreview(token), getI18n()]);
+
+  const event = preview
+    ? partyCalendarEvent({
+        title: preview.party_title ?? t("party.fallbackTitle"),
+        partyDate: preview.party_date,
+        partyTimeZone: preview.party_timezone,
+        description: t("invite.calendar.description"),
+        url: inviteUrl(token),
+      })
+    : null;
+
+  if (!preview || !event) {
+    return new Response(t("invite.calendar.notFound"), { status: 404 });
+  }
+
+  const ics = buildIcs(event, { uid: eventUid(token), sequence: preview.party_date_revision });
+
+  return new Response(ics, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `attachment; filename="echo-invito.ics"`,
+      "Cache-Control": "private, no-cache",
+    },
+  });
+}
@@ -0,0 +1,184 @@
+// app/i/[token]/companions-field.tsx
+"use client";
+
+import React from "react";
+import { useI18n } from "@/lib/i18n/client";
+import { COMPANION_NAME_MAX_LENGTH, emptyCompanion, type Companion } from "@/lib/companions";
+import type { DrinkProduct } from "@/lib/drink-catalog";
+
+// Accompagnatori con nome e, se l'ospite vuole, preferenze drink proprie (solo i prodotti scelti dall'organizzatore).
+export default function CompanionsField({
+  companions,
+  max,
+  products,
+  disabled,
+  onChange,
+  inputStyle,
+}: {
+  companions: Companion[];
+  max: number;
+  products: DrinkProduct[];
+  disabled?: boolean;
+  onChange: (companions: Companion[]) => void;
+  inputStyle?: React.CSSProperties;
+}) {
+  const { t } = useI18n();
+
+  function update(index: number, patch: Partial<Companion>) {
+    onChange(companions.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+  }
+
+  function toggleProduct(index: number, id: string) {
+    const current = companions[index].selections ?? {};
+    update(index, { selections: { ...current, [id]: !current[id] } });
+  }
+
+  return (
+    <div style={S.box}>
+      <div style={S.title}>{t("invite.companions.title", { max })}</div>
+      <div style={S.hint}>{t("invite.companions.hint")}</div>
+
+      {companions.map((companion, index) => (
+        <div key={index} style={S.companion}>
+          <div style={S.nameRow}>
+            <input
+              style={{ ...inputStyle, ...S.nameInput }}
+              placeholder={t("invite.companions.namePlaceholder", { n: index + 1 })}
+              value={companion.name}
+              maxLength={COMPANION_NAME_MAX_LENGTH}
+              disabled={disabled}
+              onChange={(e) => update(index, { name: e.target.value })}
+            />
+            <button
+              type="button"
+              style={S.removeBtn}
+              disabled={disabled}
+              aria-label={t("invite.companions.remove")}
+              onClick={() => onChange(companions.filter((_, i) => i !== index))}
+            >
+              ✕
+            </button>
+          </div>
+
+          {products.length ? (
+            companion.selections ? (
+              <>
+                <div style={S.chips}>
+                  {products.map((product) => {
+                    const active = companion.selections?.[product.id] === true;
+                    return (
+                      <button
+                        key={product.id}
+                        type="button"
+                        style={active ? S.chipActive : S.chip}
+                        disabled={disabled}
+                        onClick={() => toggleProduct(index, product.id)}
+                      >
+                        {product.icon ? `${product.icon} ` : ""}
+                        {product.label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <button
+                  type="button"
+                  style={S.textBtn}
+                  disabled={disabled}
+                  onClick={() => update(index, { selections: null })}
+                >
+                  {t("invite.companions.removePreferences")}
+                </button>
+              </>
+            ) : (
+              <button
+                type="button"
+                style={S.textBtn}
+                disabled={disabled}
+                onClick={() => update(index, { selections: {} })}
+              >
+                {t("invite.companions.addPreferences")}
+              </button>
+            )
+          ) : null}
+        </div>
+      ))}
+
+      {companions.length < max ? (
+        <button
+          type="button"
+          style={S.addBtn}
+          disabled={disabled}
+          onClick={() => onChange([...companions, emptyCompanion()])}
+        >
+          {t("invite.companions.add", { count: companions.length, max })}
+        </button>
+      ) : null}
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  box: {
+    display: "grid",
+    gap: 10,
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.04)",
+    padding: 14,
+    marginBottom: 12,
+  },
+  title: { fontWeight: 950, fontSize: 15, textAlign: "center" },
+  hint: { fontSize: 12, opacity: 0.7, textAlign: "center" },
+  companion: { display: "grid", gap: 8 },
+  nameRow: { display: "flex", gap: 8 },
+  nameInput: { flex: 1, minWidth: 0 },
+  removeBtn: {
+    width: 46,
+    flexShrink: 0,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "transparent",
+    color: "rgba(255,255,255,0.8)",
+    cursor: "pointer",
+  },
+  chips: { display: "flex", flexWrap: "wrap", gap: 6 },
+  chip: {
+    padding: "6px 10px",
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "transparent",
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: 800,
+    fontSize: 13,
+    cursor: "pointer",
+  },
+  chipActive: {
+    padding: "6px 10px",
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.92)",
+    background: "rgba(255,255,255,0.92)",
+    color: "#111",
+    fontWeight: 800,
+    fontSize: 13,
+    cursor: "pointer",
+  },
+  textBtn: {
+    justifySelf: "start",
+    border: 0,
+    background: "transparent",
+    color: "rgba(255,255,255,0.7)",
+    textDecoration: "underline",
+    fontSize: 12,
+    padding: 0,
+    cursor: "pointer",
+  },
+  addBtn: {
+    height: 40,
+    borderRadius: 14,
+    border: "1px dashed rgba(255,255,255,0.24)",
+    background: "transparent",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 900,
+    cursor: "pointer",
+  },
+};
@@ -0,0 +1,1854 @@
+// app/i/[token]/invite-page.tsx
+"use client";
+
+import React, { useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { useParams, usePathname } from "next/navigation";
+import { supabase } from "@/lib/supabase";
+import { createOtpProviders, toOtpError, type OtpChannel } from "@/lib/otp";
+import { createLogger } from "@/lib/log";
+import { partyTypeLabel as formatPartyTypeLabel } from "@/lib/party";
+import { formatPartyDay, formatPartyTime, formatRelativeDay } from "@/lib/dates";
+import { googleCalendarUrl, outlookCalendarUrl, partyCalendarEvent } from "@/lib/calendar";
+import { inviteUrl } from "@/lib/site";
+import { DEFAULT_PHONE_COUNTRY, parsePhoneNumber, splitE164, type PhoneParseError } from "@/lib/phone";
+import {
+  changedProfileFields,
+  isProfileComplete,
+  loadGuestProfile,
+  shortDisplayName,
+  type GuestProfile,
+  type ProfileSex,
+} from "@/lib/profile";
+import PhoneField from "./phone-field";
+import CompanionsField from "./companions-field";
+import { companionsPayload, type Companion, type CompanionsPayload } from "@/lib/companions";
+import { PAGE_BG, PAGE_GRADIENT } from "@/lib/theme";
+import {
+  canHandle,
+  initialInviteFlowState,
+  inviteFlowReducer,
+  requiresPreferencesBeforeJoin as inviteRequiresPreferences,
+  type InviteFlowEvent,
+  type RsvpChoice,
+} from "@/lib/invite-flow";
+import {
+  LEGACY_DRINK_PRODUCTS,
+  clearAlcoholSelections,
+  hasAlcoholSelection,
+  isAlcoholicProduct,
+  legacyColumnsFromSelections,
+  loadDrinkCatalog,
+  productsByCategory,
+  selectionsFromPreferenceRow,
+  type DrinkProduct,
+  type DrinkSelections,
+} from "@/lib/drink-catalog";
+import {
+  formatInviteDiagnostics,
+  isInviteExpired,
+  isPartyFull,
+  isRsvpOpen,
+  parseInvitePayload,
+  type InvitePublic,
+} from "@/lib/invite-contract";
+import { labelFor } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/client";
+import {
+  loadMyInviteStatus,
+  notifyOrganizerRsvpChange,
+  statusAfterResponse,
+  withdrawRsvp,
+  type MyInviteStatus,
+  type RsvpChange,
+} from "@/lib/rsvp-status";
+
+const log = createLogger("invite-web");
+
+const IOS_APP_STORE_URL = process.env.NEXT_PUBLIC_IOS_APP_STORE_URL || "";
+const ANDROID_PLAY_STORE_URL = process.env.NEXT_PUBLIC_ANDROID_PLAY_STORE_URL || "";
+
+function isValidEmail(e: string) {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e.trim().toLowerCase());
+}
+
+const otpProviders = createOtpProviders(supabase);
+
+function sanitizeOtp(code: string, length: number) {
+  return code.replace(/\D/g, "").trim().slice(0, length);
+}
+
+function asMsg(e: any): string {
+  if (!e) return "";
+  if (typeof e === "string") return e;
+  if (e?.message && typeof e.message === "string") return e.message;
+  try {
+    return JSON.stringify(e);
+  } catch {
+    return String(e);
+  }
+}
+
+function hasCompletedDrinkPrefs(currentPrefs: DrinkSelections, catalog: DrinkProduct[], currentIntoxLevel: number) {
+  const alcoholSelected = hasAlcoholSelection(currentPrefs, catalog);
+  const safeIntoxLevel = currentIntoxLevel <= 0 ? 0 : currentIntoxLevel >= 2 ? 2 : 1;
+  return safeIntoxLevel === 0 ? !alcoholSelected : alcoholSelected;
+}
+
+export default function InvitePage({ params }: { params: { token: string } }) {
+  const routeParams = useParams<{ token?: string | string[] }>();
+  const pathname = usePathname();
+  const { locale, intlLocale, t, messages } = useI18n();
+
+  const token = useMemo(() => {
+    const fromProps = params?.token;
+    if (typeof fromProps === "string" && fromProps.trim()) return fromProps;
+
+    const rp = routeParams?.token;
+    if (typeof rp === "string" && rp.trim()) return rp;
+    if (Array.isArray(rp) && typeof rp[0] === "string" && rp[0].trim()) return rp[0];
+
+    if (typeof pathname === "string") {
+      const m = pathname.match(/^\/i\/([^/?#]+)/);
+      if (m && m[1]) return decodeURIComponent(m[1]);
+    }
+
+    if (typeof window !== "undefined") {
+      const qs = new URLSearchParams(window.location.search);
+      const q = qs.get("token");
+      if (q && q.trim()) return q;
+    }
+
+    return "";
+  }, [params, routeParams, pathname]);
+
+  const [invite, setInvite] = useState<InvitePublic | null>(null);
+  const [previewTitle, setPreviewTitle] = useState<string | null>(null);
+  const [previewDay, setPreviewDay] = useState<string | null>(null);
+
+  const [flow, dispatch] = useReducer(inviteFlowReducer, initialInviteFlowState);
+  const { step, errorText, busy, wantsToJoin, pendingChoice, resultStatus, prefsTouched } = flow;
+  const setErrorText = (message: string | null) => dispatch({ type: "SET_ERROR", message });
+
+  const [firstName, setFirstName] = useState("");
+  const [lastName, setLastName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [phoneCountry, setPhoneCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [email, setEmail] = useState("");
+  const [sex, setSex] = useState<ProfileSex>(null);
+  // profilo già salvato di chi arriva con una sessione valida
+  const [savedProfile, setSavedProfile] = useState<GuestProfile | null>(null);
+
+  const [otp, setOtp] = useState("");
+  const [otpChannel, setOtpChannel] = useState<OtpChannel>("email");
+  // destinazione a cui è partito l'ultimo codice: la verifica usa questa, non i campi (modificabili)
+  const [codeSentTo, setCodeSentTo] = useState<{ channel: OtpChannel; destination: string } | null>(null);
+  // cooldown separato per canale: aspettare l'email non blocca l'SMS e viceversa
+  const [otpCooldowns, setOtpCooldowns] = useState<Record<OtpChannel, number>>({ email: 0, sms: 0 });
+  const otpCooldownTimerRef = useRef<number | null>(null);
+  const otpProvider = otpProviders[otpChannel];
+  // il codice segue il canale su cui è stato spedito, anche se nel frattempo si cambia scheda
+  const sentOtpProvider = codeSentTo ? otpProviders[codeSentTo.channel] : otpProvider;
+  const otpCooldownSec = otpCooldowns[otpChannel];
+
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
+
+
+  const [catalog, setCatalog] = useState<DrinkProduct[]>(LEGACY_DRINK_PRODUCTS);
+  const [prefs, setPrefs] = useState<DrinkSelections>({});
+  const [intoxLevel, setIntoxLevel] = useState<number>(0);
+
+  // risposta e approvazione lette dal server (get_my_invite_status)
+  const [myStatus, setMyStatus] = useState<MyInviteStatus | null>(null);
+  const [companions, setCompanions] = useState<Companion[]>([]);
+
+  // Prima di entrare in ready chiede al server se l'utente ha già risposto: in quel caso si mostra subito la risposta.
+  async function fetchMyStatus() {
+    try {
+      const status = await loadMyInviteStatus(supabase, token);
+      setMyStatus(status);
+      setCompanions(status.companions);
+      return status;
+    } catch (e) {
+      log.error("load my invite status error", e);
+      setMyStatus(null);
+      return null;
+    }
+  }
+
+  async function onResumeSession() {
+    dispatch({ type: "BUSY_START" });
+    const status = await fetchMyStatus();
+    dispatch({ type: "SESSION_RESUMED", existing: status?.rsvp ?? null });
+    dispatch({ type: "BUSY_END" });
+  }
+
+  async function safeClearBrokenSession() {
+    try {
+      const { error } = await supabase.auth.getSession();
+      const msg = asMsg(error);
+      if (error && /refresh token/i.test(msg)) {
+        await supabase.auth.signOut();
+      }
+    } catch {
+      // ignore
+    }
+  }
+
+  function prefillFromProfile(profile: GuestProfile) {
+    setSavedProfile(profile);
+    setFirstName(profile.first_name ?? "");
+    setLastName(profile.last_name ?? "");
+    setEmail(profile.email ?? "");
+    setSex(profile.sex);
+
+    const split = splitE164(profile.phone);
+    if (split) {
+      setPhoneCountry(split.country.iso);
+      setPhone(split.national);
+    } else {
+      setPhone(profile.phone ?? "");
+    }
+  }
+
+  async function onSignOut() {
+    try {
+      dispatch({ type: "BUSY_START" });
+      await supabase.auth.signOut();
+    } catch (e) {
+      log.error("sign out error", e);
+    } finally {
+      setSessionUserId(null);
+      setSavedProfile(null);
+      dispatch({ type: "BUSY_END" });
+    }
+  }
+
+  function startOtpCooldown(channel: OtpChannel, seconds: number) {
+    setOtpCooldowns((prev) => ({ ...prev, [channel]: seconds }));
+    if (otpCooldownTimerRef.current) return;
+
+    otpCooldownTimerRef.current = window.setInterval(() => {
+      setOtpCooldowns((prev) => {
+        const next = { email: Math.max(0, prev.email - 1), sms: Math.max(0, prev.sms - 1) };
+        if (next.email === 0 && next.sms === 0 && otpCooldownTimerRef.current) {
+          window.clearInterval(otpCooldownTimerRef.current);
+          otpCooldownTimerRef.current = null;
+        }
+        return next;
+      });
+    }, 1000);
+  }
+
+  const title = invite?.party_title ?? previewTitle ?? t("party.fallbackTitle");
+  const dateOptions = { locale, timeZone: invite?.party_timezone };
+  const day = formatPartyDay(invite?.party_date, dateOptions) ?? previewDay;
+  const relativeDay = formatRelativeDay(invite?.party_date, dateOptions);
+
+  const rsvpOpen = invite ? isRsvpOpen(invite) : true;
+  const rsvpDeadline = invite?.rsvp_deadline
+    ? [formatPartyDay(invite.rsvp_deadline, dateOptions), formatPartyTime(invite.rsvp_deadline, dateOptions)]
+        .filter(Boolean)
+        .join(" · ")
+    : null;
+
+  const calendarEvent = useMemo(
+    () =>
+      token && invite
+        ? partyCalendarEvent({
+            title,
+            partyDate: invite.party_date,
+            partyTimeZone: invite.party_timezone,
+            description: t("invite.calendar.description"),
+            url: inviteUrl(token),
+          })
+        : null,
+    [token, invite, title, t]
+  );
+
+  const partyTypeLabel = useMemo(
+    () => formatPartyTypeLabel(invite?.party_mode, invite?.party_type, locale),
+    [invite, locale]
+  );
+  
+  const alcoholDisabled = false;
+
+  const requiresPreferencesBeforeJoin = useMemo(() => inviteRequiresPreferences(invite), [invite]);
+
+  const visibleProducts = useMemo(() => {
+    const ids = invite?.selected_products ?? [];
+    return catalog.filter((p) => ids.includes(p.id));
+  }, [invite, catalog]);
+
+  const productSections = useMemo(
+    () =>
+      [
+        { title: t("invite.prefs.sections.alcoholic"), products: productsByCategory(visibleProducts, "alcoholic") },
+        { title: t("invite.prefs.sections.soft"), products: productsByCategory(visibleProducts, "soft") },
+        { title: t("invite.prefs.sections.other"), products: productsByCategory(visibleProducts, "other") },
+      ].filter((section) => section.products.length > 0),
+    [visibleProducts, t]
+  );
+
+  const hasVisibleProducts = visibleProducts.length > 0;
+
+  useEffect(() => {
+    log.debug("preferences gate", {
+      step,
+      wantsToJoin,
+      requiresPreferencesBeforeJoin,
+      invitePartyMode: invite?.party_mode ?? null,
+      inviteShowDrinkPreferences: invite?.show_drink_preferences ?? null,
+      invitePartyId: invite?.party_id ?? null,
+      sessionUserId,
+    });
+  }, [step, wantsToJoin, requiresPreferencesBeforeJoin, invite, sessionUserId]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [step, wantsToJoin]);
+
+  const onGetApp = () => {
+    const ua = typeof navigator !== "undefined" ? navigator.userAgent || "" : "";
+    const isAndroid = /Android/i.test(ua);
+    const isIOS = /iPhone|iPad|iPod/i.test(ua);
+
+    if (isIOS && IOS_APP_STORE_URL) {
+      window.location.href = IOS_APP_STORE_URL;
+      return;
+    }
+    if (isAndroid && ANDROID_PLAY_STORE_URL) {
+      window.location.href = ANDROID_PLAY_STORE_URL;
+      return;
+    }
+
+    setErrorText(t("invite.app.notAvailable"));
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        dispatch({ type: "BOOTSTRAP" });
+        await safeClearBrokenSession();
+
+        if (!token) return;
+
+        const { data: sess } = await supabase.auth.getSession();
+        const uid = sess.session?.user?.id ?? null;
+        if (cancelled) return;
+
+        setSessionUserId(uid);
+
+        // Ospite che torna (altro dispositivo o reload) con sessione e profilo completo: se ha già risposto
+        // si mostra subito la risposta salvata, senza passare da "Continua come…".
+        let existing: RsvpChoice | null = null;
+        if (uid) {
+          try {
+            const profile = await loadGuestProfile(supabase, uid);
+            if (cancelled) return;
+            if (profile) prefillFromProfile(profile);
+            if (isProfileComplete(profile)) {
+              const status = await loadMyInviteStatus(supabase, token);
+              if (cancelled) return;
+              setMyStatus(status);
+              setCompanions(status.companions);
+              existing = status.rsvp;
+            }
+          } catch (e) {
+            log.error("load saved profile or invite status error", e);
+          }
+        }
+
+        dispatch({ type: "BOOTSTRAP_DONE", existing });
+      } catch (e) {
+        log.error("bootstrap error", e);
+        if (!cancelled) dispatch({ type: "BOOTSTRAP_DONE" });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // Separato dal bootstrap così un cambio lingua ritraduce l'errore senza azzerare il flusso.
+  useEffect(() => {
+    if (!token) dispatch({ type: "FAIL", message: t("invite.errors.missingToken") });
+  }, [token, t]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const products = await loadDrinkCatalog();
+        if (!cancelled) setCatalog(products);
+      } catch (e) {
+        log.error("load drink catalog error", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      if (otpCooldownTimerRef.current) {
+        window.clearInterval(otpCooldownTimerRef.current);
+        otpCooldownTimerRef.current = null;
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!token) return;
+
+        const { data, error } = await supabase.rpc("get_invite_public", { p_token: token });
+        if (error) {
+          log.error("get_invite_public preview error", error);
+          if (!cancelled) setErrorText(t("invite.errors.previewFailed"));
+          return;
+        }
+
+        const row: unknown = Array.isArray(data) ? data[0] : data;
+        const parsed = row ? parseInvitePayload(row) : null;
+        if (!cancelled && parsed?.ok) {
+          const partyTitle = parsed.invite.party_title;
+          const d = formatPartyDay(parsed.invite.party_date, { locale, timeZone: parsed.invite.party_timezone });
+
+          if (partyTitle) setPreviewTitle(partyTitle);
+          if (d) setPreviewDay(d);
+        }
+      } catch {
+        // ignore
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, locale, t]);
+
+  // Dopo il login l'invito serve sia in ready sia in done: chi ha già risposto arriva direttamente a done
+  // e ha comunque bisogno di scadenza RSVP, calendario, accompagnatori e preferenze.
+  const signedIn = step === "ready" || step === "done";
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (!signedIn || !token) return;
+
+        setErrorText(null);
+
+        const { data, error } = await supabase.rpc("get_invite_public", { p_token: token });
+        if (error) throw error;
+
+        const row: unknown = Array.isArray(data) ? data[0] : data;
+        log.debug("get_invite_public row", row);
+        if (!row) {
+          setInvite(null);
+          dispatch({ type: "FAIL", message: t("invite.errors.notFound") });
+          return;
+        }
+
+        const parsed = parseInvitePayload(row);
+        if (!parsed.ok) {
+          throw new Error(`Invalid get_invite_public payload: ${formatInviteDiagnostics(parsed.diagnostics)}`);
+        }
+        if (parsed.diagnostics.length > 0) {
+          log.warn("get_invite_public payload warnings", formatInviteDiagnostics(parsed.diagnostics));
+        }
+
+        if (isInviteExpired(parsed.invite)) {
+          setInvite(null);
+          dispatch({ type: "FAIL", message: t("invite.errors.expired") });
+          return;
+        }
+
+        if (!cancelled) setInvite(parsed.invite);
+      } catch (e) {
+        log.error("post-login load error", e);
+        if (!cancelled) {
+          setInvite(null);
+          setErrorText(t("invite.errors.partialLoad"));
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signedIn, token, t]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        if (step !== "ready" || !sessionUserId || !invite?.party_id || !requiresPreferencesBeforeJoin) return;
+
+        const { data, error } = await supabase
+          .from("party_drink_preferences")
+          .select("*")
+          .eq("party_id", invite.party_id)
+          .eq("user_id", sessionUserId)
+          .maybeSingle();
+
+        if (error) {
+          log.error("load web drink prefs error", error);
+          return;
+        }
+        if (!data || cancelled) return;
+
+        setPrefs(selectionsFromPreferenceRow(data));
+
+        const raw = typeof data.intox_level === "number" ? data.intox_level : 0;
+        setIntoxLevel(raw <= 0 ? 0 : raw >= 2 ? 2 : 1);
+        dispatch({ type: "PREFS_TOUCHED" });
+      } catch (e) {
+        log.error("load web drink prefs unexpected error", e);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [step, sessionUserId, invite?.party_id, requiresPreferencesBeforeJoin]);
+
+  function phoneErrorText(error: PhoneParseError, iso: string | null) {
+    // numero internazionale con prefisso fuori metadata: c'è solo il controllo generico E.164
+    if (!iso && error !== "empty") return t("invite.errors.phone.international");
+    const country = iso ? new Intl.DisplayNames([intlLocale], { type: "region" }).of(iso) ?? iso : "";
+    return t(`invite.errors.phone.${error}`, { country });
+  }
+
+  async function onSendCode() {
+    const provider = otpProvider;
+    try {
+      if (otpCooldownSec > 0) {
+        setErrorText(t("invite.errors.otpCooldown", { seconds: otpCooldownSec }));
+        return;
+      }
+      dispatch({ type: "BUSY_START" });
+      setErrorText(null);
+
+      const fn = firstName.trim();
+      const ln = lastName.trim();
+      const parsedPhone = parsePhoneNumber(phone, phoneCountry);
+      const em = email.trim().toLowerCase();
+
+      if (!fn || !ln || !phone.trim() || !em) {
+        setErrorText(t("invite.errors.fillAll"));
+        return;
+      }
+      if (!parsedPhone.ok) {
+        setErrorText(phoneErrorText(parsedPhone.error, parsedPhone.country?.iso ?? null));
+        return;
+      }
+      setPhone(parsedPhone.national);
+      if (parsedPhone.country) setPhoneCountry(parsedPhone.country.iso);
+
+      if (!isValidEmail(em)) {
+        setErrorText(t("invite.errors.enterValidEmail"));
+        return;
+      }
+      if (!token) {
+        setErrorText(t("invite.errors.invalidLink"));
+        return;
+      }
+
+      const destination = provider.channel === "sms" ? parsedPhone.e164 : em;
+      await provider.send(destination);
+
+      startOtpCooldown(provider.channel, provider.cooldownSec);
+      setOtp("");
+      setCodeSentTo({ channel: provider.channel, destination });
+      dispatch({ type: "CODE_SENT" });
+    } catch (e) {
+      log.error("send otp error", { channel: provider.channel, error: e });
+      const err = toOtpError(e);
+      if (err.kind === "rateLimited") {
+        if (err.retryAfterSec) startOtpCooldown(provider.channel, err.retryAfterSec);
+        setErrorText(
+          err.retryAfterSec
+            ? t("invite.errors.otpCooldown", { seconds: err.retryAfterSec })
+            : t("invite.errors.tooManyCodes")
+        );
+      } else {
+        setErrorText(provider.channel === "sms" ? t("invite.errors.smsSendFailed") : t("invite.errors.sendFailed"));
+      }
+    } finally {
+      dispatch({ type: "BUSY_END" });
+    }
+  }
+
+  async function onVerifyCode() {
+    try {
+      dispatch({ type: "BUSY_START" });
+      setErrorText(null);
+      await safeClearBrokenSession();
+
+      if (!codeSentTo) {
+        setErrorText(t("invite.errors.codeExpired"));
+        return;
+      }
+      const provider = otpProviders[codeSentTo.channel];
+      const code = sanitizeOtp(otp, provider.codeLength);
+
+      if (!code || code.length !== provider.codeLength) {
+        setErrorText(t("invite.errors.otpLength", { digits: provider.codeLength }));
+        return;
+      }
+
+      let verified: { userId: string | null };
+      try {
+        verified = await provider.verify(codeSentTo.destination, code);
+      } catch (e) {
+        const err = toOtpError(e);
+        setErrorText(err.kind === "expired" ? t("invite.errors.codeExpired") : t("invite.errors.codeInvalid"));
+        return;
+      }
+
+      const { data: sessData, error: sessErr } = await supabase.auth.getSession();
+      if (sessErr) {
+        setErrorText(t("invite.errors.sessionInit"));
+        return;
+      }
+
+      const uid = sessData.session?.user?.id ?? verified.userId;
+      if (!uid) {
+        setErrorText(t("invite.errors.loginFailed"));
+        return;
+      }
+
+      setSessionUserId(uid);
+
+      const fn = firstName.trim();
+      const ln = lastName.trim();
+      const parsedPhone = parsePhoneNumber(phone, phoneCountry);
+      const em = email.trim().toLowerCase();
+
+      if (!fn || !ln || !parsedPhone.ok) {
+        setErrorText(t("invite.errors.fillProfile"));
+        return;
+      }
+      if (!isValidEmail(em)) {
+        setErrorText(t("invite.errors.invalidEmail"));
+        return;
+      }
+
+      const nextProfile: GuestProfile = {
+        first_name: fn,
+        last_name: ln,
+        phone: parsedPhone.e164,
+        email: em,
+        sex,
+      };
+
+      let saved: GuestProfile | null = null;
+      try {
+        saved = await loadGuestProfile(supabase, uid);
+      } catch (e) {
+        log.error("load profile before upsert failed", e);
+      }
+
+      let profileSaved = true;
+      const changes = changedProfileFields(saved, nextProfile);
+      if (changes) {
+        const { error: upsertErr } = await supabase
+          .from("profiles")
+          .upsert({ id: uid, ...changes, updated_at: new Date().toISOString() }, { onConflict: "id" });
+
+        if (upsertErr) {
+          log.error("profile upsert failed (OTP OK)", upsertErr);
+          profileSaved = false;
+        }
+      }
+      // solo un profilo davvero salvato vale per "Continua come …"
+      setSavedProfile(profileSaved ? nextProfile : saved);
+
+      const status = await fetchMyStatus();
+      dispatch({ type: "VERIFIED", existing: status?.rsvp ?? null });
+      // il codice è già consumato: si prosegue, ma l'ospite deve sapere che i dati non sono stati salvati
+      if (!profileSaved) setErrorText(t("invite.errors.profileSaveFailed"));
+    } catch (e) {
+      log.error("verify otp unexpected error", e);
+      setErrorText(t("invite.errors.codeInvalidDetailed"));
+    } finally {
+      dispatch({ type: "BUSY_END" });
+    }
+  }
+
+  function setPref(key: string, value: boolean) {
+    setPrefs((prev) => {
+      const next = { ...prev, [key]: value };
+      dispatch({ type: "PREFS_TOUCHED" });
+
+      const selectedAlcoholKey = isAlcoholicProduct(key, catalog);
+      const alcoholSelected = hasAlcoholSelection(next, catalog);
+
+      if (selectedAlcoholKey && alcoholSelected && intoxLevel === 0) {
+        setIntoxLevel(1);
+      }
+
+      if (!alcoholSelected) {
+        setIntoxLevel(0);
+      }
+
+      return next;
+    });
+  }
+
+  async function saveDrinkPreferences() {
+    if (!invite?.party_id || !sessionUserId) {
+      throw new Error(t("invite.errors.sessionInvalid"));
+    }
+
+    const safeIntoxLevel = intoxLevel <= 0 ? 0 : intoxLevel >= 2 ? 2 : 1;
+
+    const payload = {
+      party_id: invite.party_id,
+      user_id: sessionUserId,
+      selections: prefs,
+      ...legacyColumnsFromSelections(prefs),
+      water: false,
+      intox_level: safeIntoxLevel,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await supabase
+      .from("party_drink_preferences")
+      .upsert(payload, { onConflict: "party_id,user_id" });
+
+    if (error) throw error;
+  }
+
+  async function onRespond(next: RsvpChoice) {
+    const event: InviteFlowEvent = { type: "RESPOND", choice: next, requiresPreferences: requiresPreferencesBeforeJoin };
+    if (!canHandle(flow, event)) return;
+
+    if (!rsvpOpen) {
+      setErrorText(t("invite.rsvp.closed"));
+      return;
+    }
+
+    try {
+      log.debug("onRespond:start", {
+        next,
+        wantsToJoin,
+        requiresPreferencesBeforeJoin,
+        invitePartyMode: invite?.party_mode ?? null,
+        inviteShowDrinkPreferences: invite?.show_drink_preferences ?? null,
+        invitePartyId: invite?.party_id ?? null,
+        sessionUserId,
+      });
+      dispatch(event);
+      if (next === "yes" && requiresPreferencesBeforeJoin) {
+        log.debug("onRespond:preferences-required -> opening prefs UI");
+        return;
+      }
+
+      const companionsToSend = next === "yes" ? companionsForResponse() : [];
+      if (!companionsToSend) {
+        dispatch({ type: "RESPOND_FAILED", message: companionsErrorText });
+        return;
+      }
+
+      const { data, error } = await supabase.rpc("respond_party_invite_auth", {
+        p_token: token,
+        p_status: next,
+        p_companions: companionsToSend,
+      });
+
+      if (error) throw error;
+
+      if (data?.ok) {
+        const previous = myStatus?.rsvp ?? null;
+        setMyStatus((prev) => statusAfterResponse(prev, next, data, companions));
+        dispatch({ type: "RESPOND_SUCCEEDED", choice: next });
+        if (previous && previous !== next) void notifyRsvpChange(next);
+      } else {
+        dispatch({ type: "RESPOND_FAILED", message: t("invite.errors.respondFailed") });
+      }
+    } catch (e) {
+      log.error("respond error", e);
+      dispatch({ type: "RESPOND_FAILED", message: t("invite.errors.inviteInvalid") });
+    }
+  }
+
+  const maxCompanions = invite?.max_companions ?? 0;
+  const companionsCheck = companionsPayload(companions, maxCompanions);
+  const companionsErrorText = companionsCheck.ok
+    ? ""
+    : companionsCheck.error === "tooMany"
+      ? t("invite.errors.tooManyCompanions", { max: maxCompanions })
+      : t("invite.errors.companionName");
+
+  function companionsForResponse(): CompanionsPayload | null {
+    return companionsCheck.ok ? companionsCheck.payload : null;
+  }
+
+  // Best effort: la risposta è già salvata anche se l'avviso all'organizzatore non parte.
+  async function notifyRsvpChange(change: RsvpChange) {
+    try {
+      await notifyOrganizerRsvpChange(supabase, token, change);
+    } catch (e) {
+      log.error("notify rsvp change error", e);
+    }
+  }
+
+  async function onWithdraw() {
+    if (!rsvpOpen) {
+      setErrorText(t("invite.rsvp.closed"));
+      return;
+    }
+
+    try {
+      dispatch({ type: "BUSY_START" });
+      setErrorText(null);
+
+      const ok = await withdrawRsvp(supabase, token);
+      if (!ok) {
+        setErrorText(t("invite.errors.withdrawFailed"));
+        return;
+      }
+
+      setMyStatus({ rsvp: null, approval: null, responded_at: null, companions: [], waitlist_position: null });
+      dispatch({ type: "WITHDRAWN" });
+      void notifyRsvpChange("withdrawn");
+    } catch (e) {
+      log.error("withdraw rsvp error", e);
+      setErrorText(t("invite.errors.withdrawFailed"));
+    } finally {
+      dispatch({ type: "BUSY_END" });
+    }
+  }
+
+  async function onSavePrefsAndRespond() {
+    if (!canHandle(flow, { type: "PREFS_SUBMITTED" })) return;
+
+    if (!rsvpOpen) {
+      setErrorText(t("invite.rsvp.closed"));
+      return;
+    }
+
+    if (!hasCompletedDrinkPrefs(prefs, catalog, intoxLevel)) {
+      setErrorText(t("invite.errors.prefsInconsistent"));
+      return;
+    }
+
+    const companionsToSend = companionsForResponse();
+    if (!companionsToSend) {
+      setErrorText(companionsErrorText);
+      return;
+    }
+
+    try {
+      dispatch({ type: "PREFS_SUBMITTED" });
+
+      await saveDrinkPreferences();
+
+      const { data, error } = await supabase.rpc("respond_party_invite_auth", {
+        p_token: token,
+        p_status: "yes",
+        p_companions: companionsToSend,
+      });
+
+      if (error) throw error;
+
+      if (data?.ok) {
+        const previous = myStatus?.rsvp ?? null;
+        setMyStatus((prev) => statusAfterResponse(prev, "yes", data, companions));
+        dispatch({ type: "RESPOND_SUCCEEDED", choice: "yes" });
+        if (previous) void notifyRsvpChange(previous === "yes" ? "preferences" : "yes");
+      } else {
+        dispatch({ type: "RESPOND_FAILED", message: t("invite.errors.joinFailed") });
+      }
+    } catch (e) {
+      log.error("save prefs and respond error", e);
+      dispatch({ type: "RESPOND_FAILED", message: t("invite.errors.prefsSaveFailed") });
+    }
+  }
+
+  // Cambio o ritiro della risposta dallo step done, finché la scadenza lo permette.
+  const rsvpManage = (
+    <div style={S.manageBox}>
+      {rsvpDeadline ? (
+        <div style={{ ...S.smallMuted, textAlign: "center" }}>
+          {rsvpOpen
+            ? t("invite.rsvp.deadline", { deadline: rsvpDeadline })
+            : t("invite.rsvp.closedSince", { deadline: rsvpDeadline })}
+        </div>
+      ) : null}
+
+      {rsvpOpen ? (
+        <>
+          <button
+            type="button"
+            style={S.linkBtnCentered}
+            disabled={busy}
+            onClick={() => dispatch({ type: "EDIT_RSVP", editPreferences: false })}
+          >
+            {t("invite.rsvp.change")}
+          </button>
+          {resultStatus === "yes" && requiresPreferencesBeforeJoin ? (
+            <button
+              type="button"
+              style={S.linkBtnCentered}
+              disabled={busy}
+              onClick={() => dispatch({ type: "EDIT_RSVP", editPreferences: true })}
+            >
+              {t("invite.rsvp.editPreferences")}
+            </button>
+          ) : null}
+          <button type="button" style={S.linkBtnCentered} disabled={busy} onClick={onWithdraw}>
+            {busy ? t("common.sending") : t("invite.rsvp.withdraw")}
+          </button>
+        </>
+      ) : null}
+    </div>
+  );
+
+  return (
+    <main style={S.page}>
+      <div style={S.bg} />
+      <div style={S.container}>
+        <div style={S.card}>
+          {step === "loading" ? (
+            <div style={S.center}>
+              <div style={S.spinner} />
+              <div style={S.muted}>{t("common.loading")}</div>
+            </div>
+          ) : step === "error" ? (
+            <>
+              <h1 style={S.h1}>{t("common.oops")}</h1>
+              <p style={S.muted}>{errorText}</p>
+              <div style={{ height: 12 }} />
+              <div style={S.btnCol}>
+                <button style={S.primaryBtn} onClick={onGetApp}>
+                  {t("common.downloadApp")}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div style={S.hero}>
+  <h1 style={S.h1}>{t("invite.heroTitle")}</h1>
+</div>
+
+              {errorText ? <p style={{ ...S.muted, marginTop: 10, textAlign: "center" }}>{errorText}</p> : null}
+
+              <div style={S.divider} />
+
+              {(step === "appChoice" || step === "needAuth") && sessionUserId && isProfileComplete(savedProfile) ? (
+                <div style={S.resumeBox}>
+                  <button
+                    style={{ ...S.primaryBtn, opacity: busy ? 0.7 : 1 }}
+                    disabled={busy}
+                    onClick={onResumeSession}
+                  >
+                    {t("invite.auth.continueAs", { name: shortDisplayName(savedProfile) })}
+                  </button>
+                  <button type="button" style={S.linkBtnCentered} disabled={busy} onClick={onSignOut}>
+                    {t("invite.auth.notYou")}
+                  </button>
+                </div>
+              ) : null}
+              {step === "appChoice" ? (
+                <>
+                  <div style={S.ctaBoxStrong}>
+                    <div style={S.ctaTitleStrong}>{t("invite.app.title")}</div>
+                    <ul style={S.ctaList}>
+                      {messages.invite.app.perks.map((perk) => (
+                        <li key={perk}>{perk}</li>
+                      ))}
+                    </ul>
+
+                    <div style={{ height: 12 }} />
+
+                    <div style={S.btnCol}>
+                      <button style={S.primaryBtn} onClick={onGetApp}>
+                        {t("invite.app.cta")}
+                      </button>
+                      <button style={S.secondaryBtn} onClick={() => dispatch({ type: "CONTINUE_ON_WEB" })}>
+                        {t("invite.app.continueOnWeb")}
+                      </button>
+                    </div>
+                  </div>
+                </>
+              ) : null}
+              {step === "needAuth" ? (
+                <>
+                  <div style={S.sectionTitleCenter}>{t("invite.auth.title")}</div>
+                  <div style={{ ...S.muted, textAlign: "center" }}>{t("invite.auth.intro")}</div>
+
+                  <div style={{ height: 12 }} />
+                  <input style={S.input} placeholder={t("invite.auth.firstName")} value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+                  <div style={{ height: 10 }} />
+                  <input style={S.input} placeholder={t("invite.auth.lastName")} value={lastName} onChange={(e) => setLastName(e.target.value)} />
+                  <div style={{ height: 10 }} />
+                  <PhoneField
+                    country={phoneCountry}
+                    value={phone}
+                    onCountryChange={setPhoneCountry}
+                    onChange={setPhone}
+                    inputStyle={S.input}
+                  />
+                  <div style={{ height: 10 }} />
+                  <input style={S.input} placeholder={t("invite.auth.email")} value={email} onChange={(e) => setEmail(e.target.value)} inputMode="email" />
+
+                  <div style={{ height: 12 }} />
+
+                  <div style={S.genderCol}>
+                    <div style={S.genderRow}>
+                      <button type="button" style={sex === "male" ? S.genderBtnActive : S.genderBtn} onClick={() => setSex("male")}>
+                        {t("invite.auth.male")}
+                      </button>
+                      <button type="button" style={sex === "female" ? S.genderBtnActive : S.genderBtn} onClick={() => setSex("female")}>
+                        {t("invite.auth.female")}
+                      </button>
+                    </div>
+                    <button type="button" style={sex === null ? S.genderBtnActive : S.genderBtn} onClick={() => setSex(null)}>
+                      {t("invite.auth.other")}
+                    </button>
+                  </div>
+
+                  <div style={{ height: 12 }} />
+
+                  <div style={{ ...S.muted, textAlign: "center" }}>{t("invite.auth.channelLabel")}</div>
+                  <div style={{ height: 8 }} />
+                  <div style={S.genderRow}>
+                    <button
+                      type="button"
+                      style={otpChannel === "email" ? S.genderBtnActive : S.genderBtn}
+                      onClick={() => setOtpChannel("email")}
+                    >
+                      {t("invite.auth.channelEmail")}
+                    </button>
+                    <button
+                      type="button"
+                      style={otpChannel === "sms" ? S.genderBtnActive : S.genderBtn}
+                      onClick={() => setOtpChannel("sms")}
+                    >
+                      {t("invite.auth.channelSms")}
+                    </button>
+                  </div>
+
+                  <div style={{ height: 12 }} />
+
+                  <div style={S.btnCol}>
+                    <button style={{ ...S.primaryBtn, opacity: busy ? 0.7 : 1 }} disabled={busy} onClick={onSendCode}>
+                      {busy
+                        ? t("common.sending")
+                        : otpCooldownSec > 0
+                          ? t("invite.auth.retryIn", { seconds: otpCooldownSec })
+                          : t("invite.auth.sendCode")}
+                    </button>
+                    <button style={S.secondaryBtn} onClick={onGetApp}>
+                      {t("common.downloadApp")}
+                    </button>
+                  </div>
+                </>
+              ) : null}
+
+              {step === "verifyCode" ? (
+                <>
+                  <div style={S.sectionTitleCenter}>{t("invite.verify.title")}</div>
+                  <div style={{ ...S.muted, textAlign: "center" }}>
+                    {codeSentTo?.channel === "sms" ? t("invite.verify.sentToPhone") : t("invite.verify.sentTo")}{" "}
+                    <b>{codeSentTo?.destination}</b>.
+                  </div>
+
+                  <div style={{ height: 8 }} />
+
+                  <div style={{ display: "grid", justifyItems: "center" }}>
+                    <button
+                      type="button"
+                      style={S.linkBtnCentered}
+                      disabled={busy}
+                      onClick={() => {
+                        dispatch({ type: "CHANGE_CONTACT" });
+                        setOtp("");
+                      }}
+                    >
+                      {codeSentTo?.channel === "sms" ? t("invite.verify.changePhone") : t("invite.verify.changeEmail")}
+                    </button>
+                  </div>
+
+                  <div style={{ height: 12 }} />
+                  <input
+                    style={S.input}
+                    placeholder={t("invite.verify.codePlaceholder")}
+                    value={otp}
+                    onChange={(e) => setOtp(sanitizeOtp(e.target.value, sentOtpProvider.codeLength))}
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={sentOtpProvider.codeLength}
+                  />
+
+                  <div style={{ height: 8 }} />
+              
+
+                  <div style={{ height: 12 }} />
+
+                  <div style={S.btnCol}>
+                    <button style={{ ...S.primaryBtn, opacity: busy ? 0.7 : 1 }} disabled={busy} onClick={onVerifyCode}>
+                      {busy ? t("invite.verify.verifying") : t("invite.verify.submit")}
+                    </button>
+                    <button style={S.linkBtn} disabled={busy || otpCooldownSec > 0} onClick={onSendCode}>
+                      {otpCooldownSec > 0
+                        ? t("invite.verify.resendIn", { seconds: otpCooldownSec })
+                        : t("invite.verify.resend")}
+                    </button>
+                  </div>
+                </>
+              ) : null}
+
+              {step === "ready" ? (
+                <>
+                  <div style={S.partyBox}>
+  <div style={S.partyTitle}>{title}</div>
+  <div style={S.partyMeta}>
+    {day ? (
+      <div>
+        🗓️ {day}
+        {relativeDay ? ` · ${relativeDay}` : ""}
+      </div>
+    ) : (
+      <div>🗓️ {t("invite.details.dateUnavailable")}</div>
+    )}
+    <div>🍾 {partyTypeLabel}</div>
+    <div style={S.partyHint}>{t("invite.details.locationHint")}</div>
+  </div>
+</div>
+
+                  <div style={S.divider} />
+
+                  <div style={S.ctaBoxStrong}>
+  <div style={S.ctaTitleStrong}>{t("invite.app.title")}</div>
+  <ul style={S.ctaList}>
+    {messages.invite.app.perks.map((perk) => (
+      <li key={perk}>{perk}</li>
+    ))}
+  </ul>
+
+  <div style={{ height: 12 }} />
+
+  <div style={S.btnCol}>
+    <button style={S.primaryBtn} onClick={onGetApp}>
+      {t("invite.app.cta")}
+    </button>
+  </div>
+
+  <div style={S.ctaSmall}>{t("invite.app.skipHint")}</div>
+</div>
+
+                  <div style={S.divider} />
+
+                  <div style={S.sectionTitleCenter}>{t("invite.rsvp.title")}</div>
+<div style={{ ...S.muted, textAlign: "center" }}>
+  {requiresPreferencesBeforeJoin ? t("invite.rsvp.withPreferences") : t("invite.rsvp.intro")}
+</div>
+{rsvpDeadline ? (
+  <div style={{ ...S.smallMuted, textAlign: "center" }}>
+    {rsvpOpen ? t("invite.rsvp.deadline", { deadline: rsvpDeadline }) : t("invite.rsvp.closedSince", { deadline: rsvpDeadline })}
+  </div>
+) : null}
+{invite && isPartyFull(invite) ? (
+  <div style={{ ...S.smallMuted, textAlign: "center" }}>{t("invite.rsvp.full")}</div>
+) : invite?.spots_left != null && invite.capacity != null && invite.spots_left <= 10 ? (
+  <div style={{ ...S.smallMuted, textAlign: "center" }}>{t("invite.rsvp.spotsLeft", { count: invite.spots_left })}</div>
+) : null}
+
+
+                  <div style={{ height: 12 }} />
+
+                  {maxCompanions > 0 && rsvpOpen && !pendingChoice && !resultStatus ? (
+                    <CompanionsField
+                      companions={companions}
+                      max={maxCompanions}
+                      products={requiresPreferencesBeforeJoin ? visibleProducts : []}
+                      disabled={busy}
+                      onChange={setCompanions}
+                      inputStyle={S.input}
+                    />
+                  ) : null}
+
+                  {wantsToJoin && requiresPreferencesBeforeJoin ? (
+                    <div style={S.prefsCard}>
+                      <div style={S.prefsTitle}>{t("invite.prefs.title")}</div>
+                      <div style={S.prefsCard}>
+                        {!hasVisibleProducts ? (
+                          <div style={S.smallMuted}>{t("invite.prefs.noProducts")}</div>
+                        ) : null}
+
+                        {productSections.map((section) => (
+                          <React.Fragment key={section.title}>
+                            <div style={S.prefsSectionTitle}>{section.title}</div>
+                            <div style={S.toggleList}>
+                              {section.products.map((product) => {
+                                const checked = prefs[product.id] === true;
+                                return (
+                                  <button
+                                    key={product.id}
+                                    type="button"
+                                    style={checked ? S.toggleRowActive : S.toggleRow}
+                                    onClick={() => setPref(product.id, !checked)}
+                                  >
+                                    <span>
+                                      {product.icon ? `${product.icon} ` : ""}
+                                      {product.label}
+                                    </span>
+                                    <span style={checked ? S.toggleTrackActive : S.toggleTrack}>
+                                      <span style={checked ? S.toggleThumbActive : S.toggleThumb} />
+                                    </span>
+                                  </button>
+                                );
+                              })}
+                            </div>
+                          </React.Fragment>
+                        ))}
+
+                        <div style={S.prefsSectionTitle}>{t("invite.prefs.howMuch")}</div>
+                        <div style={S.levelRow}>
+                          {[0, 1, 2].map((n) => {
+                            const active = intoxLevel === n;
+                            const label =
+                              n === 0
+                                ? t("invite.prefs.levels.none")
+                                : n === 1
+                                  ? t("invite.prefs.levels.moderate")
+                                  : t("invite.prefs.levels.heavy");
+                            return (
+                              <button
+                                key={n}
+                                type="button"
+                                style={active ? S.levelBtnActive : S.levelBtn}
+                                onClick={() => {
+                                  dispatch({ type: "PREFS_TOUCHED" });
+
+                                  if (n === 0) {
+                                    setPrefs((prev) => clearAlcoholSelections(prev, catalog));
+                                    setIntoxLevel(0);
+                                    return;
+                                  }
+
+                                  if (!hasAlcoholSelection(prefs, catalog)) {
+                                    return;
+                                  }
+
+                                  setIntoxLevel(n);
+                                }}
+                              >
+                                {label}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      {!prefsTouched ? (
+                        <div style={S.smallMuted}>{t("invite.prefs.hintStart")}</div>
+                      ) : !hasCompletedDrinkPrefs(prefs, catalog, intoxLevel) ? (
+                        <div style={S.smallMuted}>{t("invite.prefs.hintIncomplete")}</div>
+                      ) : (
+                        <div style={S.smallMuted}>{t("invite.prefs.hintComplete")}</div>
+                      )}
+
+                      <div style={S.row}>
+                        <button
+                          style={{ ...S.primaryBtn, opacity: busy ? 0.7 : 1 }}
+                          disabled={busy}
+                          onClick={onSavePrefsAndRespond}
+                        >
+                          {busy ? t("common.sending") : t("invite.prefs.submit")}
+                        </button>
+
+                        <button
+                          style={S.secondaryBtn}
+                          disabled={busy}
+                          onClick={() => dispatch({ type: "PREFS_CANCELLED" })}
+                        >
+                          {t("invite.prefs.back")}
+                        </button>
+                      </div>
+                    </div>
+                  ) : pendingChoice || resultStatus ? (
+                    <div style={{ ...S.muted, textAlign: "center" }}>
+                      {pendingChoice ? t("invite.rsvp.sending") : t("invite.rsvp.alreadySent")}
+                    </div>
+                  ) : !rsvpOpen ? (
+                    <div style={{ ...S.muted, textAlign: "center" }}>{t("invite.rsvp.closed")}</div>
+                  ) : (
+                    <div style={S.row}>
+                      <button
+                        style={{ ...S.primaryBtn, opacity: busy ? 0.7 : 1 }}
+                        disabled={busy}
+                        onClick={() => onRespond("yes")}
+                      >
+                        {busy ? t("common.sending") : t("invite.rsvp.yes")}
+                      </button>
+
+                      <button
+                        style={{ ...S.secondaryBtn, opacity: busy ? 0.7 : 1 }}
+                        disabled={busy}
+                        onClick={() => onRespond("no")}
+                      >
+                        {busy ? t("common.sending") : t("invite.rsvp.no")}
+                      </button>
+
+                      {myStatus?.rsvp ? (
+                        <button
+                          type="button"
+                          style={S.linkBtnCentered}
+                          disabled={busy}
+                          onClick={() => myStatus.rsvp && dispatch({ type: "EDIT_CANCELLED", choice: myStatus.rsvp })}
+                        >
+                          {t("invite.rsvp.keepAnswer")}
+                        </button>
+                      ) : null}
+                    </div>
+                  )}
+
+                </>
+              ) : null}
+
+{step === "done" && resultStatus === "no" ? (
+  <div style={S.confirm}>
+    <div style={S.confirmTitle}>{t("invite.done.declinedTitle")}</div>
+
+    <div style={{ ...S.muted, textAlign: "center" }}>{t("invite.done.declinedText")}</div>
+
+    {rsvpManage}
+  </div>
+) : step === "done" ? (
+  <div style={S.confirm}>
+    <div style={S.confirmTitle}>
+      {myStatus?.approval === "approved"
+        ? t("invite.done.approvedTitle")
+        : myStatus?.approval === "rejected"
+          ? t("invite.done.rejectedTitle")
+          : myStatus?.approval === "waitlisted"
+            ? t("invite.done.waitlistedTitle")
+            : t("invite.done.requestedTitle")}
+    </div>
+
+    <div style={{ ...S.muted, textAlign: "center" }}>
+      {myStatus?.approval === "approved"
+        ? t("invite.done.approvedText")
+        : myStatus?.approval === "rejected"
+          ? t("invite.done.rejectedText")
+          : myStatus?.approval === "waitlisted"
+            ? myStatus.waitlist_position
+              ? t("invite.done.waitlistedPosition", { position: myStatus.waitlist_position })
+              : t("invite.done.waitlistedText")
+            : t("invite.done.requestedText")}
+    </div>
+
+    {myStatus?.approval ? (
+      <div style={S.statusPill}>
+        {t("invite.done.statusLabel")}: <b>{labelFor(messages.pay.approvalStatus, myStatus.approval)}</b>
+      </div>
+    ) : null}
+
+    {myStatus?.approval !== "approved" && myStatus?.approval !== "rejected" ? (
+      <a style={S.calendarLink} href={`/i/${encodeURIComponent(token)}/status`}>
+        {t("invite.done.trackStatus")}
+      </a>
+    ) : null}
+
+    {myStatus?.companions.length ? (
+      <div style={{ ...S.smallMuted, textAlign: "center" }}>
+        {t("invite.companions.summary", {
+          names: myStatus.companions.map((c) => c.name).join(", "),
+          count: myStatus.companions.length + 1,
+        })}
+      </div>
+    ) : null}
+
+    {rsvpManage}
+
+    {calendarEvent && myStatus?.approval !== "rejected" ? (
+      <div style={S.calendarBox}>
+        <div style={S.confirmBoxTitle}>{t("invite.calendar.title")}</div>
+
+        <a style={S.calendarLink} href={`/i/${encodeURIComponent(token)}/calendar.ics`} download>
+          {t("invite.calendar.download")}
+        </a>
+        <a style={S.calendarLink} href={googleCalendarUrl(calendarEvent)} target="_blank" rel="noopener noreferrer">
+          {t("invite.calendar.google")}
+        </a>
+        <a style={S.calendarLink} href={outlookCalendarUrl(calendarEvent)} target="_blank" rel="noopener noreferrer">
+          {t("invite.calendar.outlook")}
+        </a>
+      </div>
+    ) : null}
+
+    <div style={S.divider} />
+
+    <div style={S.confirmBox}>
+      <div style={S.confirmBoxTitle}>{t("invite.done.appTitle")}</div>
+      <div style={{ ...S.muted, textAlign: "center" }}>{t("invite.done.appText")}</div>
+
+      <div style={{ height: 12 }} />
+
+      <button style={S.primaryBtn} onClick={onGetApp}>
+        {t("invite.app.cta")}
+      </button>
+
+      <div style={S.ctaSmall}>{t("invite.done.mailHint")}</div>
+    </div>
+  </div>
+) : null}
+            </>
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        @keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
+      `}</style>
+    </main>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    display: "flex",
+    justifyContent: "center",
+    padding: 20,
+    background: PAGE_BG,
+    color: "rgba(255,255,255,0.92)",
+    fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+  },
+  bg: {
+    position: "fixed",
+    inset: 0,
+    background: PAGE_GRADIENT,
+    pointerEvents: "none",
+  },
+  container: { width: "100%", maxWidth: 520, position: "relative", marginTop: 12 },
+  card: {
+    borderRadius: 22,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.06)",
+    boxShadow: "0 12px 40px rgba(0,0,0,0.35)",
+    padding: 18,
+  },
+  hero: { display: "grid", gap: 8, justifyItems: "center", textAlign: "center" },
+  heroSub: { color: "rgba(255,255,255,0.62)", fontSize: 14, fontWeight: 800 },
+  h1: { margin: 0, fontSize: 28, fontWeight: 950, letterSpacing: -0.3, textAlign: "center" },
+  muted: { color: "rgba(255,255,255,0.62)", fontSize: 14, lineHeight: "18px" },
+  divider: { height: 1, background: "rgba(255,255,255,0.10)", margin: "16px 0" },
+  sectionTitleCenter: { fontWeight: 950, marginBottom: 6, textAlign: "center" },
+  input: {
+    width: "100%",
+    height: 46,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(0,0,0,0.20)",
+    color: "rgba(255,255,255,0.92)",
+    padding: "0 12px",
+    outline: "none",
+    fontWeight: 800,
+  },
+  genderRow: { display: "flex", gap: 10, justifyContent: "center" },
+  genderCol: { display: "grid", gap: 10 },
+  genderBtn: {
+    height: 44,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(0,0,0,0.18)",
+    color: "rgba(255,255,255,0.82)",
+    fontWeight: 950,
+    cursor: "pointer",
+    flex: 1,
+  },
+  genderBtnActive: {
+    height: 44,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.22)",
+    background: "rgba(255,255,255,0.92)",
+    color: "#111",
+    fontWeight: 950,
+    cursor: "pointer",
+    flex: 1,
+  },
+  btnCol: {
+    display: "grid",
+    justifyItems: "center",
+    gap: 10,
+    marginTop: 6,
+  },
+  row: {
+    display: "grid",
+    gap: 10,
+    marginTop: 10,
+    justifyItems: "center",
+  },
+  primaryBtn: {
+    height: 46,
+    borderRadius: 14,
+    border: 0,
+    padding: "0 14px",
+    fontWeight: 950,
+    cursor: "pointer",
+    background: "rgba(255,255,255,0.92)",
+    color: "#111",
+    width: "100%",
+    maxWidth: 320,
+  },
+  secondaryBtn: {
+    height: 46,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.18)",
+    padding: "0 14px",
+    fontWeight: 950,
+    cursor: "pointer",
+    background: "transparent",
+    color: "rgba(255,255,255,0.92)",
+    width: "100%",
+    maxWidth: 320,
+  },
+  linkBtn: {
+    width: "100%",
+    maxWidth: 320,
+    height: 40,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.12)",
+    background: "rgba(255,255,255,0.04)",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 900,
+    cursor: "pointer",
+  },
+  manageBox: {
+    display: "grid",
+    gap: 8,
+    marginTop: 12,
+    justifyItems: "center",
+    width: "100%",
+  },
+  statusPill: {
+    justifySelf: "center",
+    marginTop: 10,
+    padding: "6px 12px",
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(255,255,255,0.06)",
+    fontSize: 13,
+  },
+  resumeBox: {
+    display: "grid",
+    gap: 8,
+    justifyItems: "center",
+    marginBottom: 14,
+  },
+  calendarBox: {
+    display: "grid",
+    gap: 8,
+    marginTop: 14,
+    justifyItems: "center",
+  },
+  calendarLink: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: "100%",
+    maxWidth: 320,
+    height: 40,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.12)",
+    background: "rgba(255,255,255,0.04)",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 900,
+    textDecoration: "none",
+  },
+  linkBtnCentered: {
+    width: "100%",
+    maxWidth: 220,
+    height: 40,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.12)",
+    background: "rgba(255,255,255,0.04)",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 900,
+    cursor: "pointer",
+  },
+  partyBox: {
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.05)",
+    padding: 14,
+    textAlign: "center",
+  },
+  partyTitle: { fontSize: 22, fontWeight: 950 },
+  partyMeta: {
+    marginTop: 10,
+    display: "grid",
+    gap: 6,
+    color: "rgba(255,255,255,0.70)",
+    fontSize: 13,
+  },
+  partyHint: {
+    marginTop: 6,
+    color: "rgba(255,255,255,0.55)",
+    fontSize: 12,
+    lineHeight: "16px",
+  },
+  ctaBoxStrong: {
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "linear-gradient(180deg, rgba(255,255,255,0.08), rgba(255,255,255,0.04))",
+    padding: 16,
+    textAlign: "center",
+  },
+  ctaTitleStrong: { fontWeight: 950, fontSize: 18, marginBottom: 8, letterSpacing: -0.2 },
+  ctaTextStrong: { color: "rgba(255,255,255,0.70)", fontSize: 14, lineHeight: "18px" },
+  ctaList: {
+    marginTop: 0,
+    marginBottom: 0,
+    paddingLeft: 18,
+    display: "grid",
+    gap: 8,
+    textAlign: "left",
+    color: "rgba(255,255,255,0.70)",
+    fontSize: 14,
+    lineHeight: "18px",
+  },
+  ctaSmall: { marginTop: 10, textAlign: "center", color: "rgba(255,255,255,0.55)", fontSize: 12 },
+  confirm: {
+    marginTop: 12,
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.05)",
+    padding: 14,
+    display: "grid",
+    justifyItems: "center",
+    gap: 8,
+    textAlign: "center",
+  },
+  confirmTitle: { fontWeight: 950, fontSize: 16 },
+  center: { display: "grid", justifyItems: "center", gap: 10, padding: "18px 0" },
+  spinner: {
+    width: 18,
+    height: 18,
+    borderRadius: 99,
+    border: "2px solid rgba(255,255,255,0.18)",
+    borderTopColor: "rgba(255,255,255,0.85)",
+    animation: "spin 0.9s linear infinite",
+  },
+  prefsCard: {
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.05)",
+    padding: 14,
+    display: "grid",
+    gap: 12,
+  },
+  prefsSectionTitle: { fontWeight: 900, fontSize: 13, color: "rgba(255,255,255,0.82)" },
+  levelRow: {
+    display: "grid",
+    gridTemplateColumns: "repeat(3, minmax(0, 1fr))",
+    gap: 8,
+    alignItems: "stretch",
+  },
+  levelBtn: {
+    minHeight: 56,
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.14)",
+    background: "rgba(0,0,0,0.18)",
+    color: "rgba(255,255,255,0.85)",
+    fontWeight: 900,
+    fontSize: 13,
+    lineHeight: "16px",
+    padding: "10px 8px",
+    textAlign: "center",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    whiteSpace: "normal",
+    wordBreak: "break-word",
+  },
+  levelBtnActive: {
+    minHeight: 56,
+    borderRadius: 12,
+    border: "1px solid rgba(255,255,255,0.22)",
+    background: "rgba(255,255,255,0.92)",
+    color: "#111",
+    fontWeight: 900,
+    fontSize: 13,
+    lineHeight: "16px",
+    padding: "10px 8px",
+    textAlign: "center",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    whiteSpace: "normal",
+    wordBreak: "break-word",
+  },
+  smallMuted: {
+    color: "rgba(255,255,255,0.55)",
+    fontSize: 12,
+    lineHeight: "16px",
+    textAlign: "center",
+  },
+
+  darkBtn: {
+    height: 46,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.18)",
+    padding: "0 14px",
+    fontWeight: 950,
+    cursor: "pointer",
+    background: "rgba(0,0,0,0.30)",
+    color: "rgba(255,255,255,0.92)",
+    width: "100%",
+    maxWidth: 320,
+  },
+  textBtn: {
+    border: 0,
+    background: "transparent",
+    color: "rgba(255,255,255,0.62)",
+    fontWeight: 900,
+    cursor: "pointer",
+    padding: 0,
+    width: "100%",
+    maxWidth: 320,
+  },
+  pillGrid: {
+    display: "grid",
+    gridTemplateColumns: "repeat(2, minmax(0, 1fr))",
+    gap: 10,
+  },
+  toggleList: {
+    display: "grid",
+    gap: 10,
+  },
+  toggleRow: {
+    minHeight: 52,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(0,0,0,0.16)",
+    padding: "0 14px",
+    fontWeight: 800,
+    color: "rgba(255,255,255,0.88)",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    width: "100%",
+    textAlign: "left",
+  },
+  toggleRowActive: {
+    minHeight: 52,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.22)",
+    background: "rgba(255,255,255,0.10)",
+    padding: "0 14px",
+    fontWeight: 900,
+    color: "rgba(255,255,255,0.96)",
+    cursor: "pointer",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    width: "100%",
+    textAlign: "left",
+  },
+  toggleTrack: {
+    width: 46,
+    height: 28,
+    borderRadius: 999,
+    background: "rgba(255,255,255,0.16)",
+    border: "1px solid rgba(255,255,255,0.10)",
+    display: "flex",
+    alignItems: "center",
+    padding: 3,
+    boxSizing: "border-box",
+    justifyContent: "flex-start",
+    flexShrink: 0,
+  },
+  toggleTrackActive: {
+    width: 46,
+    height: 28,
+    borderRadius: 999,
+    background: "rgba(255,255,255,0.92)",
+    border: "1px solid rgba(255,255,255,0.22)",
+    display: "flex",
+    alignItems: "center",
+    padding: 3,
+    boxSizing: "border-box",
+    justifyContent: "flex-end",
+    flexShrink: 0,
+  },
+  toggleThumb: {
+    width: 20,
+    height: 20,
+    borderRadius: 999,
+    background: "rgba(255,255,255,0.92)",
+    display: "block",
+  },
+  toggleThumbActive: {
+    width: 20,
+    height: 20,
+    borderRadius: 999,
+    background: "#111",
+    display: "block",
+  },
+  pillBtn: {
+    minHeight: 44,
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(0,0,0,0.16)",
+    padding: "0 14px",
+    fontWeight: 800,
+    color: "rgba(255,255,255,0.88)",
+    cursor: "pointer",
+  },
+  pillBtnActive: {
+    minHeight: 44,
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.22)",
+    background: "rgba(255,255,255,0.92)",
+    padding: "0 14px",
+    fontWeight: 900,
+    color: "#111",
+    cursor: "pointer",
+  },
+  pillBtnDisabled: {
+    minHeight: 44,
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.08)",
+    background: "rgba(255,255,255,0.04)",
+    padding: "0 14px",
+    fontWeight: 800,
+    color: "rgba(255,255,255,0.35)",
+    cursor: "not-allowed",
+  },
+  confirmBox: {
+    width: "100%",
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.05)",
+    padding: 14,
+    display: "grid",
+    justifyItems: "center",
+    gap: 8,
+    textAlign: "center",
+  },
+  confirmBoxTitle: { fontWeight: 950, fontSize: 16 },
+};
\ No newline at end of file
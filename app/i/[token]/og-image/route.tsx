@@ -0,0 +1,95 @@
+// app/i/[token]/og-image/route.tsx
+// Card social dell'invito (1200x630) usata come og:image / twitter:image.
+
+import { ImageResponse } from "next/og";
+import { INVITE_CARD_SIZE, getInvitePreview, inviteCardVersion } from "@/lib/invite-public";
+import { partyTypeLabel } from "@/lib/party";
+import { formatPartyDay } from "@/lib/dates";
+import { getI18n } from "@/lib/i18n/server";
+import { PAGE_BG, PAGE_GRADIENT } from "@/lib/theme";
+
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const url = new URL(req.url);
+  const preview = await getInvitePreview(token);
+  const { locale, t } = await getI18n(url.searchParams.get("lang"));
+
+  const title = preview?.party_title ?? t("invite.heroTitle");
+  const day = preview ? formatPartyDay(preview.party_date, { locale, timeZone: preview.party_timezone }) : null;
+  const badge = preview ? partyTypeLabel(preview.party_mode, preview.party_type, locale) : null;
+
+  // L'URL della card contiene la versione corrente (e la lingua): se combacia la risposta è immutabile,
+  // altrimenti (versione vecchia o assente) la cache resta breve.
+  const requestedVersion = url.searchParams.get("v");
+  const isCurrent =
+    !!preview && requestedVersion === inviteCardVersion(preview) && url.searchParams.get("lang") === locale;
+  const cacheControl = isCurrent
+    ? "public, max-age=31536000, immutable"
+    : "public, max-age=300, s-maxage=300";
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 72,
+          backgroundColor: PAGE_BG,
+          backgroundImage: PAGE_GRADIENT,
+          color: "rgba(255,255,255,0.92)",
+        }}
+      >
+        <div style={{ display: "flex", fontSize: 34, color: "rgba(255,255,255,0.62)", letterSpacing: -0.3 }}>
+          {t("invite.meta.cardKicker")}
+        </div>
+
+        <div style={{ display: "flex", flexDirection: "column", gap: 28 }}>
+          <div
+            style={{
+              display: "flex",
+              fontSize: title.length > 40 ? 64 : 84,
+              lineHeight: 1.05,
+              letterSpacing: -1.5,
+              maxWidth: 1056,
+            }}
+          >
+            {title}
+          </div>
+
+          {day || badge ? (
+            <div style={{ display: "flex", alignItems: "center", gap: 20 }}>
+              {day ? (
+                <div style={{ display: "flex", fontSize: 36, color: "rgba(255,255,255,0.72)" }}>{day}</div>
+              ) : null}
+              {badge ? (
+                <div
+                  style={{
+                    display: "flex",
+                    fontSize: 30,
+                    padding: "10px 24px",
+                    borderRadius: 999,
+                    background: "rgba(255,255,255,0.92)",
+                    color: "#111",
+                  }}
+                >
+                  {badge}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </div>
+
+        <div style={{ display: "flex", fontSize: 26, color: "rgba(255,255,255,0.55)" }}>
+          {t("invite.meta.cardFooter")}
+        </div>
+      </div>
+    ),
+    {
+      ...INVITE_CARD_SIZE,
+      headers: { "Cache-Control": cacheControl },
+    }
+  );
+}
@@ -0,0 +1,64 @@
+// app/i/[token]/phone-field.tsx
+"use client";
+
+import React, { useMemo } from "react";
+import { useI18n } from "@/lib/i18n/client";
+import { PHONE_METADATA } from "@/lib/phone-metadata";
+import { DEFAULT_PHONE_COUNTRY, countryFlag, phoneCountry } from "@/lib/phone";
+
+// Telefono con selettore del paese. Il numero si può scrivere anche con +/00: in quel caso vince il prefisso scritto.
+export default function PhoneField({
+  country,
+  value,
+  onCountryChange,
+  onChange,
+  inputStyle,
+}: {
+  country: string;
+  value: string;
+  onCountryChange: (iso: string) => void;
+  onChange: (value: string) => void;
+  inputStyle?: React.CSSProperties;
+}) {
+  const { intlLocale, t } = useI18n();
+  const selected = phoneCountry(country);
+
+  const options = useMemo(() => {
+    const names = new Intl.DisplayNames([intlLocale], { type: "region" });
+    const all = PHONE_METADATA.map((c) => ({ iso: c.iso, dial: c.dial, name: names.of(c.iso) ?? c.iso }));
+    const first = all.filter((c) => c.iso === DEFAULT_PHONE_COUNTRY);
+    const rest = all.filter((c) => c.iso !== DEFAULT_PHONE_COUNTRY).sort((a, b) => a.name.localeCompare(b.name, intlLocale));
+    return [...first, ...rest];
+  }, [intlLocale]);
+
+  return (
+    <div style={S.row}>
+      <select
+        style={{ ...inputStyle, ...S.select }}
+        value={selected.iso}
+        onChange={(e) => onCountryChange(e.target.value)}
+        aria-label={t("invite.auth.phoneCountry")}
+      >
+        {options.map((c) => (
+          <option key={c.iso} value={c.iso}>
+            {countryFlag(c.iso)} {c.name} +{c.dial}
+          </option>
+        ))}
+      </select>
+      <input
+        style={{ ...inputStyle, ...S.input }}
+        placeholder={`${t("invite.auth.phone")} · ${selected.example}`}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        inputMode="tel"
+        autoComplete="tel-national"
+      />
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  row: { display: "flex", gap: 8 },
+  select: { width: 112, flexShrink: 0, padding: "0 8px", appearance: "none" },
+  input: { flex: 1, minWidth: 0 },
+};
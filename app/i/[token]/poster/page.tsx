@@ -0,0 +1,188 @@
+// app/i/[token]/poster/page.tsx
+// Poster stampabile (A4 o A5 con ?format=a5) con QR, titolo e data della festa.
+
+import type { Metadata } from "next";
+import React from "react";
+import PrintButton from "@/app/components/print-button";
+import { getInvitePreview } from "@/lib/invite-public";
+import { partyTypeLabel } from "@/lib/party";
+import { formatPartyDay } from "@/lib/dates";
+import { encodeQr, qrToSvg } from "@/lib/qr";
+import { inviteUrl } from "@/lib/site";
+import { getI18n } from "@/lib/i18n/server";
+
+type Props = {
+  params: Promise<{ token: string }>;
+  searchParams: Promise<{ format?: string | string[] }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getI18n();
+  return {
+    title: t("poster.metaTitle"),
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function InvitePosterPage({ params, searchParams }: Props) {
+  const { token } = await params;
+  const { format } = await searchParams;
+  const paper = format === "a5" ? "A5" : "A4";
+
+  const preview = await getInvitePreview(token);
+  const { locale, t } = await getI18n();
+
+  if (!preview) {
+    return (
+      <main style={S.page}>
+        <div style={S.sheet}>
+          <h1 style={S.title}>{t("poster.unavailableTitle")}</h1>
+          <p style={S.muted}>{t("poster.unavailableText")}</p>
+        </div>
+      </main>
+    );
+  }
+
+  const url = inviteUrl(token);
+  const qrSvg = qrToSvg(encodeQr(url, "Q"), { dark: "#0E0F12" });
+  const day = formatPartyDay(preview.party_date, { locale, timeZone: preview.party_timezone });
+  const typeLabel = partyTypeLabel(preview.party_mode, preview.party_type, locale);
+  const compact = paper === "A5";
+
+  return (
+    <main style={S.page}>
+      <div className="no-print" style={S.toolbar}>
+        <a href="?format=a4" style={paper === "A4" ? S.toolbarLinkActive : S.toolbarLink}>
+          A4
+        </a>
+        <a href="?format=a5" style={paper === "A5" ? S.toolbarLinkActive : S.toolbarLink}>
+          A5
+        </a>
+        <PrintButton label={t("poster.print")} style={S.printBtn} />
+      </div>
+
+      <div style={{ ...S.sheet, gap: compact ? 14 : 22 }}>
+        <div style={S.kicker}>{t("invite.heroTitle")}</div>
+        <h1 style={{ ...S.title, fontSize: compact ? 34 : 52 }}>{preview.party_title ?? t("party.fallbackTitle")}</h1>
+        <div style={{ ...S.meta, fontSize: compact ? 16 : 22 }}>
+          {day ? <span>🗓️ {day}</span> : null}
+          <span>🍾 {typeLabel}</span>
+        </div>
+
+        <div
+          className="qr-box"
+          style={{ ...S.qr, width: compact ? "60%" : "64%" }}
+          dangerouslySetInnerHTML={{ __html: qrSvg }}
+        />
+
+        <div style={{ ...S.muted, fontSize: compact ? 13 : 16 }}>{t("poster.scanHint")}</div>
+        <div style={S.url}>{url}</div>
+        <div style={S.brand}>echo</div>
+      </div>
+
+      <style>{`
+        @page { size: ${paper}; margin: 12mm; }
+        .qr-box svg { display: block; width: 100%; height: auto; }
+        @media print {
+          .no-print { display: none !important; }
+          body { background: #FFFFFF !important; }
+        }
+      `}</style>
+    </main>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    background: "#F6F8FF",
+    padding: "24px 16px",
+    fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+    color: "#0E0F12",
+  },
+  toolbar: {
+    display: "flex",
+    gap: 10,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 18,
+  },
+  toolbarLink: {
+    padding: "8px 14px",
+    borderRadius: 12,
+    border: "1px solid rgba(14,15,18,0.14)",
+    color: "#0E0F12",
+    textDecoration: "none",
+    fontWeight: 800,
+  },
+  toolbarLinkActive: {
+    padding: "8px 14px",
+    borderRadius: 12,
+    border: "1px solid #0E0F12",
+    background: "#0E0F12",
+    color: "#FFFFFF",
+    textDecoration: "none",
+    fontWeight: 800,
+  },
+  printBtn: {
+    height: 38,
+    padding: "0 16px",
+    borderRadius: 12,
+    border: "none",
+    background: "#2A7FFF",
+    color: "#FFFFFF",
+    fontWeight: 900,
+    cursor: "pointer",
+  },
+  sheet: {
+    maxWidth: 720,
+    margin: "0 auto",
+    background: "#FFFFFF",
+    borderRadius: 18,
+    border: "1px solid rgba(14,15,18,0.08)",
+    padding: "36px 28px",
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "center",
+    textAlign: "center",
+  },
+  kicker: {
+    fontSize: 14,
+    fontWeight: 900,
+    letterSpacing: 2,
+    textTransform: "uppercase",
+    color: "rgba(14,15,18,0.55)",
+  },
+  title: {
+    margin: 0,
+    fontWeight: 950,
+    letterSpacing: -0.8,
+    lineHeight: 1.05,
+  },
+  meta: {
+    display: "flex",
+    gap: 18,
+    flexWrap: "wrap",
+    justifyContent: "center",
+    fontWeight: 800,
+    color: "rgba(14,15,18,0.72)",
+  },
+  qr: {
+    maxWidth: 420,
+  },
+  muted: {
+    color: "rgba(14,15,18,0.62)",
+    fontWeight: 700,
+    margin: 0,
+  },
+  url: {
+    fontSize: 12,
+    color: "rgba(14,15,18,0.45)",
+    wordBreak: "break-all",
+  },
+  brand: {
+    fontSize: 20,
+    fontWeight: 950,
+    letterSpacing: -0.4,
+  },
+};
@@ -0,0 +1,41 @@
+// app/i/[token]/qr/route.ts
+// QR code del link invito: SVG di default, PNG con ?format=png (opzionale ?scale=2..20, ?download=1).
+
+import { getI18n } from "@/lib/i18n/server";
+import { getInvitePreview } from "@/lib/invite-public";
+import { encodeQr, qrToSvg } from "@/lib/qr";
+import { qrToPng } from "@/lib/qr-png";
+import { inviteUrl } from "@/lib/site";
+
+export async function GET(req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const [preview, { t }] = await Promise.all([getInvitePreview(token), getI18n()]);
+
+  if (!preview) {
+    return new Response(t("invite.errors.notFound"), { status: 404 });
+  }
+
+  const search = new URL(req.url).searchParams;
+  const format = search.get("format") === "png" ? "png" : "svg";
+  const scaleParam = Number(search.get("scale"));
+  const scale = Number.isFinite(scaleParam) && scaleParam > 0 ? Math.min(20, Math.max(2, Math.floor(scaleParam))) : 10;
+
+  const qr = encodeQr(inviteUrl(token), "M");
+
+  const headers: Record<string, string> = {
+    "Cache-Control": "public, max-age=86400",
+  };
+  if (search.get("download") === "1") {
+    headers["Content-Disposition"] = `attachment; filename="echo-invito-qr.${format}"`;
+  }
+
+  if (format === "png") {
+    return new Response(new Uint8Array(qrToPng(qr, { scale })), {
+      headers: { ...headers, "Content-Type": "image/png" },
+    });
+  }
+
+  return new Response(qrToSvg(qr), {
+    headers: { ...headers, "Content-Type": "image/svg+xml; charset=utf-8" },
+  });
+}
@@ -0,0 +1,23 @@
+// app/i/[token]/status/page.tsx
+// Stato della richiesta per gli ospiti che usano solo il web: in attesa / approvato / rifiutato, aggiornato live.
+
+import type { Metadata } from "next";
+import StatusView from "./status-view";
+import { getI18n } from "@/lib/i18n/server";
+
+type Props = {
+  params: Promise<{ token: string }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getI18n();
+  return {
+    title: t("status.metaTitle"),
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function InviteStatusPage({ params }: Props) {
+  const { token } = await params;
+  return <StatusView token={token} />;
+}
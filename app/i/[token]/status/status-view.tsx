@@ -0,0 +1,270 @@
+// app/i/[token]/status/status-view.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabase";
+import { createLogger } from "@/lib/log";
+import { useI18n } from "@/lib/i18n/client";
+import { formatPartyDay } from "@/lib/dates";
+import { PAGE_BG, PAGE_GRADIENT } from "@/lib/theme";
+import { parseInvitePayload, type InvitePublic } from "@/lib/invite-contract";
+import { PARTY_GUESTS_TABLE, loadMyInviteStatus, type MyInviteStatus } from "@/lib/rsvp-status";
+import { subscribeWithFallback, type LiveMode } from "@/lib/realtime";
+
+const log = createLogger("invite-status");
+
+type Phase = "loading" | "signedOut" | "error" | "ready";
+
+export default function StatusView({ token }: { token: string }) {
+  const { locale, t } = useI18n();
+
+  const [phase, setPhase] = useState<Phase>("loading");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [invite, setInvite] = useState<InvitePublic | null>(null);
+  const [status, setStatus] = useState<MyInviteStatus | null>(null);
+  const [liveMode, setLiveMode] = useState<LiveMode>("connecting");
+
+  const refresh = useCallback(async () => {
+    try {
+      setStatus(await loadMyInviteStatus(supabase, token));
+    } catch (e) {
+      log.error("refresh status error", e);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { data: sess } = await supabase.auth.getSession();
+        const uid = sess.session?.user?.id ?? null;
+        if (cancelled) return;
+        if (!uid) {
+          setPhase("signedOut");
+          return;
+        }
+
+        const { data, error } = await supabase.rpc("get_invite_public", { p_token: token });
+        if (error) throw error;
+        const parsed = parseInvitePayload(Array.isArray(data) ? data[0] : data);
+        const current = await loadMyInviteStatus(supabase, token);
+        if (cancelled) return;
+
+        setUserId(uid);
+        setInvite(parsed.ok ? parsed.invite : null);
+        setStatus(current);
+        setPhase("ready");
+      } catch (e) {
+        log.error("load status error", e);
+        if (!cancelled) setPhase("error");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const partyId = invite?.party_id ?? null;
+
+  useEffect(() => {
+    if (phase !== "ready" || !userId) return;
+
+    return subscribeWithFallback({
+      client: supabase,
+      channel: `invite-status-${partyId ?? token}-${userId}`,
+      table: PARTY_GUESTS_TABLE,
+      filter: `user_id=eq.${userId}`,
+      // il filtro è per utente: le risposte dello stesso ospite ad altre feste non devono ricaricare questa
+      accept: (row) => !partyId || row.party_id == null || row.party_id === partyId,
+      onChange: () => void refresh(),
+      onModeChange: setLiveMode,
+    });
+  }, [phase, userId, partyId, token, refresh]);
+
+  const inviteHref = `/i/${encodeURIComponent(token)}`;
+  const day = formatPartyDay(invite?.party_date, { locale, timeZone: invite?.party_timezone });
+
+  let title = t("status.pendingTitle");
+  let text = t("status.pendingText");
+  let tone: React.CSSProperties = S.badgePending;
+  if (!status?.rsvp) {
+    title = t("status.noAnswerTitle");
+    text = t("status.noAnswerText");
+  } else if (status.rsvp === "no") {
+    title = t("status.declinedTitle");
+    text = t("status.declinedText");
+    tone = S.badgeMuted;
+  } else if (status.approval === "approved") {
+    title = t("status.approvedTitle");
+    text = t("status.approvedText");
+    tone = S.badgeApproved;
+  } else if (status.approval === "rejected") {
+    title = t("status.rejectedTitle");
+    text = t("status.rejectedText");
+    tone = S.badgeRejected;
+  } else if (status.approval === "waitlisted") {
+    title = t("status.waitlistedTitle");
+    text = status.waitlist_position
+      ? t("status.waitlistedPosition", { position: status.waitlist_position })
+      : t("status.waitlistedText");
+  }
+
+  return (
+    <main style={S.page}>
+      <div style={S.bg} />
+      <div style={S.container}>
+        <div style={S.card}>
+          {phase === "loading" ? (
+            <div style={S.center}>
+              <div style={S.spinner} />
+              <div style={S.muted}>{t("common.loading")}</div>
+            </div>
+          ) : phase === "signedOut" ? (
+            <div style={S.center}>
+              <div style={S.title}>{t("status.signedOutTitle")}</div>
+              <div style={S.muted}>{t("status.signedOutText")}</div>
+              <a style={S.primaryLink} href={inviteHref}>
+                {t("status.openInvite")}
+              </a>
+            </div>
+          ) : phase === "error" ? (
+            <div style={S.center}>
+              <div style={S.title}>{t("common.oops")}</div>
+              <div style={S.muted}>{t("status.loadFailed")}</div>
+            </div>
+          ) : (
+            <div style={S.center}>
+              {invite?.party_title ? <div style={S.party}>{invite.party_title}</div> : null}
+              {day ? <div style={S.muted}>🗓️ {day}</div> : null}
+
+              <div style={{ ...S.badge, ...tone }}>{title}</div>
+              <div style={{ ...S.muted, textAlign: "center" }}>{text}</div>
+
+              <div style={S.live}>
+                <span style={liveMode === "realtime" ? S.dotLive : S.dot} />
+                {liveMode === "realtime"
+                  ? t("status.live")
+                  : liveMode === "polling"
+                    ? t("status.polling")
+                    : t("status.connecting")}
+              </div>
+
+              <a style={S.secondaryLink} href={inviteHref}>
+                {status?.rsvp ? t("status.manageAnswer") : t("status.openInvite")}
+              </a>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        @keyframes spin { from { transform: rotate(0deg); } to { transform: rotate(360deg); } }
+      `}</style>
+    </main>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    display: "flex",
+    justifyContent: "center",
+    padding: 20,
+    background: PAGE_BG,
+    color: "rgba(255,255,255,0.92)",
+    fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+  },
+  bg: {
+    position: "fixed",
+    inset: 0,
+    background: PAGE_GRADIENT,
+    pointerEvents: "none",
+  },
+  container: {
+    width: "100%",
+    maxWidth: 520,
+    position: "relative",
+    marginTop: 12,
+  },
+  card: {
+    width: "100%",
+    borderRadius: 22,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.06)",
+    boxShadow: "0 12px 40px rgba(0,0,0,0.35)",
+    padding: 18,
+  },
+  center: {
+    display: "grid",
+    justifyItems: "center",
+    gap: 10,
+    padding: "18px 0",
+    textAlign: "center",
+  },
+  title: { fontSize: 22, fontWeight: 950, letterSpacing: -0.3 },
+  party: { fontSize: 24, fontWeight: 950, letterSpacing: -0.3 },
+  muted: {
+    color: "rgba(255,255,255,0.62)",
+    fontSize: 14,
+    lineHeight: "18px",
+  },
+  badge: {
+    marginTop: 8,
+    padding: "10px 18px",
+    borderRadius: 999,
+    fontWeight: 950,
+    fontSize: 18,
+  },
+  badgePending: { background: "rgba(255,196,0,0.16)", border: "1px solid rgba(255,196,0,0.45)" },
+  badgeApproved: { background: "rgba(46,204,113,0.18)", border: "1px solid rgba(46,204,113,0.55)" },
+  badgeRejected: { background: "rgba(255,82,85,0.16)", border: "1px solid rgba(255,82,85,0.5)" },
+  badgeMuted: { background: "rgba(255,255,255,0.06)", border: "1px solid rgba(255,255,255,0.18)" },
+  live: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    fontSize: 12,
+    color: "rgba(255,255,255,0.55)",
+    marginTop: 6,
+  },
+  dot: { width: 8, height: 8, borderRadius: 99, background: "rgba(255,255,255,0.35)" },
+  dotLive: { width: 8, height: 8, borderRadius: 99, background: "rgb(46,204,113)" },
+  primaryLink: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    height: 46,
+    width: "100%",
+    maxWidth: 320,
+    borderRadius: 14,
+    background: "rgba(255,255,255,0.92)",
+    color: "#111",
+    fontWeight: 950,
+    textDecoration: "none",
+  },
+  secondaryLink: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    height: 40,
+    width: "100%",
+    maxWidth: 320,
+    marginTop: 8,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.12)",
+    background: "rgba(255,255,255,0.04)",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 900,
+    textDecoration: "none",
+  },
+  spinner: {
+    width: 18,
+    height: 18,
+    borderRadius: 99,
+    border: "2px solid rgba(255,255,255,0.18)",
+    borderTopColor: "rgba(255,255,255,0.85)",
+    animation: "spin 0.9s linear infinite",
+  },
+};
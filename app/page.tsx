@@ -1,77 +1,11 @@
 "use client";
 
 import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { useI18n } from "@/lib/i18n/client";
 
 const HERO_MOCKUP_SRC = "/hero-mockup.png";
 
-const featureCards = [
-  {
-    eyebrow: "Inviti",
-    title: "Crea un invito che sembra davvero un evento.",
-    text: "Link privati, approvazioni e dettagli dell’evento in un flusso semplice e molto più bello della solita chat.",
-    accent: "#ff84c1",
-  },
-  {
-    eyebrow: "Gestione",
-    title: "Tieni tutto sotto controllo senza impazzire.",
-    text: "Partecipanti, conferme, richieste e pagamenti organizzati in un’unica esperienza pensata per il telefono.",
-    accent: "#7dbfff",
-  },
-  {
-    eyebrow: "Memories",
-    title: "Rivivi la serata con una disposable gallery.",
-    text: "Le foto si sbloccano al momento giusto, così l’evento resta vivo anche dopo la festa.",
-    accent: "#ffd36a",
-  },
-];
-
-const miniStats = [
-  { label: "Esperienza", value: "mobile-first" },
-  { label: "Inviti", value: "privati" },
-  { label: "Foto", value: "disposable" },
-];
-
-const showcaseCards = [
-  {
-    title: "Invita solo chi vuoi tu",
-    text: "Echo è pensata per eventi privati: richieste, approvazioni e controllo completo della lista.",
-  },
-  {
-    title: "Gestisci anche colletta e conferme",
-    text: "Quando serve, puoi tenere ordinati pagamenti, quote e stato degli invitati senza uscire dal flusso dell’evento.",
-  },
-  {
-    title: "Rendi la serata più memorabile",
-    text: "Le foto non sono solo una gallery: diventano parte dell’esperienza, con un reveal più divertente e curato.",
-  },
-];
-
-const reviews = [
-  {
-    quote:
-      "Finalmente un modo bello e ordinato per organizzare una festa privata senza perdersi tra chat, liste e conferme sparse.",
-    name: "Marco R.",
-    place: "Milano",
-  },
-  {
-    quote:
-      "La parte migliore è la gestione degli invitati: approvazioni, presenza e dettagli evento tutto nello stesso posto.",
-    name: "Chiara T.",
-    place: "Bologna",
-  },
-  {
-    quote:
-      "L’effetto disposable camera dà davvero personalità alla serata. Non sembra la solita app per eventi.",
-    name: "Luca P.",
-    place: "Roma",
-  },
-  {
-    quote:
-      "Molto chiara, molto pulita e soprattutto coerente con un uso mobile reale. Sembra un prodotto rifinito davvero bene.",
-    name: "Giulia S.",
-    place: "Torino",
-  },
-];
+const FEATURE_ACCENTS = ["#ff84c1", "#7dbfff", "#ffd36a"];
 
 function ReviewCard({ quote, name, place }: { quote: string; name: string; place: string }) {
   return (
@@ -99,6 +33,8 @@ function SectionBadge({ children }: { children: ReactNode }) {
 }
 
 export default function Home() {
+  const { t, messages } = useI18n();
+  const copy = messages.landing;
   const [scrollY, setScrollY] = useState(0);
 
   useEffect(() => {
@@ -161,13 +97,13 @@ export default function Home() {
 
           <nav className="hidden items-center gap-8 text-sm text-black/45 md:flex">
             <a href="#features" className="transition hover:text-black/85">
-              Features
+              {t("landing.nav.features")}
             </a>
             <a href="#showcase" className="transition hover:text-black/85">
-              Experience
+              {t("landing.nav.experience")}
             </a>
             <a href="#reviews" className="transition hover:text-black/85">
-              Reviews
+              {t("landing.nav.reviews")}
             </a>
           </nav>
 
@@ -175,7 +111,7 @@ export default function Home() {
             href="/get"
             className="inline-flex h-10 items-center justify-center rounded-full bg-black px-5 text-sm font-semibold text-white transition hover:bg-black/90"
           >
-            Scarica l’app
+            {t("common.downloadApp")}
           </a>
         </header>
 
@@ -192,16 +128,15 @@ export default function Home() {
           <div className="relative z-20 grid items-center gap-14 lg:grid-cols-[minmax(0,1.02fr)_minmax(0,0.98fr)] lg:gap-10">
             <div className="relative max-w-2xl animate-fade-up-delay-1">
               <div style={heroTransforms.badgeFloat}>
-                <SectionBadge>Per eventi privati che lasciano l’echo</SectionBadge>
+                <SectionBadge>{t("landing.hero.badge")}</SectionBadge>
               </div>
 
               <h1 className="mt-7 max-w-5xl text-5xl font-semibold leading-[0.92] tracking-[-0.085em] text-black sm:text-7xl lg:text-[108px]">
-                L’app che rende le feste più belle, più semplici, più vive.
+                {t("landing.hero.title")}
               </h1>
 
               <p className="mt-6 max-w-xl text-base leading-8 text-black/52 sm:text-lg">
-                Echo ti aiuta a organizzare eventi privati con inviti curati, gestione smart degli invitati,
-                pagamenti ordinati e una disposable gallery pensata per far parlare della serata anche dopo.
+                {t("landing.hero.text")}
               </p>
 
               <div className="mt-10 flex flex-col gap-4 sm:flex-row">
@@ -209,19 +144,19 @@ export default function Home() {
                   className="inline-flex h-12 items-center justify-center rounded-full bg-black px-6 text-sm font-semibold text-white transition duration-300 hover:bg-black/90 hover:-translate-y-0.5 animate-soft-breathe"
                   href="/get"
                 >
-                  Scarica echo
+                  {t("landing.hero.primaryCta")}
                 </a>
                 <a
                   className="inline-flex h-12 items-center justify-center rounded-full border border-black/10 bg-white/76 px-6 text-sm font-semibold text-black transition duration-300 hover:bg-white/90 hover:-translate-y-0.5"
                   href="#showcase"
                 >
-                  Guarda come funziona
+                  {t("landing.hero.secondaryCta")}
                 </a>
               </div>
 
               <div className="mt-10 grid max-w-2xl gap-3 sm:grid-cols-3">
-                {miniStats.map((item, index) => {
-                  const accent = ["#ff84c1", "#7dbfff", "#ffd36a"][index] ?? "#ff84c1";
+                {copy.stats.map((item, index) => {
+                  const accent = FEATURE_ACCENTS[index] ?? FEATURE_ACCENTS[0];
                   const style = [heroTransforms.cardA, heroTransforms.cardB, heroTransforms.cardC][index];
                   return (
                     <div
@@ -248,7 +183,7 @@ export default function Home() {
                 >
                   <img
                     src={HERO_MOCKUP_SRC}
-                    alt="Echo app preview"
+                    alt={t("landing.hero.mockupAlt")}
                     className="h-auto w-full object-contain drop-shadow-[0_60px_120px_rgba(15,23,42,0.2)] transition duration-500 group-hover:-translate-y-1 group-hover:rotate-[1deg] animate-mockup-drift"
                   />
                 </div>
@@ -259,17 +194,17 @@ export default function Home() {
 
         <section id="showcase" className="border-t border-black/8 py-16 sm:py-20">
           <div className="max-w-2xl">
-            <SectionBadge>Designed to convert</SectionBadge>
+            <SectionBadge>{t("landing.showcase.badge")}</SectionBadge>
             <h2 className="mt-5 text-3xl font-semibold tracking-tight text-black sm:text-5xl">
-              Una landing deve far venire voglia di scaricare l’app. Tutto qui spinge in quella direzione.
+              {t("landing.showcase.title")}
             </h2>
             <p className="mt-5 max-w-2xl text-base leading-8 text-black/50 sm:text-lg">
-              Per questo il messaggio è chiaro, le schermate sono protagoniste e i punti forti dell’app si capiscono subito.
+              {t("landing.showcase.text")}
             </p>
           </div>
 
           <div className="mt-10 grid gap-4 lg:grid-cols-3">
-            {showcaseCards.map((card, index) => {
+            {copy.showcase.cards.map((card, index) => {
               const accents = ["from-[#ffd6ef]/55", "from-[#d7ebff]/70", "from-[#fff0c8]/70"];
               return (
                 <div
@@ -290,20 +225,20 @@ export default function Home() {
 
         <section id="features" className="border-t border-black/8 py-16 sm:py-20">
           <div className="max-w-2xl">
-            <SectionBadge>Features</SectionBadge>
+            <SectionBadge>{t("landing.features.badge")}</SectionBadge>
             <h2 className="mt-5 text-3xl font-semibold tracking-tight text-black sm:text-4xl">
-              Tutto quello che serve per gestire un evento privato, senza attriti.
+              {t("landing.features.title")}
             </h2>
           </div>
 
           <div className="mt-10 grid gap-4 md:grid-cols-3">
-            {featureCards.map((feature) => (
+            {copy.features.cards.map((feature, index) => (
               <div
                 key={feature.title}
                 className="rounded-[30px] border border-black/8 bg-white/78 p-6 shadow-[0_12px_30px_rgba(15,23,42,0.05)] backdrop-blur-xl transition duration-300 hover:-translate-y-1 hover:shadow-[0_18px_38px_rgba(15,23,42,0.08)] animate-fade-up-stagger"
               >
                 <div className="flex items-center gap-2">
-                  <div className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: feature.accent }} />
+                  <div className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: FEATURE_ACCENTS[index] ?? FEATURE_ACCENTS[0] }} />
                   <div className="text-[11px] uppercase tracking-[0.18em] text-black/35">{feature.eyebrow}</div>
                 </div>
                 <div className="mt-4 text-2xl font-semibold leading-tight tracking-tight text-black">{feature.title}</div>
@@ -315,14 +250,14 @@ export default function Home() {
 
         <section id="reviews" className="border-t border-black/8 py-16 sm:py-20">
           <div className="max-w-2xl">
-            <SectionBadge>Social proof</SectionBadge>
+            <SectionBadge>{t("landing.reviews.badge")}</SectionBadge>
             <h2 className="mt-5 text-3xl font-semibold tracking-tight text-black sm:text-4xl">
-              Pensata per chi organizza serate che devono funzionare davvero.
+              {t("landing.reviews.title")}
             </h2>
           </div>
 
           <div className="mt-10 grid gap-4 md:grid-cols-2 xl:grid-cols-4">
-            {reviews.map((review) => (
+            {copy.reviews.items.map((review) => (
               <div key={`${review.name}-${review.place}`} className="animate-fade-up-stagger">
                 <ReviewCard {...review} />
               </div>
@@ -332,38 +267,38 @@ export default function Home() {
 
         <section className="border-t border-black/8 py-16 sm:py-20">
           <div className="rounded-[38px] border border-black/8 bg-white/76 px-6 py-10 text-center shadow-[0_12px_34px_rgba(15,23,42,0.05)] backdrop-blur-xl sm:px-10 sm:py-14 animate-fade-up-delay-1">
-            <SectionBadge>Download echo</SectionBadge>
+            <SectionBadge>{t("landing.download.badge")}</SectionBadge>
             <h2 className="mx-auto mt-6 max-w-3xl text-3xl font-semibold tracking-tight text-black sm:text-5xl">
-              La prossima festa che organizzi può sembrare già un ricordo prima ancora di iniziare.
+              {t("landing.download.title")}
             </h2>
             <p className="mx-auto mt-5 max-w-2xl text-base leading-8 text-black/50">
-              Scarica echo e trasforma inviti, gestione e gallery in un’esperienza più curata, più condivisibile e molto più memorabile.
+              {t("landing.download.text")}
             </p>
             <div className="mt-8 flex flex-col items-center justify-center gap-4 sm:flex-row">
               <a
                 href="/get"
                 className="inline-flex h-12 items-center justify-center rounded-full bg-black px-6 text-sm font-semibold text-white transition hover:bg-black/90"
               >
-                Scarica l’app
+                {t("common.downloadApp")}
               </a>
               <a
                 href="#features"
                 className="inline-flex h-12 items-center justify-center rounded-full border border-black/10 bg-white/76 px-6 text-sm font-semibold text-black transition hover:bg-white/90"
               >
-                Esplora le feature
+                {t("landing.download.secondaryCta")}
               </a>
             </div>
           </div>
         </section>
 
         <footer className="flex flex-col items-center justify-between gap-4 border-t border-black/8 py-8 text-sm text-black/35 sm:flex-row">
-          <div>© 2026 echo. All rights reserved.</div>
+          <div>{t("landing.footer.rights")}</div>
           <div className="flex items-center gap-6">
             <a href="/privacy" className="transition hover:text-black/70">
-              Privacy
+              {t("landing.footer.privacy")}
             </a>
             <a href="/get" className="transition hover:text-black/70">
-              Scarica echo
+              {t("landing.footer.download")}
             </a>
           </div>
         </footer>
@@ -1,140 +1,35 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
-import { useParams } from "next/navigation";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useParams, useSearchParams } from "next/navigation";
 import { supabase } from "@/lib/supabase";
-
-type PaymentPageRow = {
-  token: string;
-  party_id: string;
-  guest_user_id: string;
-  party_title: string;
-  party_date: string | null;
-  party_mode: string | null;
-  fee_amount_cents: number | null;
-  fee_eur: number | string | null;
-  satispay_url: string | null;
-  paypal_url: string | null;
-  approval_status: string | null;
-  status: string | null;
-  payment_method: string | null;
-  payment_status: string | null;
-  expires_at: string | null;
-};
-
-function localizeApprovalStatus(value: string | null) {
-  const normalized = String(value ?? "").trim().toLowerCase();
-  switch (normalized) {
-    case "approved":
-      return "Approvato";
-    case "rejected":
-      return "Rifiutato";
-    case "pending_approval":
-      return "In attesa";
-    case "pending":
-      return "In attesa";
-    default:
-      return value ?? "-";
-  }
+import { createLogger } from "@/lib/log";
+import { labelFor, type Messages } from "@/lib/i18n";
+import { useI18n } from "@/lib/i18n/client";
+import { formatPartyDay, formatRelativeDay } from "@/lib/dates";
+import {
+  GUEST_PAYMENT_LIVE_POLL_MS,
+  GUEST_PAYMENT_UPDATED_EVENT,
+  feeMoney,
+  guestPaymentTopic,
+  isPaymentConfirmed,
+  type PaymentPageRow,
+} from "@/lib/payments";
+import { formatMoney, resolveCurrency } from "@/lib/money";
+import { discardPaymentProof, uploadPaymentProof } from "@/lib/payment-proof";
+import { openPaymentLink, paymentReference } from "@/lib/payment-links";
+import { availablePaymentMethods, paymentMethodLabel, type PaymentMethod } from "@/lib/payment-methods";
+import { subscribeWithFallback, type LiveMode } from "@/lib/realtime";
+import ProofField from "./proof-field";
+
+const log = createLogger("pay-link");
+
+function localizeApprovalStatus(messages: Messages, value: string | null) {
+  return labelFor(messages.pay.approvalStatus, value) ?? value ?? "-";
 }
 
-function localizePaymentMethod(value: string | null) {
-  const normalized = String(value ?? "").trim().toLowerCase();
-  switch (normalized) {
-    case "cash":
-      return "Contanti";
-    case "paypal":
-      return "PayPal";
-    case "satispay":
-      return "Satispay";
-    default:
-      return value ?? "non selezionato";
-  }
-}
-
-function localizePaymentStatus(value: string | null) {
-  const normalized = String(value ?? "").trim().toLowerCase();
-  switch (normalized) {
-    case "paid":
-      return "Pagato";
-    case "unpaid":
-      return "Non pagato";
-    case "pending":
-      return "In attesa";
-    case "pending_review":
-      return "In verifica";
-    default:
-      return value ?? "non disponibile";
-  }
-}
-
-function formatEuro(feeAmountCents: number | null, feeEur: number | string | null) {
-  if (typeof feeAmountCents === "number" && Number.isFinite(feeAmountCents)) {
-    return `€ ${(feeAmountCents / 100).toFixed(2)}`;
-  }
-  if (typeof feeEur === "number" && Number.isFinite(feeEur)) {
-    return `€ ${feeEur.toFixed(2)}`;
-  }
-  if (feeEur != null && String(feeEur).trim()) {
-    return `€ ${String(feeEur).trim()}`;
-  }
-  return "€ 0.00";
-}
-
-function formatPartyDate(value: string | null) {
-  if (!value) return "";
-
-  const raw = String(value).trim();
-  if (!raw) return "";
-
-  const hasTz = /[zZ]|[+-]\d{2}:?\d{2}$/.test(raw);
-  const parsed = hasTz
-    ? new Date(raw)
-    : new Date(raw.replace(" ", "T") + "+01:00");
-
-  if (Number.isNaN(parsed.getTime())) return "";
-
-  return parsed.toLocaleDateString("it-IT", {
-    timeZone: "Europe/Rome",
-    weekday: "short",
-    day: "2-digit",
-    month: "2-digit",
-    year: "numeric",
-  });
-}
-
-async function notifyOrganizerPaymentUpdate(params: {
-  token: string;
-  method: "cash" | "satispay" | "paypal";
-}) {
-  const { data, error } = await supabase.functions.invoke("notify-organizer-payment-from-link", {
-    body: {
-      token: params.token,
-      method: params.method,
-    },
-  });
-
-  console.log("[pay-link] notify-organizer-payment-from-link response", { data, error });
-
-  if (error) {
-    let detailedMessage = "Failed to send a request to the edge function";
-
-    try {
-      const maybeAny = error as any;
-      if (maybeAny?.context?.json) {
-        const errJson = await maybeAny.context.json();
-        detailedMessage = errJson?.error ?? errJson?.message ?? detailedMessage;
-      } else if (error instanceof Error && error.message) {
-        detailedMessage = error.message;
-      }
-    } catch {
-      if (error instanceof Error && error.message) {
-        detailedMessage = error.message;
-      }
-    }
-
-    throw new Error(detailedMessage);
-  }
+function localizePaymentStatus(messages: Messages, value: string | null) {
+  return labelFor(messages.pay.paymentStatus, value) ?? value ?? messages.pay.statusUnavailable;
 }
 
 export default function GuestPaymentPage() {
@@ -146,11 +41,18 @@ export default function GuestPaymentPage() {
     return "";
   }, [params]);
 
+  // ritorno da Stripe Checkout: ?checkout=success | cancelled
+  const checkoutResult = useSearchParams().get("checkout");
+
+  const { locale, t, messages } = useI18n();
+
   const [row, setRow] = useState<PaymentPageRow | null>(null);
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState(false);
   const [msg, setMsg] = useState<string>("");
   const [requestSent, setRequestSent] = useState(false);
+  const [liveMode, setLiveMode] = useState<LiveMode>("connecting");
+  const [proofFile, setProofFile] = useState<File | null>(null);
 
   async function load() {
     if (!token) return;
@@ -164,7 +66,7 @@ export default function GuestPaymentPage() {
     });
 
     if (error) {
-      setMsg("Impossibile caricare la pagina pagamento.");
+      setMsg(t("pay.errors.loadFailed"));
       setLoading(false);
       return;
     }
@@ -178,58 +80,97 @@ export default function GuestPaymentPage() {
     void load();
   }, [token]);
 
-  async function chooseCash() {
-    try {
-      setBusy(true);
-      setMsg("");
+  // Rilettura silenziosa per gli aggiornamenti live: niente spinner e messaggi intatti.
+  const refresh = useCallback(async () => {
+    if (!token) return;
 
-      const { data, error } = await supabase.rpc("choose_cash_payment_from_link", {
-        p_token: token,
-      });
+    const { data, error } = await supabase.rpc("get_guest_payment_page_public", {
+      p_token: token,
+    });
 
-      if (error) throw error;
+    if (error) {
+      log.warn("refresh payment page error", error);
+      return;
+    }
 
-      const result = Array.isArray(data) ? data[0] : data;
-      if (!result?.ok) throw new Error("Impossibile salvare il pagamento in contanti.");
+    const result = Array.isArray(data) ? data[0] : data;
+    if (result) setRow(result);
+  }, [token]);
 
-      await notifyOrganizerPaymentUpdate({ token, method: "cash" });
+  const hasRow = !!row;
 
-      setRequestSent(true);
-      setMsg("La tua richiesta di pagamento in contanti è stata inviata. Riceverai una mail di conferma quando l’organizzatore completerà la verifica del pagamento.");
-      await load();
-      setRequestSent(true);
-    } catch (e: any) {
-      console.error("[pay-link] chooseCash error", e);
-      setMsg(e?.message ?? "Errore.");
-    } finally {
-      setBusy(false);
-    }
+  useEffect(() => {
+    if (!hasRow || !token) return;
+
+    return subscribeWithFallback({
+      client: supabase,
+      channel: guestPaymentTopic(token),
+      broadcast: GUEST_PAYMENT_UPDATED_EVENT,
+      onChange: () => void refresh(),
+      onModeChange: setLiveMode,
+      livePollMs: GUEST_PAYMENT_LIVE_POLL_MS,
+    });
+  }, [hasRow, token, refresh]);
+
+  function methodContext(proofPath: string | null = null) {
+    return { client: supabase, token, t, proofPath };
   }
 
-  async function markPaid(method: "satispay" | "paypal") {
+  // Metodi "instant" (carta): si va al checkout del provider, la conferma arriva dal webhook.
+  async function startPayment(method: PaymentMethod) {
+    if (method.action.kind !== "instant") return;
+
     try {
       setBusy(true);
       setMsg("");
 
-      const { data, error } = await supabase.rpc("mark_guest_payment_claim_from_link", {
-        p_token: token,
-        p_method: method,
-      });
+      window.location.assign(await method.action.start(methodContext()));
+    } catch (e) {
+      log.error("startPayment error", { method: method.id, error: e });
+      setMsg(t("pay.errors.cardFailed"));
+      setBusy(false);
+    }
+  }
+
+  // Metodi con verifica dell'organizzatore: contanti, o "ho pagato" dopo un link esterno.
+  async function submitClaim(method: PaymentMethod) {
+    if (method.action.kind === "instant") return;
 
-      if (error) throw error;
+    try {
+      setBusy(true);
+      setMsg("");
 
-      const result = Array.isArray(data) ? data[0] : data;
-      if (!result?.ok) throw new Error("Impossibile aggiornare il pagamento.");
+      let proofPath: string | null = null;
+      if (method.acceptsProof && proofFile) {
+        try {
+          proofPath = await uploadPaymentProof(supabase, { token, file: proofFile });
+        } catch (e) {
+          log.error("uploadPaymentProof error", e);
+          throw new Error(t("pay.errors.proofUploadFailed"));
+        }
+      }
 
-      await notifyOrganizerPaymentUpdate({ token, method });
+      try {
+        await method.action.claim(methodContext(proofPath));
+      } catch (e) {
+        // la prova resterebbe orfana nel bucket: la rimuoviamo, l'ospite la ricarica al prossimo invio
+        if (proofPath) {
+          const path = proofPath;
+          void discardPaymentProof(supabase, { token, path }).catch((err) =>
+            log.error("discardPaymentProof error", { path, error: err })
+          );
+        }
+        throw e;
+      }
 
+      if (proofPath) setProofFile(null);
       setRequestSent(true);
-      setMsg(`La tua richiesta di conferma pagamento è stata inviata all’organizzatore. Riceverai una mail di conferma quando il pagamento sarà verificato e completato.`);
+      if (method.sentKey) setMsg(t(method.sentKey));
       await load();
       setRequestSent(true);
-    } catch (e: any) {
-      console.error("[pay-link] markPaid error", e);
-      setMsg(e?.message ?? "Errore.");
+    } catch (e) {
+      log.error("submitClaim error", { method: method.id, error: e });
+      setMsg(e instanceof Error && e.message ? e.message : t("pay.errors.generic"));
     } finally {
       setBusy(false);
     }
@@ -243,7 +184,7 @@ export default function GuestPaymentPage() {
           <div style={styles.card}>
             <div style={styles.center}>
               <div style={styles.spinner} />
-              <div style={styles.muted}>Caricamento…</div>
+              <div style={styles.muted}>{t("common.loading")}</div>
             </div>
           </div>
         </div>
@@ -257,16 +198,25 @@ export default function GuestPaymentPage() {
         <div style={styles.bg} />
         <div style={styles.container}>
           <div style={styles.card}>
-            <h1 style={styles.h1}>Ops</h1>
-            <p style={styles.mutedText}>Link non valido o scaduto.</p>
+            <h1 style={styles.h1}>{t("common.oops")}</h1>
+            <p style={styles.mutedText}>{t("pay.invalidLink")}</p>
           </div>
         </div>
       </main>
     );
   }
 
-  const quota = formatEuro(row.fee_amount_cents, row.fee_eur);
-  const paymentConfirmed = String(row.payment_status ?? "").trim().toLowerCase() === "paid";
+  const fee = feeMoney(row);
+  // importo legacy illeggibile: meglio il testo così com'è che una quota a 0
+  const quota =
+    (fee && formatMoney(fee, locale)) ||
+    String(row.fee_eur ?? "").trim() ||
+    formatMoney({ amount: 0, currency: resolveCurrency(row.fee_currency) }, locale);
+  const dateOptions = { locale, timeZone: row.party_timezone };
+  const partyDay = formatPartyDay(row.party_date, dateOptions);
+  const relativeDay = formatRelativeDay(row.party_date, dateOptions);
+  const paymentConfirmed = isPaymentConfirmed(row);
+  const methods = availablePaymentMethods(row);
 
   return (
     <main style={styles.page}>
@@ -274,86 +224,155 @@ export default function GuestPaymentPage() {
       <div style={styles.container}>
         <div style={styles.card}>
           <div style={styles.hero}>
-            <h1 style={styles.h1}>Pagamento festa</h1>
+            <h1 style={styles.h1}>{t("pay.title")}</h1>
             <div style={styles.heroEvent}>{row.party_title}</div>
-            <div style={styles.heroSub}>Quota: {quota}</div>
-            {row.party_date ? <div style={styles.heroSub}>🗓️ {formatPartyDate(row.party_date)}</div> : null}
+            <div style={styles.heroSub}>{t("pay.fee", { amount: quota })}</div>
+            {partyDay ? (
+              <div style={styles.heroSub}>
+                🗓️ {partyDay}
+                {relativeDay ? ` · ${relativeDay}` : ""}
+              </div>
+            ) : null}
           </div>
 
           <div style={styles.divider} />
 
           <div style={styles.statusCard}>
-            <div style={styles.sectionTitleCenter}>Stato attuale</div>
+            <div style={styles.sectionTitleCenter}>{t("pay.currentStatus")}</div>
             <div style={styles.statusGrid}>
               <div style={styles.statusItem}>
-                <span style={styles.statusLabel}>Invito</span>
-                <span style={styles.statusValue}>{localizeApprovalStatus(row.approval_status)}</span>
+                <span style={styles.statusLabel}>{t("pay.labels.invite")}</span>
+                <span style={styles.statusValue}>{localizeApprovalStatus(messages, row.approval_status)}</span>
               </div>
               <div style={styles.statusItem}>
-                <span style={styles.statusLabel}>Metodo</span>
-                <span style={styles.statusValue}>{localizePaymentMethod(row.payment_method)}</span>
+                <span style={styles.statusLabel}>{t("pay.labels.method")}</span>
+                <span style={styles.statusValue}>{paymentMethodLabel(t, messages, row.payment_method)}</span>
               </div>
               <div style={styles.statusItem}>
-                <span style={styles.statusLabel}>Pagamento</span>
-                <span style={styles.statusValue}>{localizePaymentStatus(row.payment_status)}</span>
+                <span style={styles.statusLabel}>{t("pay.labels.payment")}</span>
+                <span style={styles.statusValue}>{localizePaymentStatus(messages, row.payment_status)}</span>
               </div>
             </div>
+            <div style={styles.live}>
+              <span style={liveMode === "realtime" ? styles.dotLive : styles.dot} />
+              {liveMode === "realtime"
+                ? t("pay.live")
+                : liveMode === "polling"
+                  ? t("pay.polling")
+                  : t("pay.connecting")}
+            </div>
           </div>
 
           <div style={styles.divider} />
 
           {paymentConfirmed ? (
             <div style={styles.successBox}>
-              <div style={styles.successTitle}>Pagamento confermato ✅</div>
-              <div style={styles.successText}>Il tuo pagamento è avvenuto con successo. Ci vediamo alla festa.</div>
+              <div style={styles.successTitle}>{t("pay.confirmedTitle")}</div>
+              <div style={styles.successText}>{t("pay.confirmedText")}</div>
+              <div style={styles.receiptLinks}>
+                <a href={`/pay/${encodeURIComponent(token)}/receipt`} style={styles.receiptLink}>
+                  {t("pay.receiptLink")}
+                </a>
+                <a href={`/pay/${encodeURIComponent(token)}/receipt.pdf`} style={styles.receiptLink}>
+                  {t("pay.receiptPdf")}
+                </a>
+              </div>
             </div>
           ) : (
             <>
               <div style={styles.ctaBoxStrong}>
-                <div style={styles.ctaTitleStrong}>Scegli come pagare</div>
-                <div style={styles.ctaTextStrong}>
-                  In base a cosa ha scelto l'organizzazione puoi pagare con Satispay, PayPal o contanti. Se paghi online, torna qui e conferma: riceverai una mail quando l’organizzatore verifica il pagamento.
-                </div>
+                <div style={styles.ctaTitleStrong}>{t("pay.chooseTitle")}</div>
+                <div style={styles.ctaTextStrong}>{t("pay.chooseText")}</div>
               </div>
 
+              {checkoutResult === "success" ? (
+                <div style={styles.requestSentBox}>
+                  <div style={styles.requestSentTitle}>{t("pay.card.processingTitle")}</div>
+                  <div style={styles.requestSentText}>{t("pay.card.processingText")}</div>
+                </div>
+              ) : checkoutResult === "cancelled" ? (
+                <div style={styles.feedback}>{t("pay.card.cancelled")}</div>
+              ) : null}
+
               <div style={{ height: 14 }} />
 
+              {methods.some((method) => method.acceptsProof) ? (
+                <ProofField file={proofFile} disabled={busy} onChange={setProofFile} />
+              ) : null}
+
+              {methods.some((method) => method.action.kind === "redirect") ? (
+                <div style={styles.methodHint}>{t("pay.reference", { reference: paymentReference(row) })}</div>
+              ) : null}
+
               <div style={styles.btnCol}>
-                {row.satispay_url ? (
-                  <>
-                    <a href={row.satispay_url} target="_blank" rel="noreferrer" style={styles.primaryLinkBtn}>
-                      Apri Satispay
-                    </a>
-                    <button style={{ ...styles.secondaryBtn, opacity: busy ? 0.7 : 1 }} disabled={busy} onClick={() => void markPaid("satispay")}>
-                      Ho pagato con Satispay
-                    </button>
-                  </>
-                ) : null}
-
-                {row.paypal_url ? (
-                  <>
-                    <a href={row.paypal_url} target="_blank" rel="noreferrer" style={styles.primaryLinkBtn}>
-                      Apri PayPal
-                    </a>
-                    <button style={{ ...styles.secondaryBtn, opacity: busy ? 0.7 : 1 }} disabled={busy} onClick={() => void markPaid("paypal")}>
-                      Ho pagato con PayPal
+                {methods.map((method) => {
+                  const action = method.action;
+                  const label = `${method.icon} ${t(method.buttonKey, { amount: quota })}`;
+
+                  if (action.kind === "instant") {
+                    return (
+                      <React.Fragment key={method.id}>
+                        <button
+                          style={{ ...styles.primaryBtn, opacity: busy ? 0.7 : 1 }}
+                          disabled={busy}
+                          onClick={() => void startPayment(method)}
+                        >
+                          {label}
+                        </button>
+                        {method.hintKey ? <div style={styles.methodHint}>{t(method.hintKey)}</div> : null}
+                      </React.Fragment>
+                    );
+                  }
+
+                  if (action.kind === "redirect") {
+                    const link = action.link(row);
+                    return (
+                      <React.Fragment key={method.id}>
+                        {link ? (
+                          <a
+                            href={link.web}
+                            target="_blank"
+                            rel="noreferrer"
+                            style={styles.primaryLinkBtn}
+                            onClick={(e) => {
+                              if (!link.app) return;
+                              e.preventDefault();
+                              openPaymentLink(link);
+                            }}
+                          >
+                            {label}
+                          </a>
+                        ) : null}
+                        <button
+                          style={{ ...styles.secondaryBtn, opacity: busy ? 0.7 : 1 }}
+                          disabled={busy}
+                          onClick={() => void submitClaim(method)}
+                        >
+                          {t(action.claimKey)}
+                        </button>
+                      </React.Fragment>
+                    );
+                  }
+
+                  return (
+                    <button
+                      key={method.id}
+                      style={{ ...styles.secondaryBtn, opacity: busy ? 0.7 : 1 }}
+                      disabled={busy}
+                      onClick={() => void submitClaim(method)}
+                    >
+                      {label}
                     </button>
-                  </>
-                ) : null}
-
-                <button style={{ ...styles.secondaryBtn, opacity: busy ? 0.7 : 1 }} disabled={busy} onClick={() => void chooseCash()}>
-                  Pago in contanti
-                </button>
+                  );
+                })}
               </div>
             </>
           )}
 
-          {requestSent ? (
+          {requestSent && !paymentConfirmed ? (
             <div style={styles.requestSentBox}>
-              <div style={styles.requestSentTitle}>Richiesta inviata ✅</div>
-              <div style={styles.requestSentText}>
-                Abbiamo avvisato l’organizzatore. Riceverai una mail di conferma quando il pagamento sarà verificato e completato.
-              </div>
+              <div style={styles.requestSentTitle}>{t("pay.requestSentTitle")}</div>
+              <div style={styles.requestSentText}>{t("pay.requestSentText")}</div>
             </div>
           ) : null}
 
@@ -473,6 +492,17 @@ const styles: Record<string, React.CSSProperties> = {
     textTransform: "capitalize",
     textAlign: "right",
   },
+  live: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+    fontSize: 12,
+    color: "rgba(255,255,255,0.55)",
+    marginTop: 12,
+  },
+  dot: { width: 8, height: 8, borderRadius: 99, background: "rgba(255,255,255,0.35)" },
+  dotLive: { width: 8, height: 8, borderRadius: 99, background: "rgb(46,204,113)" },
   ctaBoxStrong: {
     borderRadius: 18,
     border: "1px solid rgba(255,255,255,0.14)",
@@ -512,6 +542,23 @@ const styles: Record<string, React.CSSProperties> = {
     padding: "0 14px",
     boxSizing: "border-box",
   },
+  primaryBtn: {
+    width: "100%",
+    maxWidth: 320,
+    height: 46,
+    borderRadius: 14,
+    border: "none",
+    background: "rgba(255,255,255,0.92)",
+    color: "#111",
+    fontWeight: 950,
+    cursor: "pointer",
+  },
+  methodHint: {
+    fontSize: 12,
+    color: "rgba(255,255,255,0.6)",
+    textAlign: "center",
+    marginBottom: 14,
+  },
   secondaryBtn: {
     width: "100%",
     maxWidth: 320,
@@ -572,6 +619,18 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: 14,
     lineHeight: "18px",
   },
+  receiptLinks: {
+    display: "flex",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 14,
+    marginTop: 12,
+  },
+  receiptLink: {
+    color: "rgba(255,255,255,0.92)",
+    fontSize: 13,
+    fontWeight: 800,
+  },
   center: {
     display: "grid",
     justifyItems: "center",
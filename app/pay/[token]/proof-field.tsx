@@ -0,0 +1,170 @@
+// app/pay/[token]/proof-field.tsx
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { useI18n } from "@/lib/i18n/client";
+import {
+  PAYMENT_PROOF_ACCEPT,
+  PAYMENT_PROOF_MAX_BYTES,
+  validatePaymentProof,
+  type PaymentProofError,
+  type PaymentProofKind,
+} from "@/lib/payment-proof";
+
+const MAX_MB = PAYMENT_PROOF_MAX_BYTES / (1024 * 1024);
+
+// Screenshot o PDF della transazione, con anteprima locale. Passa al genitore solo file già validati.
+export default function ProofField({
+  file,
+  disabled,
+  onChange,
+}: {
+  file: File | null;
+  disabled?: boolean;
+  onChange: (file: File | null) => void;
+}) {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<{ file: File; url: string; kind: PaymentProofKind } | null>(null);
+  const [error, setError] = useState<PaymentProofError | null>(null);
+  const previewUrlRef = useRef<string | null>(null);
+
+  useEffect(
+    () => () => {
+      if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+    },
+    []
+  );
+
+  function showPreview(next: { file: File; url: string; kind: PaymentProofKind } | null) {
+    if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+    previewUrlRef.current = next?.url ?? null;
+    setPreview(next);
+  }
+
+  async function onSelect(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0] ?? null;
+    e.target.value = "";
+    if (!selected) return;
+
+    const checked = await validatePaymentProof(selected);
+    if (!checked.ok) {
+      setError(checked.error);
+      return;
+    }
+    setError(null);
+    showPreview({ file: selected, url: URL.createObjectURL(selected), kind: checked.kind });
+    onChange(selected);
+  }
+
+  // il genitore svuota `file` dopo l'invio: l'anteprima vale solo per il file corrente
+  const current = file && preview?.file === file ? preview : null;
+
+  return (
+    <div style={styles.box}>
+      <div style={styles.title}>{t("pay.proof.title")}</div>
+      <div style={styles.hint}>{t("pay.proof.hint", { mb: MAX_MB })}</div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={PAYMENT_PROOF_ACCEPT}
+        style={{ display: "none" }}
+        disabled={disabled}
+        onChange={(e) => void onSelect(e)}
+      />
+
+      {current ? (
+        <div style={styles.preview}>
+          {current.kind === "image" ? (
+            <div
+              style={{ ...styles.image, backgroundImage: `url("${current.url}")` }}
+              role="img"
+              aria-label={current.file.name}
+            />
+          ) : (
+            <a href={current.url} target="_blank" rel="noreferrer" style={styles.pdf}>
+              📄 {current.file.name}
+            </a>
+          )}
+          <div style={styles.actions}>
+            <button type="button" style={styles.textBtn} disabled={disabled} onClick={() => inputRef.current?.click()}>
+              {t("pay.proof.replace")}
+            </button>
+            <button
+              type="button"
+              style={styles.textBtn}
+              disabled={disabled}
+              onClick={() => {
+                showPreview(null);
+                onChange(null);
+              }}
+            >
+              {t("pay.proof.remove")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button type="button" style={styles.addBtn} disabled={disabled} onClick={() => inputRef.current?.click()}>
+          {t("pay.proof.choose")}
+        </button>
+      )}
+
+      {error ? <div style={styles.error}>{t(`pay.proof.errors.${error}`, { mb: MAX_MB })}</div> : null}
+      <div style={styles.hint}>{t("pay.proof.privacy")}</div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  box: {
+    display: "grid",
+    gap: 10,
+    borderRadius: 18,
+    border: "1px solid rgba(255,255,255,0.10)",
+    background: "rgba(255,255,255,0.04)",
+    padding: 14,
+    marginBottom: 14,
+  },
+  title: { fontWeight: 950, fontSize: 15, textAlign: "center" },
+  hint: { fontSize: 12, opacity: 0.7, textAlign: "center" },
+  preview: { display: "grid", gap: 8 },
+  image: {
+    height: 180,
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.12)",
+    backgroundColor: "rgba(0,0,0,0.25)",
+    backgroundSize: "contain",
+    backgroundRepeat: "no-repeat",
+    backgroundPosition: "center",
+  },
+  pdf: {
+    padding: "12px 14px",
+    borderRadius: 14,
+    border: "1px solid rgba(255,255,255,0.12)",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 800,
+    fontSize: 14,
+    overflowWrap: "anywhere",
+  },
+  actions: { display: "flex", justifyContent: "center", gap: 16 },
+  textBtn: {
+    border: 0,
+    background: "transparent",
+    color: "rgba(255,255,255,0.7)",
+    textDecoration: "underline",
+    fontSize: 12,
+    padding: 0,
+    cursor: "pointer",
+  },
+  addBtn: {
+    height: 40,
+    borderRadius: 14,
+    border: "1px dashed rgba(255,255,255,0.24)",
+    background: "transparent",
+    color: "rgba(255,255,255,0.92)",
+    fontWeight: 900,
+    cursor: "pointer",
+  },
+  error: { fontSize: 13, fontWeight: 800, color: "rgb(255,120,120)", textAlign: "center" },
+};
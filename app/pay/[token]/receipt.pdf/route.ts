@@ -0,0 +1,22 @@
+// app/pay/[token]/receipt.pdf/route.ts
+// Ricevuta di pagamento in PDF, con lo stesso token del link di pagamento. 404 finché il pagamento non è confermato.
+
+import { getI18n } from "@/lib/i18n/server";
+import { getPaymentReceipt, receiptPdf } from "@/lib/payment-receipt";
+
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const [receipt, i18n] = await Promise.all([getPaymentReceipt(token), getI18n()]);
+
+  if (!receipt) {
+    return new Response(i18n.t("receipt.notFound"), { status: 404 });
+  }
+
+  return new Response(receiptPdf(receipt, i18n), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="echo-ricevuta-${receipt.number}.pdf"`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
@@ -0,0 +1,171 @@
+// app/pay/[token]/receipt/page.tsx
+// Ricevuta di pagamento stampabile, raggiungibile solo con il token del link di pagamento.
+
+import type { Metadata } from "next";
+import React from "react";
+import PrintButton from "@/app/components/print-button";
+import { getI18n } from "@/lib/i18n/server";
+import { getPaymentReceipt, receiptFields } from "@/lib/payment-receipt";
+
+type Props = {
+  params: Promise<{ token: string }>;
+};
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { t } = await getI18n();
+  return {
+    title: t("receipt.metaTitle"),
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function PaymentReceiptPage({ params }: Props) {
+  const { token } = await params;
+  const payHref = `/pay/${encodeURIComponent(token)}`;
+
+  const [receipt, i18n] = await Promise.all([getPaymentReceipt(token), getI18n()]);
+  const { t } = i18n;
+
+  if (!receipt) {
+    return (
+      <main style={S.page}>
+        <div style={S.sheet}>
+          <h1 style={S.title}>{t("receipt.unavailableTitle")}</h1>
+          <p style={S.muted}>{t("receipt.unavailableText")}</p>
+          <a href={payHref} style={S.toolbarLink}>
+            {t("receipt.backToPayment")}
+          </a>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main style={S.page}>
+      <div className="no-print" style={S.toolbar}>
+        <a href={payHref} style={S.toolbarLink}>
+          {t("receipt.backToPayment")}
+        </a>
+        <a href={`${payHref}/receipt.pdf`} style={S.toolbarLink}>
+          {t("receipt.downloadPdf")}
+        </a>
+        <PrintButton label={t("receipt.print")} style={S.printBtn} />
+      </div>
+
+      <div style={S.sheet}>
+        <div style={S.brand}>echo</div>
+        <h1 style={S.title}>{t("receipt.title")}</h1>
+        <div style={S.muted}>{t("receipt.number", { number: receipt.number })}</div>
+
+        <dl style={S.fields}>
+          {receiptFields(receipt, i18n).map((field) => (
+            <div key={field.label} style={S.field}>
+              <dt style={S.label}>{field.label}</dt>
+              <dd style={S.value}>{field.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <p style={S.note}>{t("receipt.note")}</p>
+      </div>
+
+      <style>{`
+        @page { size: A5; margin: 12mm; }
+        @media print {
+          .no-print { display: none !important; }
+          body { background: #FFFFFF !important; }
+        }
+      `}</style>
+    </main>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    background: "#F6F8FF",
+    padding: "24px 16px",
+    fontFamily: "system-ui, -apple-system, Segoe UI, Roboto, sans-serif",
+    color: "#0E0F12",
+  },
+  toolbar: {
+    display: "flex",
+    gap: 10,
+    justifyContent: "center",
+    alignItems: "center",
+    flexWrap: "wrap",
+    marginBottom: 18,
+  },
+  toolbarLink: {
+    padding: "8px 14px",
+    borderRadius: 12,
+    border: "1px solid rgba(14,15,18,0.14)",
+    color: "#0E0F12",
+    textDecoration: "none",
+    fontWeight: 800,
+  },
+  printBtn: {
+    height: 38,
+    padding: "0 16px",
+    borderRadius: 12,
+    border: "none",
+    background: "#2A7FFF",
+    color: "#FFFFFF",
+    fontWeight: 900,
+    cursor: "pointer",
+  },
+  sheet: {
+    maxWidth: 560,
+    margin: "0 auto",
+    background: "#FFFFFF",
+    borderRadius: 18,
+    border: "1px solid rgba(14,15,18,0.08)",
+    padding: "32px 28px",
+    display: "flex",
+    flexDirection: "column",
+    gap: 10,
+  },
+  brand: {
+    fontSize: 20,
+    fontWeight: 950,
+    letterSpacing: -0.4,
+  },
+  title: {
+    margin: 0,
+    fontSize: 28,
+    fontWeight: 950,
+    letterSpacing: -0.6,
+  },
+  muted: {
+    color: "rgba(14,15,18,0.62)",
+    fontWeight: 700,
+    margin: 0,
+  },
+  fields: {
+    margin: "14px 0 0",
+    padding: "14px 0",
+    borderTop: "1px solid rgba(14,15,18,0.12)",
+    borderBottom: "1px solid rgba(14,15,18,0.12)",
+    display: "grid",
+    gap: 12,
+  },
+  field: {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: 16,
+  },
+  label: {
+    color: "rgba(14,15,18,0.55)",
+    fontWeight: 700,
+  },
+  value: {
+    margin: 0,
+    fontWeight: 900,
+    textAlign: "right",
+  },
+  note: {
+    fontSize: 12,
+    color: "rgba(14,15,18,0.5)",
+    margin: "8px 0 0",
+  },
+};
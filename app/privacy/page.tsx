@@ -1,6 +1,14 @@
 // app/privacy/page.tsx
 // Route entrypoint for https://echo.partydispo.app/privacy
 
+import type { Metadata } from "next";
 import PrivacyPolicy from "./privacy-policy";
+import { getLegalDocuments } from "@/lib/i18n/legal";
+import { getLocale } from "@/lib/i18n/server";
 
-export default PrivacyPolicy;
\ No newline at end of file
+export async function generateMetadata(): Promise<Metadata> {
+  const doc = getLegalDocuments(await getLocale()).privacy;
+  return { title: doc.metaTitle, description: doc.metaDescription };
+}
+
+export default PrivacyPolicy;
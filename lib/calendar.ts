@@ -0,0 +1,154 @@
+// Evento calendario della festa: file .ics (RFC 5545) e link precompilati per Google Calendar e Outlook.
+// Il luogo non viene mai incluso: resta visibile solo nell'app dopo l'approvazione.
+
+import { hasPartyTime, parsePartyDate, resolveTimeZone } from "@/lib/dates";
+
+// Durata usata quando la festa ha un orario di inizio ma non di fine.
+export const DEFAULT_PARTY_DURATION_MINUTES = 240;
+
+export type PartyCalendarEvent = {
+  title: string;
+  description: string;
+  url: string;
+  timeZone: string;
+  allDay: boolean;
+  start: Date;
+  end: Date;
+};
+
+export function partyCalendarEvent(params: {
+  title: string;
+  partyDate: string | null | undefined;
+  partyTimeZone: string | null | undefined;
+  description: string;
+  url: string;
+}): PartyCalendarEvent | null {
+  const timeZone = resolveTimeZone(params.partyTimeZone);
+  const start = parsePartyDate(params.partyDate, timeZone);
+  if (!start) return null;
+
+  const allDay = !hasPartyTime(params.partyDate);
+  const end = allDay
+    ? nextDayStart(start, timeZone)
+    : new Date(start.getTime() + DEFAULT_PARTY_DURATION_MINUTES * 60_000);
+  if (!end) return null;
+
+  return { title: params.title, description: params.description, url: params.url, timeZone, allDay, start, end };
+}
+
+// Mezzanotte del giorno dopo nel fuso della festa (non +24h: i giorni del cambio d'ora durano 23 o 25 ore).
+function nextDayStart(date: Date, timeZone: string) {
+  const day = localDateStamp(date, timeZone);
+  const next = new Date(Date.UTC(Number(day.slice(0, 4)), Number(day.slice(4, 6)) - 1, Number(day.slice(6, 8)) + 1));
+  return parsePartyDate(next.toISOString().slice(0, 10), timeZone);
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+// 20260710T190000Z
+function utcStamp(date: Date) {
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
+
+// 20260710, letto nel fuso della festa (per gli eventi di un giorno intero)
+function localDateStamp(date: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" })
+    .format(date)
+    .replace(/-/g, "");
+}
+
+function escapeText(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\r?\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+// Righe al massimo di 75 ottetti, continuazione con CRLF + spazio (RFC 5545 §3.1).
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      chunks.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+// `uid` deve restare lo stesso per la stessa festa e `sequence` deve crescere quando cambia la data,
+// così i calendari aggiornano l'evento già importato invece di crearne un secondo.
+export function buildIcs(event: PartyCalendarEvent, options: { uid: string; sequence: number; now?: Date }) {
+  const dates = event.allDay
+    ? [
+        `DTSTART;VALUE=DATE:${localDateStamp(event.start, event.timeZone)}`,
+        `DTEND;VALUE=DATE:${localDateStamp(event.end, event.timeZone)}`,
+      ]
+    : [`DTSTART:${utcStamp(event.start)}`, `DTEND:${utcStamp(event.end)}`];
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//echo//Party invite//IT",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${options.uid}`,
+    `SEQUENCE:${Math.max(0, Math.floor(options.sequence))}`,
+    `DTSTAMP:${utcStamp(options.now ?? new Date())}`,
+    ...dates,
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `URL:${event.url}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function googleCalendarUrl(event: PartyCalendarEvent) {
+  const dates = event.allDay
+    ? `${localDateStamp(event.start, event.timeZone)}/${localDateStamp(event.end, event.timeZone)}`
+    : `${utcStamp(event.start)}/${utcStamp(event.end)}`;
+
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: event.title,
+    dates,
+    details: `${event.description}\n${event.url}`,
+    ctz: event.timeZone,
+  });
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+function isoLocalDate(date: Date, timeZone: string) {
+  const day = localDateStamp(date, timeZone);
+  return `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`;
+}
+
+export function outlookCalendarUrl(event: PartyCalendarEvent) {
+  const params = new URLSearchParams({
+    path: "/calendar/action/compose",
+    rru: "addevent",
+    subject: event.title,
+    body: `${event.description}\n${event.url}`,
+    startdt: event.allDay ? isoLocalDate(event.start, event.timeZone) : event.start.toISOString(),
+    enddt: event.allDay ? isoLocalDate(event.end, event.timeZone) : event.end.toISOString(),
+    allday: String(event.allDay),
+  });
+  return `https://outlook.live.com/calendar/0/action/compose?${params.toString()}`;
+}
@@ -0,0 +1,53 @@
+// Accompagnatori (+1, +2, …) dichiarati dall'ospite insieme alla risposta "Ci sono".
+// Il massimo arriva da get_invite_public (`max_companions`); le preferenze drink di ciascuno sono facoltative.
+
+import { selectionsFromPreferenceRow, type DrinkSelections } from "@/lib/drink-catalog";
+
+export const COMPANION_NAME_MAX_LENGTH = 60;
+
+export type Companion = {
+  name: string;
+  // null = nessuna preferenza indicata per questo accompagnatore
+  selections: DrinkSelections | null;
+};
+
+export type CompanionsPayload = { name: string; selections: DrinkSelections | null }[];
+
+export function emptyCompanion(): Companion {
+  return { name: "", selections: null };
+}
+
+// Lista salvata (get_my_invite_status.companions) -> Companion[]; righe senza nome scartate.
+export function readCompanions(raw: unknown): Companion[] {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item): Companion[] => {
+    if (!item || typeof item !== "object") return [];
+    const row = item as Record<string, unknown>;
+    const name = typeof row.name === "string" ? row.name.trim() : "";
+    if (!name) return [];
+
+    const hasSelections = row.selections && typeof row.selections === "object";
+    return [{ name, selections: hasSelections ? selectionsFromPreferenceRow(row) : null }];
+  });
+}
+
+export type CompanionsError = "missingName" | "tooMany";
+
+// Valida e normalizza per respond_party_invite_auth. Le preferenze vuote diventano null.
+export function companionsPayload(
+  companions: Companion[],
+  max: number
+): { ok: true; payload: CompanionsPayload } | { ok: false; error: CompanionsError } {
+  if (companions.length > max) return { ok: false, error: "tooMany" };
+
+  const payload: CompanionsPayload = [];
+  for (const companion of companions) {
+    const name = companion.name.trim().slice(0, COMPANION_NAME_MAX_LENGTH);
+    if (!name) return { ok: false, error: "missingName" };
+
+    const selected = Object.entries(companion.selections ?? {}).filter(([, on]) => on);
+    payload.push({ name, selections: selected.length ? Object.fromEntries(selected) : null });
+  }
+  return { ok: true, payload };
+}
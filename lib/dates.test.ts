@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PARTY_TIME_ZONE,
+  formatPartyTime,
+  formatRelativeDay,
+  isValidTimeZone,
+  parsePartyDate,
+  partyDaysFromNow,
+  resolveTimeZone,
+  timeZoneOffsetMs,
+} from "@/lib/dates";
+
+const HOUR_MS = 3_600_000;
+
+function iso(value: string | null | undefined, timeZone?: string | null) {
+  return parsePartyDate(value, timeZone)?.toISOString() ?? null;
+}
+
+describe("parsePartyDate wall clock in the party zone", () => {
+  it("uses the summer and winter offset of Europe/Rome", () => {
+    expect(iso("2026-07-10 21:00", "Europe/Rome")).toBe("2026-07-10T19:00:00.000Z");
+    expect(iso("2026-01-10 21:00", "Europe/Rome")).toBe("2026-01-10T20:00:00.000Z");
+  });
+
+  it("defaults to Europe/Rome without a zone", () => {
+    expect(iso("2026-07-10T21:00:00")).toBe("2026-07-10T19:00:00.000Z");
+  });
+
+  it("keeps milliseconds", () => {
+    expect(iso("2026-07-10T21:00:00.250", "UTC")).toBe("2026-07-10T21:00:00.250Z");
+  });
+
+  it("rejects malformed or out-of-range values", () => {
+    expect(parsePartyDate("")).toBeNull();
+    expect(parsePartyDate(null)).toBeNull();
+    expect(parsePartyDate("domani sera")).toBeNull();
+    expect(parsePartyDate("2026-13-01 10:00")).toBeNull();
+    expect(parsePartyDate("2026-07-10 24:00")).toBeNull();
+  });
+});
+
+describe("DST boundaries", () => {
+  // Europe/Rome: 29 marzo 2026 alle 02:00 si passa a 03:00, 25 ottobre 2026 alle 03:00 si torna a 02:00.
+  it("spring gap: a non-existent time moves forward by the skipped hour", () => {
+    expect(iso("2026-03-29 02:30", "Europe/Rome")).toBe("2026-03-29T01:30:00.000Z");
+    expect(formatPartyTime("2026-03-29 02:30", { locale: "it", timeZone: "Europe/Rome" })).toBe("03:30");
+  });
+
+  it("spring gap: times around the jump keep their own offset", () => {
+    expect(iso("2026-03-29 01:59", "Europe/Rome")).toBe("2026-03-29T00:59:00.000Z");
+    expect(iso("2026-03-29 03:00", "Europe/Rome")).toBe("2026-03-29T01:00:00.000Z");
+  });
+
+  it("autumn overlap: a repeated time resolves to the first occurrence", () => {
+    expect(iso("2026-10-25 02:30", "Europe/Rome")).toBe("2026-10-25T00:30:00.000Z");
+    expect(formatPartyTime("2026-10-25 02:30", { locale: "it", timeZone: "Europe/Rome" })).toBe("02:30");
+  });
+
+  it("autumn overlap: times after the overlap use winter time", () => {
+    expect(iso("2026-10-25 03:00", "Europe/Rome")).toBe("2026-10-25T02:00:00.000Z");
+  });
+
+  it("works for zones with the opposite hemisphere and a half-hour shift", () => {
+    // Australia/Lord_Howe: +11 d'estate, +10:30 d'inverno; l'ora legale finisce il 5 aprile 2026 alle 02:00.
+    expect(iso("2026-04-05 01:45", "Australia/Lord_Howe")).toBe("2026-04-04T14:45:00.000Z");
+    expect(iso("2026-04-05 03:00", "Australia/Lord_Howe")).toBe("2026-04-04T16:30:00.000Z");
+  });
+
+  it("timeZoneOffsetMs follows the season", () => {
+    expect(timeZoneOffsetMs(new Date("2026-07-01T12:00:00Z"), "Europe/Rome")).toBe(2 * HOUR_MS);
+    expect(timeZoneOffsetMs(new Date("2026-01-01T12:00:00Z"), "Europe/Rome")).toBe(1 * HOUR_MS);
+    expect(timeZoneOffsetMs(new Date("2026-07-01T12:00:00Z"), "America/New_York")).toBe(-4 * HOUR_MS);
+  });
+});
+
+describe("explicit offsets", () => {
+  it("Z suffix ignores the party zone", () => {
+    expect(iso("2026-07-10T21:00:00Z", "Asia/Tokyo")).toBe("2026-07-10T21:00:00.000Z");
+    expect(iso("2026-07-10 21:00:00z", "Europe/Rome")).toBe("2026-07-10T21:00:00.000Z");
+  });
+
+  it("accepts +HH, +HHMM and +HH:MM", () => {
+    expect(iso("2026-07-10 21:00:00+02", "Asia/Tokyo")).toBe("2026-07-10T19:00:00.000Z");
+    expect(iso("2026-07-10 21:00:00+0200", "Asia/Tokyo")).toBe("2026-07-10T19:00:00.000Z");
+    expect(iso("2026-07-10T21:00:00+02:00", "Asia/Tokyo")).toBe("2026-07-10T19:00:00.000Z");
+    expect(iso("2026-07-10T21:00:00-05:30", "Europe/Rome")).toBe("2026-07-11T02:30:00.000Z");
+  });
+
+  it("Postgres timestamptz with fractional seconds", () => {
+    expect(iso("2026-07-10 21:00:00.123456+00", "Europe/Rome")).toBe("2026-07-10T21:00:00.123Z");
+  });
+});
+
+describe("invalid IANA zones", () => {
+  it("isValidTimeZone", () => {
+    expect(isValidTimeZone("Europe/Rome")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Europe/Atlantis")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+    expect(isValidTimeZone("   ")).toBe(false);
+    expect(isValidTimeZone(null)).toBe(false);
+    expect(isValidTimeZone(42)).toBe(false);
+  });
+
+  it("resolveTimeZone falls back to the default", () => {
+    expect(resolveTimeZone("Europe/Atlantis")).toBe(DEFAULT_PARTY_TIME_ZONE);
+    expect(resolveTimeZone(null)).toBe(DEFAULT_PARTY_TIME_ZONE);
+    expect(resolveTimeZone("America/New_York")).toBe("America/New_York");
+  });
+
+  it("parses with the default zone instead of failing", () => {
+    expect(iso("2026-07-10 21:00", "Europe/Atlantis")).toBe(iso("2026-07-10 21:00", DEFAULT_PARTY_TIME_ZONE));
+  });
+});
+
+describe("relative-day labels around midnight", () => {
+  const zone = "Europe/Rome";
+
+  it("counts calendar days in the party zone, not 24h windows", () => {
+    // 23:59 a Roma (21:59Z); la festa è 2 minuti dopo, ma già il giorno dopo
+    const now = new Date("2026-07-09T21:59:00Z");
+    expect(partyDaysFromNow("2026-07-10 00:01", zone, now)).toBe(1);
+    expect(partyDaysFromNow("2026-07-09 00:01", zone, now)).toBe(0);
+  });
+
+  it("changes label exactly at midnight in the party zone", () => {
+    const beforeMidnight = new Date("2026-07-09T21:59:59Z");
+    const afterMidnight = new Date("2026-07-09T22:00:00Z");
+    expect(formatRelativeDay("2026-07-10 21:00", { locale: "it", timeZone: zone, now: beforeMidnight })).toBe("domani");
+    expect(formatRelativeDay("2026-07-10 21:00", { locale: "it", timeZone: zone, now: afterMidnight })).toBe("oggi");
+    expect(formatRelativeDay("2026-07-10 21:00", { locale: "en", timeZone: zone, now: afterMidnight })).toBe("today");
+  });
+
+  it("uses the party zone even when UTC is already on another day", () => {
+    // 00:30 a Roma è ancora il 9 luglio in UTC
+    const now = new Date("2026-07-09T22:30:00Z");
+    expect(formatRelativeDay("2026-07-09 23:00", { locale: "en", timeZone: zone, now })).toBe("yesterday");
+  });
+
+  it("is not thrown off by a 23h DST day", () => {
+    const now = new Date("2026-03-28T22:30:00Z"); // 23:30 del 28 marzo a Roma
+    expect(partyDaysFromNow("2026-03-29 23:30", zone, now)).toBe(1);
+    expect(partyDaysFromNow("2026-03-30 00:30", zone, now)).toBe(2);
+  });
+
+  it("switches to weeks and months for far dates", () => {
+    const now = new Date("2026-07-01T10:00:00Z");
+    expect(formatRelativeDay("2026-07-15 21:00", { locale: "en", timeZone: zone, now })).toBe("in 2 weeks");
+    expect(formatRelativeDay("2026-10-01 21:00", { locale: "en", timeZone: zone, now })).toBe("in 3 months");
+    expect(formatRelativeDay("not a date", { now })).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+// Date delle feste. I timestamp senza offset sono orari "da muro" nel fuso IANA della festa (es. Europe/Rome):
+// l'offset si ricava da Intl per quella data, quindi ora legale e solare sono gestite senza offset fissi.
+
+import { DEFAULT_LOCALE, INTL_LOCALE, type Locale } from "@/lib/i18n";
+
+export const DEFAULT_PARTY_TIME_ZONE = "Europe/Rome";
+
+const DAY_MS = 86_400_000;
+
+// "2026-07-10", "2026-07-10 21:00", "2026-07-10T21:00:00.000"
+const LOCAL_TIMESTAMP = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,6}))?)?)?$/;
+
+// Offset esplicito in coda: "Z", "+02", "+0200", "+02:00" (Postgres timestamptz usa la forma breve).
+const OFFSET_SUFFIX = /\d(?:[zZ]|[+-]\d{2}(?::?\d{2})?)$/;
+
+type WallClock = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+};
+
+export type PartyDateOptions = {
+  locale?: Locale;
+  timeZone?: string | null;
+};
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value.trim()) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveTimeZone(value: string | null | undefined) {
+  return isValidTimeZone(value) ? value : DEFAULT_PARTY_TIME_ZONE;
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClockAt(date: Date, timeZone: string): WallClock {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallClockToUtcMs(wall: WallClock) {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+// Offset del fuso rispetto a UTC nell'istante dato (ms): +2h per Europe/Rome d'estate, +1h d'inverno.
+export function timeZoneOffsetMs(date: Date, timeZone: string) {
+  const wholeSeconds = date.getTime() - date.getUTCMilliseconds();
+  return wallClockToUtcMs(wallClockAt(date, timeZone)) - wholeSeconds;
+}
+
+// Istante corrispondente a un orario da muro nel fuso dato.
+// Ora che si ripete (fine ora legale): vince la prima occorrenza.
+// Ora che non esiste (inizio ora legale): si usa l'offset precedente, quindi 02:30 diventa 03:30.
+function zonedWallClockToDate(wall: WallClock, millis: number, timeZone: string) {
+  const asUtc = wallClockToUtcMs(wall);
+  const offsetBefore = timeZoneOffsetMs(new Date(asUtc - DAY_MS), timeZone);
+  const offsetAfter = timeZoneOffsetMs(new Date(asUtc + DAY_MS), timeZone);
+
+  const candidates = [asUtc - offsetBefore, asUtc - offsetAfter]
+    .filter((ms) => timeZoneOffsetMs(new Date(ms), timeZone) === asUtc - ms)
+    .sort((a, b) => a - b);
+
+  return new Date((candidates[0] ?? asUtc - offsetBefore) + millis);
+}
+
+function normalizeOffsetTimestamp(raw: string) {
+  return raw
+    .replace(" ", "T")
+    .replace(/([+-]\d{2})$/, "$1:00")
+    .replace(/([+-]\d{2})(\d{2})$/, "$1:$2");
+}
+
+// true se il valore contiene anche l'ora (una data "2026-07-10" da sola non ha un orario da mostrare).
+export function hasPartyTime(value: string | null | undefined) {
+  const raw = String(value ?? "").trim();
+  return /\d[ T]\d{2}:\d{2}/.test(raw);
+}
+
+export function parsePartyDate(value: string | null | undefined, timeZone?: string | null): Date | null {
+  const raw = String(value ?? "").trim();
+  if (!raw) return null;
+
+  if (OFFSET_SUFFIX.test(raw) && hasPartyTime(raw)) {
+    const parsed = new Date(normalizeOffsetTimestamp(raw));
+    return Number.isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  const m = raw.match(LOCAL_TIMESTAMP);
+  if (!m) return null;
+
+  const wall: WallClock = {
+    year: Number(m[1]),
+    month: Number(m[2]),
+    day: Number(m[3]),
+    hour: Number(m[4] ?? 0),
+    minute: Number(m[5] ?? 0),
+    second: Number(m[6] ?? 0),
+  };
+  const millis = m[7] ? Number(m[7].padEnd(3, "0").slice(0, 3)) : 0;
+
+  if (wall.month < 1 || wall.month > 12 || wall.day < 1 || wall.day > 31 || wall.hour > 23 || wall.minute > 59) {
+    return null;
+  }
+
+  return zonedWallClockToDate(wall, millis, resolveTimeZone(timeZone));
+}
+
+export function formatPartyDay(value: string | null | undefined, options: PartyDateOptions = {}) {
+  const date = parsePartyDate(value, options.timeZone);
+  if (!date) return null;
+
+  return date.toLocaleDateString(INTL_LOCALE[options.locale ?? DEFAULT_LOCALE], {
+    timeZone: resolveTimeZone(options.timeZone),
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+export function formatPartyTime(value: string | null | undefined, options: PartyDateOptions = {}) {
+  if (!hasPartyTime(value)) return null;
+  const date = parsePartyDate(value, options.timeZone);
+  if (!date) return null;
+
+  return date.toLocaleTimeString(INTL_LOCALE[options.locale ?? DEFAULT_LOCALE], {
+    timeZone: resolveTimeZone(options.timeZone),
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function calendarDayNumber(date: Date, timeZone: string) {
+  const wall = wallClockAt(date, timeZone);
+  return Math.round(Date.UTC(wall.year, wall.month - 1, wall.day) / DAY_MS);
+}
+
+// Distanza in giorni di calendario (nel fuso della festa) tra oggi e la festa: 0 oggi, 1 domani, -1 ieri.
+export function partyDaysFromNow(value: string | null | undefined, timeZone?: string | null, now = new Date()) {
+  const date = parsePartyDate(value, timeZone);
+  if (!date) return null;
+
+  const zone = resolveTimeZone(timeZone);
+  return calendarDayNumber(date, zone) - calendarDayNumber(now, zone);
+}
+
+// "domani", "tra 3 giorni", "tra 2 settimane", "2 giorni fa"...
+export function formatRelativeDay(
+  value: string | null | undefined,
+  options: PartyDateOptions & { now?: Date } = {}
+) {
+  const days = partyDaysFromNow(value, options.timeZone, options.now);
+  if (days == null) return null;
+
+  const rtf = new Intl.RelativeTimeFormat(INTL_LOCALE[options.locale ?? DEFAULT_LOCALE], { numeric: "auto" });
+  const abs = Math.abs(days);
+  if (abs < 14) return rtf.format(days, "day");
+  if (abs < 60) return rtf.format(Math.round(days / 7), "week");
+  return rtf.format(Math.round(days / 30), "month");
+}
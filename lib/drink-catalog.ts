@@ -0,0 +1,121 @@
+// Catalogo prodotti per le preferenze bevande, caricato dalla tabella drink_products.
+// Le preferenze sono una mappa generica prodotto → selezionato (colonna jsonb `selections`);
+// le vecchie colonne booleane di party_drink_preferences restano leggibili tramite LEGACY_DRINK_PRODUCTS.
+
+import { supabase } from "@/lib/supabase";
+
+export type DrinkCategory = "alcoholic" | "soft" | "other";
+
+export type DrinkProduct = {
+  id: string;
+  label: string;
+  category: DrinkCategory;
+  icon: string | null;
+  sortOrder: number;
+};
+
+export type DrinkSelections = Record<string, boolean>;
+
+// Gli otto prodotti storici: usati come fallback se il catalogo non è raggiungibile
+// e per leggere/scrivere le colonne booleane legacy.
+export const LEGACY_DRINK_PRODUCTS: DrinkProduct[] = [
+  { id: "rum", label: "Rum", category: "alcoholic", icon: null, sortOrder: 10 },
+  { id: "gin", label: "Gin", category: "alcoholic", icon: null, sortOrder: 20 },
+  { id: "vodka", label: "Vodka", category: "alcoholic", icon: null, sortOrder: 30 },
+  { id: "tequila", label: "Tequila", category: "alcoholic", icon: null, sortOrder: 40 },
+  { id: "beer", label: "Birra", category: "alcoholic", icon: null, sortOrder: 50 },
+  { id: "cola", label: "Cola", category: "soft", icon: null, sortOrder: 110 },
+  { id: "tonic", label: "Tonica", category: "soft", icon: null, sortOrder: 120 },
+  { id: "lemonade", label: "Limonata", category: "soft", icon: null, sortOrder: 130 },
+];
+
+const LEGACY_COLUMNS = LEGACY_DRINK_PRODUCTS.map((p) => p.id);
+
+function normalizeProductId(raw: unknown) {
+  return typeof raw === "string" ? raw.trim().toLowerCase() : "";
+}
+
+function normalizeCategory(raw: unknown): DrinkCategory {
+  const value = String(raw ?? "").trim().toLowerCase();
+  if (value === "alcoholic" || value === "alcohol") return "alcoholic";
+  if (value === "soft" || value === "soft_drink" || value === "non_alcoholic") return "soft";
+  return "other";
+}
+
+function sortProducts(products: DrinkProduct[]) {
+  return [...products].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label, "it"));
+}
+
+export async function loadDrinkCatalog(): Promise<DrinkProduct[]> {
+  const { data, error } = await supabase
+    .from("drink_products")
+    .select("id, label, category, icon, sort_order")
+    .eq("active", true)
+    .order("sort_order", { ascending: true });
+
+  if (error) throw error;
+
+  const products: DrinkProduct[] = [];
+  for (const row of data ?? []) {
+    const id = normalizeProductId(row.id);
+    if (!id) continue;
+    products.push({
+      id,
+      label: typeof row.label === "string" && row.label.trim() ? row.label.trim() : id,
+      category: normalizeCategory(row.category),
+      icon: typeof row.icon === "string" && row.icon.trim() ? row.icon.trim() : null,
+      sortOrder: typeof row.sort_order === "number" ? row.sort_order : 0,
+    });
+  }
+
+  return products.length > 0 ? sortProducts(products) : LEGACY_DRINK_PRODUCTS;
+}
+
+// Legge una riga di party_drink_preferences: prima la mappa `selections`, poi le colonne booleane legacy
+// (solo se la mappa non le cita già, così una deselezione nuova vince su un vecchio `true`).
+export function selectionsFromPreferenceRow(row: Record<string, unknown> | null): DrinkSelections {
+  const result: DrinkSelections = {};
+  if (!row) return result;
+
+  const raw = row.selections;
+  if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      const id = normalizeProductId(key);
+      if (id) result[id] = value === true;
+    }
+  }
+
+  for (const column of LEGACY_COLUMNS) {
+    if (column in result) continue;
+    if (typeof row[column] === "boolean") result[column] = row[column] as boolean;
+  }
+
+  return result;
+}
+
+// Colonne booleane legacy da scrivere insieme a `selections`, per le versioni dell'app che leggono ancora quelle.
+export function legacyColumnsFromSelections(selections: DrinkSelections) {
+  const columns: Record<string, boolean> = {};
+  for (const column of LEGACY_COLUMNS) columns[column] = selections[column] === true;
+  return columns;
+}
+
+export function productsByCategory(products: DrinkProduct[], category: DrinkCategory) {
+  return products.filter((p) => p.category === category);
+}
+
+export function hasAlcoholSelection(selections: DrinkSelections, products: DrinkProduct[]) {
+  return products.some((p) => p.category === "alcoholic" && selections[p.id] === true);
+}
+
+export function isAlcoholicProduct(id: string, products: DrinkProduct[]) {
+  return products.some((p) => p.id === id && p.category === "alcoholic");
+}
+
+export function clearAlcoholSelections(selections: DrinkSelections, products: DrinkProduct[]): DrinkSelections {
+  const next = { ...selections };
+  for (const p of products) {
+    if (p.category === "alcoholic") next[p.id] = false;
+  }
+  return next;
+}
@@ -0,0 +1,95 @@
+// Provider della lingua per i client component e selettore manuale.
+// La lingua arriva dal root layout (cookie / Accept-Language); il selettore scrive il cookie e ricarica i server component.
+
+"use client";
+
+import React, { createContext, useContext, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import {
+  INTL_LOCALE,
+  LOCALES,
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  createTranslator,
+  getMessages,
+  type Locale,
+  type Messages,
+  type Translator,
+} from "@/lib/i18n";
+
+type I18nContextValue = {
+  locale: Locale;
+  intlLocale: string;
+  t: Translator;
+  messages: Messages;
+};
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const value = useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      intlLocale: INTL_LOCALE[locale],
+      t: createTranslator(locale),
+      messages: getMessages(locale),
+    }),
+    [locale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const ctx = useContext(I18nContext);
+  if (!ctx) throw new Error("useI18n must be used inside I18nProvider");
+  return ctx;
+}
+
+export function LocaleSwitcher() {
+  const { locale, t } = useI18n();
+  const router = useRouter();
+
+  function onChange(next: Locale) {
+    document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+    router.refresh();
+  }
+
+  return (
+    <div className="no-print" style={S.wrap}>
+      <select
+        aria-label={t("common.language")}
+        value={locale}
+        onChange={(e) => onChange(e.target.value as Locale)}
+        style={S.select}
+      >
+        {LOCALES.map((code) => (
+          <option key={code} value={code}>
+            {LOCALE_NAMES[code]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  wrap: {
+    position: "fixed",
+    right: 12,
+    bottom: 12,
+    zIndex: 50,
+  },
+  select: {
+    height: 34,
+    borderRadius: 999,
+    border: "1px solid rgba(255,255,255,0.18)",
+    background: "rgba(14,15,18,0.72)",
+    color: "rgba(255,255,255,0.92)",
+    padding: "0 12px",
+    fontSize: 13,
+    fontWeight: 700,
+    backdropFilter: "blur(12px)",
+    cursor: "pointer",
+  },
+};
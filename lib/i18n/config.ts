@@ -0,0 +1,55 @@
+// Lingue supportate e rilevamento della lingua preferita (cookie del selettore → Accept-Language → default).
+
+export const LOCALES = ["it", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "it";
+
+// Cookie scritto dal selettore lingua; vince sempre su Accept-Language.
+export const LOCALE_COOKIE = "pd_locale";
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  it: "Italiano",
+  en: "English",
+};
+
+// Tag BCP 47 da passare a Intl / toLocale*String.
+export const INTL_LOCALE: Record<Locale, string> = {
+  it: "it-IT",
+  en: "en-GB",
+};
+
+// Valore per og:locale.
+export const OG_LOCALE: Record<Locale, string> = {
+  it: "it_IT",
+  en: "en_GB",
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (LOCALES as readonly string[]).includes(value);
+}
+
+// Sceglie la lingua supportata con la qualità più alta nell'header Accept-Language ("en-US,en;q=0.9,it;q=0.8").
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  if (!acceptLanguage) return DEFAULT_LOCALE;
+
+  const ranges = acceptLanguage
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return { tag: tag.trim().toLowerCase(), quality: Number.isFinite(quality) ? quality : 0, index };
+    })
+    .filter((range) => range.tag && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const range of ranges) {
+    if (range.tag === "*") return DEFAULT_LOCALE;
+    const base = range.tag.split("-")[0];
+    if (isLocale(base)) return base;
+  }
+
+  return DEFAULT_LOCALE;
+}
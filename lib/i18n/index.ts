@@ -0,0 +1,59 @@
+// Cataloghi messaggi e traduzione per chiave ("pay.labels.method"), usabili sia lato server sia lato client.
+// Per aggiungere una lingua: nuovo file in messages/, voce in LOCALES e in CATALOGS.
+
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/config";
+import { en } from "@/lib/i18n/messages/en";
+import { it } from "@/lib/i18n/messages/it";
+
+export * from "@/lib/i18n/config";
+
+export type Messages = typeof it;
+
+// Chiavi puntate che portano a una stringa (gli array, es. liste di punti elenco, si leggono da messages).
+type StringKeys<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : T[K] extends readonly unknown[]
+      ? never
+      : StringKeys<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type MessageKey = StringKeys<Messages>;
+
+export type MessageVars = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, vars?: MessageVars) => string;
+
+const CATALOGS: Record<Locale, Messages> = { it, en };
+
+export function getMessages(locale: Locale): Messages {
+  return CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE];
+}
+
+export function interpolate(template: string, vars?: MessageVars) {
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+}
+
+function lookup(messages: Messages, key: string): unknown {
+  return key.split(".").reduce<unknown>(
+    (node, part) => (node && typeof node === "object" ? (node as Record<string, unknown>)[part] : undefined),
+    messages
+  );
+}
+
+export function createTranslator(locale: Locale): Translator {
+  const messages = getMessages(locale);
+  const fallback = getMessages(DEFAULT_LOCALE);
+
+  return (key, vars) => {
+    const value = lookup(messages, key) ?? lookup(fallback, key);
+    return typeof value === "string" ? interpolate(value, vars) : key;
+  };
+}
+
+// Lookup di un valore libero (es. uno stato arrivato dal backend) in una mappa del catalogo.
+export function labelFor(map: Record<string, string>, value: string | null | undefined) {
+  const normalized = String(value ?? "").trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(map, normalized) ? map[normalized] : null;
+}
@@ -0,0 +1,349 @@
+// Testi legali in inglese. In caso di discrepanze prevale la versione italiana.
+
+import type { LegalDocuments } from "@/lib/i18n/legal/types";
+
+export const legalEn: LegalDocuments = {
+  lastUpdatedLabel: "Last updated:",
+  lastUpdated: "April 14, 2026",
+
+  privacy: {
+    metaTitle: "Privacy Policy | echo",
+    metaDescription: "How echo collects, uses, stores and shares personal data.",
+    title: "Privacy Policy",
+    intro: [
+      'This Privacy Policy describes how echo ("**echo**", "**we**", "**our**") collects, uses, stores and shares personal data when you use the echo app, website and related services.',
+    ],
+    sections: [
+      {
+        title: "1. Data controller",
+        blocks: [
+          "The controller of the personal data described in this Privacy Policy is echo. For privacy requests, questions or account deletion requests, you can contact us at [{email}](mailto:{email}).",
+        ],
+      },
+      {
+        title: "2. Personal data we collect",
+        blocks: [
+          "Depending on how you use echo, we may collect the following categories of personal data:",
+          {
+            list: [
+              "**Account information**, such as first name, last name, phone number, email address and any profile details you choose to provide.",
+              "**Authentication data**, such as the one-time code verification data needed to sign in securely.",
+              "**User-generated content**, including event details, invites, attendance replies, messages or content sent through the service and any other content you voluntarily upload or share.",
+              "**Payment-related information**, such as selected payment methods, payment status or payment confirmation details shared within the app. echo does not intentionally store full payment card numbers.",
+              "**Technical and device information**, such as push notification tokens, device type, operating system, app version, log data, crash data and diagnostic information.",
+              "**Safety and moderation data**, such as reports submitted by users, blocked user lists, moderation outcomes and information needed to investigate inappropriate content or abusive behavior.",
+              "**Usage data**, such as interactions with app features, event attendance flows and support requests.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "3. How we use personal data",
+        blocks: [
+          "We use personal data to:",
+          {
+            list: [
+              "create, authenticate and manage your account;",
+              "provide the app’s core features, including event creation, invites, attendance management, organizer features, payment-related flows and notifications;",
+              "operate, maintain, monitor, troubleshoot and improve the service;",
+              "send transactional communications and push notifications about your account or your events;",
+              "protect users, detect abuse, filter inappropriate content, review reports, investigate violations, block abusive users and remove content or accounts when necessary;",
+              "comply with legal obligations and enforce our Terms of Use.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "4. Legal bases for processing",
+        blocks: [
+          "Where required by applicable privacy law, we rely on one or more of the following legal bases:",
+          {
+            list: [
+              "**Performance of a contract**, when processing is necessary to provide the services you requested.",
+              "**Legitimate interests**, including service security, fraud prevention, abuse prevention, moderation, troubleshooting and product improvement.",
+              "**Compliance with legal obligations**, when we must process data to comply with applicable law or lawful requests from authorities.",
+              "**Consent**, where consent is required, for example for optional permissions that are not strictly necessary for the service.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "5. User-generated content, safety and moderation",
+        blocks: [
+          "echo may include user-generated content. To keep the environment safe, we may use manual review, automated filters, user reports and user blocking features to identify and handle inappropriate content or abusive behavior.",
+          "When you submit a report or block another user, we may process the relevant content, account information, event information and safety signals needed to investigate the report, take moderation action, remove content from your experience and, where appropriate, suspend or terminate accounts.",
+          "We may keep moderation records, abuse prevention data and report history to the extent necessary to document the actions taken, resolve disputes, protect users and comply with legal obligations.",
+        ],
+      },
+      {
+        title: "6. Sharing personal data",
+        blocks: [
+          "We do not sell your personal data. We may share personal data only to the extent reasonably necessary with:",
+          {
+            list: [
+              "**Technical service providers** that help us run the app, backend infrastructure, authentication, hosting, email delivery, analytics or push notifications;",
+              "**Other users**, but only to the extent needed for the app’s social and event management features;",
+              "**Authorities or other parties** when required by law, regulation or legal process, or to protect the rights, safety and integrity of the service;",
+              "**Successors or acquirers**, in connection with mergers, acquisitions, reorganizations or asset transfers, in accordance with applicable law.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "7. Push notifications and communications",
+        blocks: [
+          "echo may send push notifications, emails or in-app messages about invites, events, attendance, payments, account access, moderation actions, reports, safety measures and service updates. You can manage some notification permissions in your device settings.",
+        ],
+      },
+      {
+        title: "8. Data retention",
+        blocks: [
+          "We keep personal data for as long as necessary to provide the service, maintain security, investigate abuse, comply with legal obligations, resolve disputes and enforce our agreements. Retention periods may vary depending on the type of data and why it was collected.",
+        ],
+      },
+      {
+        title: "9. International data transfers",
+        blocks: [
+          "Your data may be processed in countries other than the one you live in, depending on where our service providers operate. Where required, we take reasonable steps to use appropriate safeguards for international transfers.",
+        ],
+      },
+      {
+        title: "10. Your rights",
+        blocks: [
+          "Depending on your location and applicable law, you may have the right to access, correct, update, delete, restrict or object to the processing of your personal data, or to receive a copy of it. You may also have the right to withdraw consent where consent is the legal basis for processing.",
+          "To exercise your rights, contact us at [{email}](mailto:{email}). We may need to verify your identity before completing your request.",
+        ],
+      },
+      {
+        title: "11. Account and data deletion requests",
+        blocks: [
+          "To request deletion of your account and associated personal data, email [{email}](mailto:{email}) with the subject **Account deletion request** and include the email address and, if available, the phone number associated with your echo account.",
+          "We may retain limited information where necessary for legal compliance, fraud prevention, security, moderation records, dispute resolution or enforcement purposes.",
+        ],
+      },
+      {
+        title: "12. Children’s privacy",
+        blocks: [
+          "echo is not intended for children under the minimum age permitted by applicable law, and we do not knowingly collect personal data from children in violation of applicable law. If you believe a child has improperly provided personal data, contact us so we can look into it and take appropriate action.",
+        ],
+      },
+      {
+        title: "13. Security",
+        blocks: [
+          "We use reasonable administrative, technical and organizational measures designed to protect personal data. However, no method of transmission or storage is completely secure and we cannot guarantee absolute security.",
+        ],
+      },
+      {
+        title: "14. Changes to this Privacy Policy",
+        blocks: [
+          'We may update this Privacy Policy from time to time. The "Last updated" date above shows when the most recent changes were made. Continued use of echo after an update may, where permitted by law, be considered acknowledgment of the updated Privacy Policy.',
+        ],
+      },
+      {
+        title: "15. Contact",
+        blocks: [
+          "For privacy questions, data protection requests, privacy questions related to moderation or account deletion requests, contact us at [{email}](mailto:{email}).",
+        ],
+      },
+    ],
+  },
+
+  terms: {
+    metaTitle: "Terms of Use | echo",
+    metaDescription: "The terms governing access to and use of echo.",
+    title: "Terms of Use",
+    intro: [
+      "These Terms of Use govern access to and use of echo, including the mobile app, website and related services. By accessing or using echo, you agree to be bound by these Terms of Use, the Privacy Policy and the Community Guidelines.",
+    ],
+    sections: [
+      {
+        title: "1. Eligibility",
+        blocks: [
+          "You may use echo only if you are permitted to do so under applicable law. By using echo, you represent that you have the legal capacity to accept these Terms.",
+        ],
+      },
+      {
+        title: "2. Accounts and access",
+        blocks: [
+          "You may need to create an account to access some or all of echo’s features. You are responsible for providing accurate information and for keeping your account and sign-in credentials secure.",
+          "You are responsible for all activity carried out through your account, except where the law provides otherwise.",
+        ],
+      },
+      {
+        title: "3. User-generated content",
+        blocks: [
+          'echo may allow users to create, upload, submit, share or display content, including event details, invites, attendance information, payment confirmations, text, images and other materials ("User Content").',
+          "You remain responsible for the User Content you submit and for your interactions with other users.",
+        ],
+      },
+      {
+        title: "4. Zero tolerance for inappropriate content or abusive users",
+        blocks: [
+          "echo has a zero-tolerance policy towards inappropriate content and abusive behavior.",
+          "You must not use echo to create, upload, share or promote content that is:",
+          {
+            list: [
+              "offensive, defamatory, harassing, abusive, hateful or threatening;",
+              "sexually explicit or exploitative;",
+              "violent or encouraging violence;",
+              "discriminatory on the basis of race, ethnicity, nationality, religion, gender, sexual orientation, disability or similar protected characteristics;",
+              "fraudulent, misleading or intended to impersonate another person;",
+              "unlawful or intended to promote illegal activity;",
+              "infringing another person’s privacy or rights.",
+            ],
+          },
+          "Any abusive conduct towards other users, including harassment, intimidation, scams or repeated unwanted contact, is strictly prohibited.",
+        ],
+      },
+      {
+        title: "5. Reporting and blocking users",
+        blocks: [
+          "echo may provide users with ways to report inappropriate content or abusive users and to block abusive users.",
+          "When a user blocks another user, the blocked user’s content may be removed immediately from the blocking user’s experience, where applicable.",
+          "By using echo, you acknowledge and agree that reports and blocking actions may be reviewed and handled by echo for safety, moderation and enforcement purposes.",
+        ],
+      },
+      {
+        title: "6. Moderation and enforcement",
+        blocks: [
+          "echo reserves the right, but not the obligation, to review, filter, restrict, remove or refuse content; warn users; limit access to features; suspend accounts; or permanently terminate accounts that violate these Terms, the Community Guidelines or applicable law.",
+          "echo may act on reports of inappropriate content and abusive users and aims to review valid reports within 24 hours.",
+          "We may remove unlawful or prohibited content and eject users who provide prohibited content or behave abusively.",
+        ],
+      },
+      {
+        title: "7. License to use echo",
+        blocks: [
+          "Provided that you comply with these Terms, echo grants you a limited, non-exclusive, non-transferable and revocable license to access and use the service for personal, non-commercial purposes.",
+          "You may not copy, modify, distribute, sell, license, reverse engineer or otherwise exploit any part of echo, except as expressly permitted by law or with prior written authorization.",
+        ],
+      },
+      {
+        title: "8. Your responsibilities",
+        blocks: [
+          "You agree not to:",
+          {
+            list: [
+              "violate these Terms or any applicable law;",
+              "use echo to harm, harass, exploit or deceive others;",
+              "attempt to gain unauthorized access to systems or accounts;",
+              "interfere with the proper operation or security of the service;",
+              "upload malware, malicious code or harmful content;",
+              "use automated tools to access or scrape the service without authorization.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "9. License to user content",
+        blocks: [
+          "To allow the service to operate, you grant echo a limited, non-exclusive, worldwide, royalty-free license to host, store, process, reproduce and display your User Content solely for the purpose of operating, improving, protecting and moderating the service.",
+        ],
+      },
+      {
+        title: "10. Payments and third-party services",
+        blocks: [
+          "Some features may include payment-related flows or links to third-party services. echo is not responsible for third-party payment providers, websites or services, and your use of those services may be governed by separate terms and privacy policies.",
+        ],
+      },
+      {
+        title: "11. Privacy",
+        blocks: [
+          "Your use of echo is also governed by our Privacy Policy. You can contact us at [{email}](mailto:{email}) for privacy requests.",
+        ],
+      },
+      {
+        title: "12. Suspension and termination",
+        blocks: [
+          "You may stop using echo at any time. echo may suspend or terminate your access at any time, with or without notice, if we reasonably believe you have violated these Terms, created risks for other users, exposed echo to legal liability or behaved abusively or inappropriately.",
+        ],
+      },
+      {
+        title: "13. Disclaimer of warranties",
+        blocks: [
+          'echo is provided "as is" and "as available", to the fullest extent permitted by law. We do not guarantee uninterrupted availability, error-free operation or that all content will always be safe or accurate.',
+        ],
+      },
+      {
+        title: "14. Limitation of liability",
+        blocks: [
+          "To the fullest extent permitted by law, echo and its operators will not be liable for any indirect, incidental, special, consequential, exemplary or punitive damages, or for any loss of profits, data, goodwill or business opportunities, arising out of or in connection with use of the service.",
+        ],
+      },
+      {
+        title: "15. Changes to these Terms",
+        blocks: [
+          'We may update these Terms of Use from time to time. The "Last updated" date shows when the most recent changes were made. By continuing to use echo after the updated Terms take effect, you accept the updated version, to the extent permitted by law.',
+        ],
+      },
+      {
+        title: "16. Contact",
+        blocks: [
+          "For questions about these Terms of Use, moderation actions or safety matters, contact us at [{email}](mailto:{email}).",
+        ],
+      },
+    ],
+  },
+
+  safety: {
+    metaTitle: "Child safety standards | PartyDispo",
+    metaDescription:
+      "Information about PartyDispo’s child safety standards and how to report concerns.",
+    title: "Child safety standards",
+    intro: [
+      "PartyDispo is committed to keeping the platform safe for all users. Posting, sharing or promoting content that involves the abuse, exploitation or sexualization of minors is not allowed.",
+    ],
+    sections: [
+      {
+        title: "Prohibited content",
+        blocks: [
+          {
+            list: [
+              "Any content that depicts or promotes the sexual abuse or exploitation of minors.",
+              "Content that sexualizes minors or encourages inappropriate interactions.",
+              "Illegal or non-consensual material, including links to or requests for such material.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "Moderation actions",
+        blocks: [
+          "In case of violations, PartyDispo may remove content, restrict features, or suspend or delete accounts. Where required by law, we cooperate with the competent authorities.",
+        ],
+      },
+      {
+        title: "Reporting",
+        blocks: [
+          "To report suspicious content or behavior, email us including, if possible, the event details (party name, date) and any useful information.",
+          "Contact email: [{email}](mailto:{email})",
+        ],
+      },
+      {
+        title: "Account deletion",
+        blocks: [
+          "You can request deletion of your account and associated data from the dedicated page: [/data-deletion](/data-deletion).",
+        ],
+      },
+    ],
+  },
+
+  dataDeletion: {
+    metaTitle: "Data deletion | echo",
+    metaDescription: "How to request deletion of your account and data in echo.",
+    title: "Data / account deletion",
+    intro: [
+      'You can delete your echo account directly in the app, on the **Profile** page, using the **"Delete account"** option. Alternatively, you can request deletion of your account and associated data by emailing [{email}](mailto:{email}).',
+      "In the email, include:",
+      {
+        list: [
+          "The email you use in echo",
+          "The associated phone number (if any)",
+          "Subject: “Account deletion request”",
+        ],
+      },
+      "We will reply as soon as possible to confirm that we have received your request.",
+    ],
+    sections: [],
+  },
+};
@@ -0,0 +1,16 @@
+// Testi legali per lingua. Separati dai cataloghi dei messaggi perché sono lunghi e servono solo ai server component.
+
+import { DEFAULT_LOCALE, type Locale } from "@/lib/i18n/config";
+import { legalEn } from "@/lib/i18n/legal/en";
+import { legalIt } from "@/lib/i18n/legal/it";
+import type { LegalDocuments } from "@/lib/i18n/legal/types";
+
+export type { LegalBlock, LegalDocument, LegalDocuments, LegalSection } from "@/lib/i18n/legal/types";
+
+export const LEGAL_CONTACT_EMAIL = "partydispo.app@gmail.com";
+
+const LEGAL: Record<Locale, LegalDocuments> = { it: legalIt, en: legalEn };
+
+export function getLegalDocuments(locale: Locale): LegalDocuments {
+  return LEGAL[locale] ?? LEGAL[DEFAULT_LOCALE];
+}
@@ -0,0 +1,349 @@
+// Testi legali in italiano (versione di riferimento).
+
+import type { LegalDocuments } from "@/lib/i18n/legal/types";
+
+export const legalIt: LegalDocuments = {
+  lastUpdatedLabel: "Ultimo aggiornamento:",
+  lastUpdated: "14 aprile 2026",
+
+  privacy: {
+    metaTitle: "Informativa sulla Privacy | echo",
+    metaDescription: "Come echo raccoglie, utilizza, conserva e condivide i dati personali.",
+    title: "Informativa sulla Privacy",
+    intro: [
+      'La presente Informativa sulla Privacy descrive come echo ("**echo**", "**noi**", "**nostro**") raccoglie, utilizza, conserva e condivide i dati personali quando utilizzi l\'app echo, il sito web e i servizi correlati.',
+    ],
+    sections: [
+      {
+        title: "1. Titolare del trattamento",
+        blocks: [
+          "Il titolare del trattamento dei dati personali descritti nella presente Informativa sulla Privacy è echo. Per richieste relative alla privacy, domande o richieste di cancellazione dell'account, puoi contattarci a [{email}](mailto:{email}).",
+        ],
+      },
+      {
+        title: "2. Dati personali raccolti",
+        blocks: [
+          "In base a come utilizzi echo, potremmo raccogliere le seguenti categorie di dati personali:",
+          {
+            list: [
+              "**Informazioni dell'account**, come nome, cognome, numero di telefono, indirizzo email e dettagli del profilo che scegli di fornire.",
+              "**Dati di autenticazione**, come i dati di verifica tramite codice temporaneo necessari per accedere in modo sicuro.",
+              "**Contenuti generati dagli utenti**, inclusi dettagli degli eventi, inviti, risposte di partecipazione, messaggi o contenuti inviati tramite il servizio e altri contenuti che carichi o condividi volontariamente.",
+              "**Informazioni relative ai pagamenti**, come metodi di pagamento selezionati, stato del pagamento o dettagli di conferma del pagamento condivisi all'interno dell'app. echo non memorizza intenzionalmente numeri completi di carte di pagamento.",
+              "**Informazioni tecniche e del dispositivo**, come token per notifiche push, tipo di dispositivo, sistema operativo, versione dell'app, dati di log, dati di crash e informazioni diagnostiche.",
+              "**Dati relativi a sicurezza e moderazione**, come segnalazioni inviate dagli utenti, liste di utenti bloccati, esiti di moderazione e informazioni necessarie per investigare contenuti inappropriati o comportamenti abusivi.",
+              "**Dati di utilizzo**, come interazioni con le funzionalità dell'app, flussi di partecipazione agli eventi e richieste di supporto.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "3. Come utilizziamo i dati personali",
+        blocks: [
+          "Utilizziamo i dati personali per:",
+          {
+            list: [
+              "creare, autenticare e gestire il tuo account;",
+              "fornire le principali funzionalità dell'app, incluse creazione eventi, inviti, gestione partecipazioni, funzionalità per organizzatori, flussi relativi ai pagamenti e notifiche;",
+              "gestire, mantenere, monitorare, diagnosticare e migliorare il servizio;",
+              "inviare comunicazioni transazionali e notifiche push relative al tuo account o ai tuoi eventi;",
+              "proteggere gli utenti, rilevare abusi, filtrare contenuti inappropriati, esaminare segnalazioni, investigare violazioni, bloccare utenti abusivi e rimuovere contenuti o account quando necessario;",
+              "adempiere a obblighi di legge e far rispettare i nostri Termini di utilizzo.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "4. Basi giuridiche del trattamento",
+        blocks: [
+          "Laddove previsto dalla normativa applicabile in materia di privacy, ci basiamo su una o più delle seguenti basi giuridiche:",
+          {
+            list: [
+              "**Esecuzione di un contratto**, quando il trattamento è necessario per fornire i servizi da te richiesti.",
+              "**Legittimo interesse**, inclusi sicurezza del servizio, prevenzione delle frodi, prevenzione degli abusi, moderazione, risoluzione di problemi tecnici e miglioramento del prodotto.",
+              "**Adempimento di obblighi legali**, quando dobbiamo trattare dati per rispettare la legge applicabile o richieste legittime delle autorità.",
+              "**Consenso**, ove il consenso sia richiesto, ad esempio per permessi opzionali non strettamente necessari al servizio.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "5. Contenuti generati dagli utenti, sicurezza e moderazione",
+        blocks: [
+          "echo può includere contenuti generati dagli utenti. Per mantenere un ambiente sicuro, possiamo utilizzare revisione manuale, filtri automatici, segnalazioni degli utenti e funzioni di blocco utenti per identificare e gestire contenuti inappropriati o comportamenti abusivi.",
+          "Quando invii una segnalazione o blocchi un altro utente, possiamo trattare i contenuti rilevanti, le informazioni dell'account, le informazioni relative all'evento e i segnali di sicurezza necessari per investigare la segnalazione, adottare misure di moderazione, rimuovere contenuti dalla tua esperienza e, ove opportuno, sospendere o terminare account.",
+          "Possiamo conservare registri di moderazione, dati di prevenzione degli abusi e cronologia delle segnalazioni nella misura necessaria a documentare le azioni intraprese, risolvere controversie, proteggere gli utenti e rispettare obblighi di legge.",
+        ],
+      },
+      {
+        title: "6. Condivisione dei dati personali",
+        blocks: [
+          "Non vendiamo i tuoi dati personali. Possiamo condividere dati personali solo nella misura ragionevolmente necessaria con:",
+          {
+            list: [
+              "**Fornitori di servizi tecnici** che ci aiutano a gestire l'app, l'infrastruttura backend, l'autenticazione, l'hosting, l'invio di email, l'analisi o le notifiche push;",
+              "**Altri utenti**, ma solo nella misura necessaria per le funzionalità sociali e di gestione eventi dell'app;",
+              "**Autorità o altri soggetti** quando richiesto dalla legge, da regolamenti, da procedimenti legali o per proteggere diritti, sicurezza e integrità del servizio;",
+              "**Successori o acquirenti**, nell'ambito di fusioni, acquisizioni, riorganizzazioni o cessioni di asset, nel rispetto della normativa applicabile.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "7. Notifiche push e comunicazioni",
+        blocks: [
+          "echo può inviare notifiche push, email o comunicazioni in-app relative a inviti, eventi, partecipazione, pagamenti, accesso all'account, azioni di moderazione, segnalazioni, misure di sicurezza e aggiornamenti del servizio. Puoi gestire alcuni permessi di notifica tramite le impostazioni del tuo dispositivo.",
+        ],
+      },
+      {
+        title: "8. Conservazione dei dati",
+        blocks: [
+          "Conserviamo i dati personali per il tempo necessario a fornire il servizio, mantenere la sicurezza, investigare abusi, adempiere a obblighi di legge, risolvere controversie e far rispettare i nostri accordi. I periodi di conservazione possono variare in base al tipo di dato e al motivo per cui è stato raccolto.",
+        ],
+      },
+      {
+        title: "9. Trasferimenti internazionali di dati",
+        blocks: [
+          "I tuoi dati possono essere trattati in Paesi diversi da quello in cui vivi, a seconda di dove operano i nostri fornitori di servizi. Quando richiesto, adottiamo misure ragionevoli per utilizzare adeguate garanzie nei trasferimenti internazionali.",
+        ],
+      },
+      {
+        title: "10. I tuoi diritti",
+        blocks: [
+          "In base alla tua posizione geografica e alla normativa applicabile, potresti avere il diritto di accedere, correggere, aggiornare, cancellare, limitare, opporti al trattamento o ricevere una copia dei tuoi dati personali. Potresti inoltre avere il diritto di revocare il consenso quando il consenso costituisce la base giuridica del trattamento.",
+          "Per esercitare i tuoi diritti, contattaci a [{email}](mailto:{email}). Potremmo dover verificare la tua identità prima di completare la richiesta.",
+        ],
+      },
+      {
+        title: "11. Richieste di cancellazione account e dati",
+        blocks: [
+          "Per richiedere la cancellazione del tuo account e dei dati personali associati, invia un'email a [{email}](mailto:{email}) con oggetto **Richiesta cancellazione account** e includi l'indirizzo email e, se disponibile, il numero di telefono associati al tuo account echo.",
+          "Potremmo conservare informazioni limitate quando necessario per conformità legale, prevenzione delle frodi, sicurezza, registri di moderazione, risoluzione di controversie o finalità di enforcement.",
+        ],
+      },
+      {
+        title: "12. Privacy dei minori",
+        blocks: [
+          "echo non è destinata a minori di età inferiore a quella minima consentita dalla legge applicabile e non raccogliamo consapevolmente dati personali di minori in violazione della normativa applicabile. Se ritieni che un minore abbia fornito impropriamente dati personali, contattaci così da poter verificare e adottare le misure appropriate.",
+        ],
+      },
+      {
+        title: "13. Sicurezza",
+        blocks: [
+          "Adottiamo misure amministrative, tecniche e organizzative ragionevoli volte a proteggere i dati personali. Tuttavia, nessun metodo di trasmissione o conservazione è completamente sicuro e non possiamo garantire una sicurezza assoluta.",
+        ],
+      },
+      {
+        title: "14. Modifiche alla presente Informativa sulla Privacy",
+        blocks: [
+          'Possiamo aggiornare periodicamente la presente Informativa sulla Privacy. La data di "Ultimo aggiornamento" sopra indicata mostra quando sono state apportate le modifiche più recenti. L\'utilizzo continuato di echo dopo un aggiornamento può essere considerato, ove consentito dalla legge, come presa visione della versione aggiornata dell\'Informativa sulla Privacy.',
+        ],
+      },
+      {
+        title: "15. Contatti",
+        blocks: [
+          "Per domande sulla privacy, richieste in materia di protezione dei dati, quesiti sulla privacy relativi alla moderazione o richieste di cancellazione account, contattaci a [{email}](mailto:{email}).",
+        ],
+      },
+    ],
+  },
+
+  terms: {
+    metaTitle: "Termini di utilizzo | echo",
+    metaDescription: "I termini che disciplinano l'accesso e l'uso di echo.",
+    title: "Termini di utilizzo",
+    intro: [
+      "I presenti Termini di utilizzo disciplinano l'accesso e l'uso di echo, inclusi l'app mobile, il sito web e i servizi correlati. Accedendo o utilizzando echo, accetti di essere vincolato dai presenti Termini di utilizzo, dall'Informativa sulla Privacy e dalle Regole della community.",
+    ],
+    sections: [
+      {
+        title: "1. Requisiti di idoneità",
+        blocks: [
+          "Puoi utilizzare echo solo se ciò ti è consentito dalla legge applicabile. Utilizzando echo, dichiari di avere la capacità giuridica necessaria per accettare i presenti Termini.",
+        ],
+      },
+      {
+        title: "2. Account e accesso",
+        blocks: [
+          "Potrebbe essere necessario creare un account per accedere ad alcune o a tutte le funzionalità di echo. Sei responsabile di fornire informazioni accurate e di mantenere la sicurezza del tuo account e delle tue credenziali di accesso.",
+          "Sei responsabile di tutte le attività svolte tramite il tuo account, salvo ove diversamente previsto dalla legge.",
+        ],
+      },
+      {
+        title: "3. Contenuti generati dagli utenti",
+        blocks: [
+          'echo può consentire agli utenti di creare, caricare, inviare, condividere o mostrare contenuti, inclusi dettagli di eventi, inviti, informazioni di partecipazione, conferme relative ai pagamenti, testi, immagini e altri materiali ("Contenuti degli utenti").',
+          "Rimani responsabile dei Contenuti degli utenti che invii e delle tue interazioni con altri utenti.",
+        ],
+      },
+      {
+        title: "4. Nessuna tolleranza per contenuti inappropriati o utenti abusivi",
+        blocks: [
+          "echo applica una politica di tolleranza zero verso contenuti inappropriati e comportamenti abusivi.",
+          "Non devi utilizzare echo per creare, caricare, condividere o promuovere contenuti che siano:",
+          {
+            list: [
+              "offensivi, diffamatori, molesti, abusivi, pieni d'odio o minacciosi;",
+              "sessualmente espliciti o sfruttatori;",
+              "violenti o che incoraggino la violenza;",
+              "discriminatori sulla base di razza, etnia, nazionalità, religione, genere, orientamento sessuale, disabilità o caratteristiche protette simili;",
+              "fraudolenti, ingannevoli o finalizzati a impersonare un'altra persona;",
+              "illeciti o volti a promuovere attività illegali;",
+              "lesivi della privacy o dei diritti di un'altra persona.",
+            ],
+          },
+          "Qualsiasi condotta abusiva verso altri utenti, inclusi molestie, intimidazioni, truffe o contatti indesiderati ripetuti, è severamente vietata.",
+        ],
+      },
+      {
+        title: "5. Segnalazioni e blocco utenti",
+        blocks: [
+          "echo può mettere a disposizione degli utenti meccanismi per segnalare contenuti inappropriati o utenti abusivi e per bloccare utenti abusivi.",
+          "Quando un utente blocca un altro utente, i contenuti dell'utente bloccato possono essere rimossi immediatamente dall'esperienza dell'utente che ha effettuato il blocco, ove applicabile.",
+          "Utilizzando echo, riconosci e accetti che le segnalazioni e le azioni di blocco possano essere esaminate e trattate da echo per finalità di sicurezza, moderazione e applicazione delle regole.",
+        ],
+      },
+      {
+        title: "6. Moderazione e applicazione delle regole",
+        blocks: [
+          "echo si riserva il diritto, ma non l'obbligo, di esaminare, filtrare, limitare, rimuovere o rifiutare contenuti; avvisare utenti; limitare l'accesso a funzionalità; sospendere account; o terminare permanentemente account che violino i presenti Termini, le Regole della community o la legge applicabile.",
+          "echo può intervenire sulle segnalazioni di contenuti inappropriati e utenti abusivi e punta a esaminare le segnalazioni valide entro 24 ore.",
+          "Possiamo rimuovere contenuti illeciti o vietati ed espellere utenti che forniscano contenuti proibiti o che assumano comportamenti abusivi.",
+        ],
+      },
+      {
+        title: "7. Licenza d'uso di echo",
+        blocks: [
+          "A condizione che tu rispetti i presenti Termini, echo ti concede una licenza limitata, non esclusiva, non trasferibile e revocabile per accedere e utilizzare il servizio per finalità personali e non commerciali.",
+          "Non puoi copiare, modificare, distribuire, vendere, concedere in licenza, fare reverse engineering o altrimenti sfruttare qualsiasi parte di echo, salvo quanto espressamente consentito dalla legge o previa autorizzazione scritta.",
+        ],
+      },
+      {
+        title: "8. Le tue responsabilità",
+        blocks: [
+          "Accetti di non:",
+          {
+            list: [
+              "violare i presenti Termini o qualsiasi legge applicabile;",
+              "utilizzare echo per danneggiare, molestare, sfruttare o ingannare altri;",
+              "tentare di ottenere accessi non autorizzati a sistemi o account;",
+              "interferire con il corretto funzionamento o la sicurezza del servizio;",
+              "caricare malware, codice malevolo o contenuti dannosi;",
+              "utilizzare strumenti automatici per accedere o effettuare scraping del servizio senza autorizzazione.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "9. Licenza sui contenuti degli utenti",
+        blocks: [
+          "Per consentire il funzionamento del servizio, concedi a echo una licenza limitata, non esclusiva, mondiale e gratuita per ospitare, conservare, trattare, riprodurre e mostrare i tuoi Contenuti degli utenti esclusivamente allo scopo di gestire, migliorare, proteggere e moderare il servizio.",
+        ],
+      },
+      {
+        title: "10. Pagamenti e servizi di terze parti",
+        blocks: [
+          "Alcune funzionalità possono includere flussi relativi ai pagamenti o link a servizi di terze parti. echo non è responsabile per fornitori di pagamento, siti web o servizi di terzi e il tuo utilizzo di tali servizi può essere disciplinato da termini e informative sulla privacy separati.",
+        ],
+      },
+      {
+        title: "11. Privacy",
+        blocks: [
+          "L'utilizzo di echo è disciplinato anche dalla nostra Informativa sulla Privacy. Puoi contattarci a [{email}](mailto:{email}) per richieste relative alla privacy.",
+        ],
+      },
+      {
+        title: "12. Sospensione e cessazione",
+        blocks: [
+          "Puoi interrompere l'utilizzo di echo in qualsiasi momento. echo può sospendere o terminare il tuo accesso in qualsiasi momento, con o senza preavviso, se riteniamo ragionevolmente che tu abbia violato i presenti Termini, creato rischi per altri utenti, esposto echo a responsabilità legali o tenuto comportamenti abusivi o inappropriati.",
+        ],
+      },
+      {
+        title: "13. Esclusioni di garanzia",
+        blocks: [
+          'echo è fornita "così com\'è" e "come disponibile", nella massima misura consentita dalla legge. Non garantiamo disponibilità ininterrotta, funzionamento privo di errori o che tutti i contenuti siano sempre sicuri o accurati.',
+        ],
+      },
+      {
+        title: "14. Limitazione di responsabilità",
+        blocks: [
+          "Nella misura massima consentita dalla legge, echo e i suoi gestori non saranno responsabili per danni indiretti, incidentali, speciali, consequenziali, esemplari o punitivi, né per perdita di profitti, dati, avviamento o opportunità di business, derivanti da o connessi all'utilizzo del servizio.",
+        ],
+      },
+      {
+        title: "15. Modifiche ai Termini",
+        blocks: [
+          'Possiamo aggiornare periodicamente i presenti Termini di utilizzo. La data di "Ultimo aggiornamento" indica quando sono state apportate le modifiche più recenti. Continuando a utilizzare echo dopo l\'entrata in vigore dei Termini aggiornati, accetti la versione aggiornata, nella misura consentita dalla legge.',
+        ],
+      },
+      {
+        title: "16. Contatti",
+        blocks: [
+          "Per domande sui presenti Termini di utilizzo, sulle azioni di moderazione o su questioni relative alla sicurezza, contattaci a [{email}](mailto:{email}).",
+        ],
+      },
+    ],
+  },
+
+  safety: {
+    metaTitle: "Standard di sicurezza dei minori | PartyDispo",
+    metaDescription:
+      "Informazioni sugli standard di sicurezza di PartyDispo relativi alla protezione dei minori e sulle modalità di segnalazione.",
+    title: "Standard di sicurezza dei minori",
+    intro: [
+      "PartyDispo si impegna a mantenere la piattaforma sicura per tutti gli utenti. Non è consentito pubblicare, condividere o promuovere contenuti che includano abuso, sfruttamento o sessualizzazione di minori.",
+    ],
+    sections: [
+      {
+        title: "Contenuti vietati",
+        blocks: [
+          {
+            list: [
+              "Qualsiasi contenuto che raffiguri o promuova abuso o sfruttamento sessuale di minori.",
+              "Contenuti che sessualizzano minori o incentivano interazioni inappropriate.",
+              "Materiale illegale o non consensuale, inclusi link o richieste di tale materiale.",
+            ],
+          },
+        ],
+      },
+      {
+        title: "Azioni di moderazione",
+        blocks: [
+          "In caso di violazioni, PartyDispo può rimuovere contenuti, limitare funzionalità, sospendere o eliminare account. Nei casi in cui sia richiesto dalla legge, collaboriamo con le autorità competenti.",
+        ],
+      },
+      {
+        title: "Segnalazioni",
+        blocks: [
+          "Per segnalare contenuti o comportamenti sospetti, contattaci via email indicando, se possibile, i dettagli dell’evento (nome festa, data) e qualsiasi informazione utile.",
+          "Email di contatto: [{email}](mailto:{email})",
+        ],
+      },
+      {
+        title: "Eliminazione account",
+        blocks: [
+          "Puoi richiedere la cancellazione del tuo account e dei dati associati dalla pagina dedicata: [/data-deletion](/data-deletion).",
+        ],
+      },
+    ],
+  },
+
+  dataDeletion: {
+    metaTitle: "Cancellazione dati | echo",
+    metaDescription: "Come richiedere la cancellazione dell'account e dei dati in echo.",
+    title: "Cancellazione dati / account",
+    intro: [
+      'Puoi cancellare il tuo account echo direttamente dall\'app, nella pagina **Profilo**, utilizzando l\'opzione **"Elimina account"**. In alternativa, puoi richiedere la cancellazione del tuo account e dei dati associati inviando una email a [{email}](mailto:{email}).',
+      "Nell’email indica:",
+      {
+        list: [
+          "Email usata in echo",
+          "Numero di telefono associato (se presente)",
+          "Oggetto: “Richiesta cancellazione account”",
+        ],
+      },
+      "Ti risponderemo appena possibile per confermare la presa in carico della richiesta.",
+    ],
+    sections: [],
+  },
+};
@@ -0,0 +1,26 @@
+// Struttura dei testi legali. Ogni blocco è un paragrafo oppure un elenco puntato;
+// nel testo sono ammessi **grassetto**, [link](href) e il segnaposto {email}.
+
+export type LegalBlock = string | { list: string[] };
+
+export type LegalSection = {
+  title: string;
+  blocks: LegalBlock[];
+};
+
+export type LegalDocument = {
+  metaTitle: string;
+  metaDescription: string;
+  title: string;
+  intro: LegalBlock[];
+  sections: LegalSection[];
+};
+
+export type LegalDocuments = {
+  lastUpdatedLabel: string;
+  lastUpdated: string;
+  privacy: LegalDocument;
+  terms: LegalDocument;
+  safety: LegalDocument;
+  dataDeletion: LegalDocument;
+};
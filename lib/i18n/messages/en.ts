@@ -0,0 +1,458 @@
+// Catalogo inglese: stessa forma del catalogo italiano (il tipo Messages impedisce chiavi mancanti).
+
+import type { Messages } from "@/lib/i18n";
+
+export const en: Messages = {
+  meta: {
+    title: "echo",
+    description: "Plan parties and manage invites easily with echo.",
+  },
+
+  common: {
+    loading: "Loading…",
+    oops: "Oops",
+    sending: "Sending…",
+    downloadApp: "Get the app",
+    language: "Language",
+  },
+
+  party: {
+    fallbackTitle: "Event",
+    type: {
+      paid: "Paid",
+      free: "Free",
+      byob: "Bring your own",
+    },
+  },
+
+  invite: {
+    meta: {
+      neutralTitle: "You’re invited | echo",
+      neutralDescription: "You received a private invite on echo. Open the link to reply.",
+      respondCta: "Reply to the invite on echo.",
+      // card social (og:image)
+      cardKicker: "echo · You’re invited",
+      cardFooter: "Open the link to reply to the invite",
+    },
+    heroTitle: "You’re invited",
+    app: {
+      title: "Get echo 🔥",
+      perks: [
+        "Instant notifications when you get approved",
+        "Event location and time as soon as they’re available",
+        "Live info and updates",
+        "The party’s disposable camera, right on your phone",
+      ],
+      cta: "Get echo",
+      continueOnWeb: "I’d rather continue on the web",
+      skipHint: "Rather not download it? Reply below.",
+      notAvailable: "The app isn’t available on the stores yet. Please try again later.",
+    },
+    auth: {
+      continueAs: "Continue as {name}",
+      notYou: "Not you? Sign out",
+      title: "Sign in",
+      intro: "Enter your details. We’ll send you a code by email or text message to confirm it’s you.",
+      firstName: "First name",
+      lastName: "Last name",
+      phone: "Phone",
+      phoneCountry: "Phone number country",
+      email: "Email",
+      male: "Man",
+      female: "Woman",
+      other: "Other",
+      channelLabel: "Get the code by",
+      channelEmail: "Email",
+      channelSms: "Text message",
+      sendCode: "Send code",
+      retryIn: "Try again in {seconds}s",
+    },
+    verify: {
+      title: "Enter the code",
+      sentTo: "We sent a code to",
+      sentToPhone: "We texted a code to",
+      changeEmail: "Change email",
+      changePhone: "Change number",
+      codePlaceholder: "Sign-in code",
+      verifying: "Verifying…",
+      submit: "Verify and continue",
+      resend: "Resend code",
+      resendIn: "Resend in {seconds}s",
+    },
+    details: {
+      dateUnavailable: "(date not available)",
+      locationHint: "Location and time will only be visible in the app.",
+    },
+    rsvp: {
+      full: "This party is full: if you reply “I’m in” you’ll join the waitlist.",
+      spotsLeft: "Spots left: {count}",
+      deadline: "You can change your mind until {deadline}.",
+      closedSince: "Replies closed on {deadline}.",
+      closed: "Replies for this party are closed.",
+      change: "Change reply",
+      editPreferences: "Edit preferences",
+      withdraw: "Withdraw reply",
+      keepAnswer: "Keep my previous reply",
+      title: "Let us know if you’re coming",
+      withPreferences: "Tell us your preferences too",
+      intro: "Your reply will be sent to the organizer. You’ll get a confirmation email",
+      yes: "I’m in",
+      no: "Can’t make it",
+      sending: "Sending your reply to the organizer…",
+      alreadySent: "Reply already sent.",
+    },
+    prefs: {
+      title: "What would you like to drink",
+      noProducts: "The organizer hasn’t made any products available yet.",
+      sections: {
+        alcoholic: "Alcoholic",
+        soft: "Non-alcoholic",
+        other: "Other",
+      },
+      howMuch: "How much do you want to drink?",
+      levels: {
+        none: "I don’t drink",
+        moderate: "Moderate",
+        heavy: "A lot",
+      },
+      hintStart: "First choose what you’d like to drink or say that you don’t drink, then send your reply.",
+      hintIncomplete:
+        "Your preferences are incomplete: if you drink, pick at least one alcoholic drink; if you don’t, you can’t keep alcoholic drinks selected.",
+      hintComplete: "Preferences complete. You can now send your reply.",
+      submit: "Save preferences and send",
+      back: "Go back",
+    },
+    done: {
+      trackStatus: "Track your request status",
+      waitlistedTitle: "You’re on the waitlist.",
+      waitlistedText: "This party is full. If a spot frees up you’ll get in automatically and we’ll email you.",
+      waitlistedPosition:
+        "This party is full: you’re #{position} on the waitlist. If a spot frees up you’ll get in automatically and we’ll email you.",
+      approvedTitle: "You’re in!",
+      approvedText: "The organizer approved your request. You’ll find the location and time in the app.",
+      rejectedTitle: "Request not accepted.",
+      rejectedText: "The organizer didn’t approve your request for this party.",
+      statusLabel: "Status",
+      declinedTitle: "Reply sent.",
+      declinedText: "We let the organizer know you won’t be there.",
+      requestedTitle: "Request sent.",
+      requestedText: "The organizer will receive your request and confirm you as soon as possible.",
+      appTitle: "Want to know the moment you’re in?",
+      appText: "Get echo and receive a notification as soon as the organizer approves you.",
+      mailHint: "Otherwise, keep an eye on your inbox",
+    },
+    companions: {
+      title: "Bringing someone? (max {max})",
+      hint: "Add the full name of whoever is coming with you, so the organizer knows how many you are.",
+      namePlaceholder: "Guest {n} name",
+      remove: "Remove guest",
+      addPreferences: "+ Drink preferences",
+      removePreferences: "No preferences",
+      add: "+ Add a guest ({count}/{max})",
+      summary: "With you: {names} · {count} of you in total",
+    },
+    calendar: {
+      title: "Save it to your calendar",
+      download: "Download .ics (Apple, Outlook…)",
+      google: "Google Calendar",
+      outlook: "Outlook.com",
+      description: "echo invite. The location will be visible in the app once the organizer approves you.",
+      notFound: "Invite not found, expired or without a date.",
+    },
+    errors: {
+      companionName: "Enter a name for each guest (or remove empty rows).",
+      tooManyCompanions: "The plus-one limit for this invite is {max}.",
+      withdrawFailed: "Couldn’t withdraw your reply. Please try again.",
+      phone: {
+        empty: "Enter your phone number.",
+        international: "Check the number: after the + it needs the country code and 8 to 15 digits in total.",
+        tooShort: "Number too short for the selected country ({country}).",
+        tooLong: "Number too long for the selected country ({country}).",
+        invalid: "This number doesn’t look valid for the selected country ({country}). Check the prefix and digits.",
+      },
+      missingToken: "Invalid link: the token is missing or the URL is wrong.",
+      previewFailed: "Couldn’t load the event details. Please try again shortly.",
+      notFound: "Invite not found or no longer valid.",
+      expired: "This invite has expired.",
+      partialLoad: "Couldn’t load all the invite details. You can still reply.",
+      otpCooldown: "For security, you can request a new code in {seconds}s.",
+      tooManyCodes: "You requested too many codes. Try again in a few seconds.",
+      fillAll: "Please fill in first name, last name, phone and email.",
+      fillProfile: "Please fill in first name, last name and phone.",
+      enterValidEmail: "Please enter a valid email.",
+      invalidEmail: "Invalid email.",
+      invalidLink: "Invalid link.",
+      sendFailed: "Couldn’t send the code. Please try again.",
+      smsSendFailed: "Couldn’t send the text message. Check the number or get the code by email.",
+      otpLength: "Enter the {digits} digits of the sign-in code.",
+      codeExpired: "Code expired. Tap “Resend code” and use the LATEST code you received.",
+      codeInvalid: "Invalid or expired code. Make sure you use the LATEST code you received.",
+      codeInvalidDetailed:
+        "Invalid or expired code. Check that you entered all 8 digits and that it’s the latest code you received.",
+      sessionInit: "Signed in, but the session couldn’t be started. Please try again.",
+      loginFailed: "Sign-in failed. Please try again.",
+      profileSaveFailed: "You’re signed in, but your details couldn’t be saved. You can still reply.",
+      sessionInvalid: "Invalid session. Please try again.",
+      respondFailed: "Couldn’t record your reply. Please try again.",
+      inviteInvalid: "Invalid or expired invite. Ask the organizer to send it again.",
+      prefsInconsistent:
+        "To continue your preferences must be consistent: if you choose “I don’t drink” you can’t select alcoholic drinks; if you drink you must select at least one alcoholic drink.",
+      joinFailed: "Couldn’t send your reply. Please try again.",
+      prefsSaveFailed: "Couldn’t save your preferences or send your reply. Please try again.",
+    },
+  },
+
+  status: {
+    metaTitle: "Request status | echo",
+    loadFailed: "Couldn’t load the status of your request. Please try again shortly.",
+    signedOutTitle: "Sign in to see your status",
+    signedOutText: "Open the invite and sign in with the same number or email you used to reply.",
+    openInvite: "Open the invite",
+    manageAnswer: "Manage your reply",
+    noAnswerTitle: "You haven’t replied yet",
+    noAnswerText: "Reply to the invite to ask the organizer to let you in.",
+    declinedTitle: "You said you can’t make it",
+    declinedText: "You can change your mind from the invite while replies are open.",
+    pendingTitle: "Pending",
+    pendingText: "The organizer hasn’t decided yet. This page updates by itself.",
+    approvedTitle: "Approved 🎉",
+    approvedText: "You’re in! The location and time are in the echo app.",
+    rejectedTitle: "Not approved",
+    rejectedText: "The organizer didn’t approve your request for this party.",
+    waitlistedTitle: "On the waitlist",
+    waitlistedText: "This party is full. If a spot frees up you’ll get in automatically.",
+    waitlistedPosition: "You’re #{position} on the waitlist. If a spot frees up you’ll get in automatically.",
+    live: "Live updates",
+    polling: "Refreshing automatically every 30 seconds",
+    connecting: "Connecting…",
+  },
+  poster: {
+    metaTitle: "Invite poster | echo",
+    unavailableTitle: "Invite not available",
+    unavailableText: "The link isn’t valid or the invite has expired.",
+    scanHint: "Scan the QR code to reply to the invite",
+    print: "Print poster",
+  },
+
+  pay: {
+    title: "Party payment",
+    fee: "Fee: {amount}",
+    currentStatus: "Current status",
+    labels: {
+      invite: "Invite",
+      method: "Method",
+      payment: "Payment",
+    },
+    approvalStatus: {
+      waitlisted: "On the waitlist",
+      approved: "Approved",
+      rejected: "Declined",
+      pending_approval: "Pending",
+      pending: "Pending",
+    },
+    paymentMethod: {
+      card: "Card",
+      cash: "Cash",
+      paypal: "PayPal",
+      satispay: "Satispay",
+    },
+    paymentStatus: {
+      paid: "Paid",
+      unpaid: "Not paid",
+      pending: "Pending",
+      pending_review: "Under review",
+    },
+    methodNone: "not selected",
+    statusUnavailable: "not available",
+    invalidLink: "Invalid or expired link.",
+    confirmedTitle: "Payment confirmed ✅",
+    confirmedText: "Your payment went through. See you at the party.",
+    receiptLink: "View receipt",
+    receiptPdf: "Download receipt (PDF)",
+    chooseTitle: "Choose how to pay",
+    chooseText:
+      "Depending on what the organizers chose, you can pay with Satispay, PayPal or cash. If you pay online, come back here and confirm: you’ll get an email once the organizer verifies the payment.",
+    openSatispay: "Open Satispay",
+    paidSatispay: "I paid with Satispay",
+    openPaypal: "Open PayPal",
+    paidPaypal: "I paid with PayPal",
+    payCash: "I’ll pay cash",
+    requestSentTitle: "Request sent ✅",
+    requestSentText:
+      "We notified the organizer. You’ll get a confirmation email once the payment is verified and completed.",
+    cashSent:
+      "Your cash payment request was sent. You’ll get a confirmation email once the organizer has verified the payment.",
+    claimSent:
+      "Your payment confirmation request was sent to the organizer. You’ll get a confirmation email once the payment is verified and completed.",
+    live: "Live updates",
+    polling: "Refreshing automatically every 30 seconds",
+    connecting: "Connecting…",
+    reference: "If the app doesn’t fill it in, use this payment note: {reference}",
+    card: {
+      pay: "Pay {amount} by card",
+      hint: "Secure payment with Stripe: it’s confirmed automatically, no need to wait for the organizer.",
+      processingTitle: "Card payment in progress…",
+      processingText: "We’re waiting for Stripe to confirm it: this page updates by itself.",
+      cancelled: "Card payment cancelled. You can try again or choose another method.",
+    },
+    proof: {
+      title: "Proof of payment (optional)",
+      hint: "If you paid with Satispay or PayPal, attach the screenshot or PDF of the transaction before confirming. JPG, PNG, WebP or PDF, up to {mb} MB.",
+      choose: "Attach screenshot or PDF",
+      replace: "Change file",
+      remove: "Remove",
+      privacy: "Only you and the organizer can see it.",
+      errors: {
+        empty: "The file is empty.",
+        tooLarge: "The file is larger than {mb} MB.",
+        type: "Unsupported format: use JPG, PNG, WebP or PDF.",
+      },
+    },
+    errors: {
+      loadFailed: "Couldn’t load the payment page.",
+      cashFailed: "Couldn’t save the cash payment.",
+      updateFailed: "Couldn’t update the payment.",
+      cardFailed: "Couldn’t start the card payment. Please try again shortly.",
+      proofUploadFailed: "Couldn’t upload the proof of payment. Try again or confirm without it.",
+      generic: "Something went wrong.",
+    },
+  },
+
+  receipt: {
+    metaTitle: "Payment receipt | echo",
+    title: "Payment receipt",
+    number: "Receipt no. {number}",
+    labels: {
+      party: "Party",
+      date: "Date",
+      amount: "Amount",
+      method: "Method",
+      confirmedAt: "Confirmed on",
+    },
+    note: "Receipt generated by echo as a record of your payment to the party organizer. It is not a tax document.",
+    print: "Print",
+    downloadPdf: "Download PDF",
+    backToPayment: "Back to payment",
+    unavailableTitle: "Receipt not available",
+    unavailableText: "The receipt is available from this link once the organizer has confirmed your payment.",
+    notFound: "Receipt not available.",
+  },
+
+  get: {
+    title: "Get the app",
+    intro: "To see the event’s location, time and live updates, you’re better off using echo.",
+    perksTitle: "With the app you get",
+    perks: [
+      "Instant notifications when you get approved",
+      "Event location and time (as soon as they’re available)",
+      "Live info and updates",
+      "One-tap “vintage” shots, disposable camera style",
+    ],
+    appStore: "Download on the App Store",
+    appStoreUnavailable: "App Store (not available)",
+    googlePlay: "Get it on Google Play",
+    googlePlayUnavailable: "Google Play (not available)",
+    openApp: "Open the app (if already installed)",
+    storeNote: "Note: store links aren’t available yet. Once the app is published, set the env vars:",
+    storeNoteAnd: "and",
+  },
+
+  landing: {
+    nav: {
+      features: "Features",
+      experience: "Experience",
+      reviews: "Reviews",
+    },
+    hero: {
+      badge: "For private events that leave an echo",
+      title: "The app that makes parties better, simpler, more alive.",
+      text: "Echo helps you organize private events with polished invites, smart guest management, tidy payments and a disposable gallery that keeps people talking about the night long after it ends.",
+      primaryCta: "Get echo",
+      secondaryCta: "See how it works",
+      mockupAlt: "echo app preview",
+    },
+    stats: [
+      { label: "Experience", value: "mobile-first" },
+      { label: "Invites", value: "private" },
+      { label: "Photos", value: "disposable" },
+    ],
+    showcase: {
+      badge: "Designed to convert",
+      title: "A landing page should make you want the app. Everything here pushes in that direction.",
+      text: "That’s why the message is clear, the screens take center stage and the app’s strengths are obvious right away.",
+      cards: [
+        {
+          title: "Invite only who you want",
+          text: "Echo is built for private events: requests, approvals and full control of the guest list.",
+        },
+        {
+          title: "Handle pooled payments and confirmations too",
+          text: "When needed, keep payments, fees and guest status in order without leaving the event flow.",
+        },
+        {
+          title: "Make the night more memorable",
+          text: "Photos aren’t just a gallery: they become part of the experience, with a more fun and polished reveal.",
+        },
+      ],
+    },
+    features: {
+      badge: "Features",
+      title: "Everything you need to run a private event, without the friction.",
+      cards: [
+        {
+          eyebrow: "Invites",
+          title: "Create an invite that really feels like an event.",
+          text: "Private links, approvals and event details in a simple flow that looks far better than the usual group chat.",
+        },
+        {
+          eyebrow: "Management",
+          title: "Keep everything under control without losing your mind.",
+          text: "Guests, confirmations, requests and payments organized in a single experience designed for your phone.",
+        },
+        {
+          eyebrow: "Memories",
+          title: "Relive the night with a disposable gallery.",
+          text: "Photos unlock at the right moment, so the event stays alive even after the party.",
+        },
+      ],
+    },
+    reviews: {
+      badge: "Social proof",
+      title: "Made for people who throw parties that really have to work.",
+      items: [
+        {
+          quote:
+            "Finally a nice, tidy way to organize a private party without getting lost in chats, lists and scattered confirmations.",
+          name: "Marco R.",
+          place: "Milan",
+        },
+        {
+          quote: "The best part is guest management: approvals, attendance and event details all in one place.",
+          name: "Chiara T.",
+          place: "Bologna",
+        },
+        {
+          quote: "The disposable camera effect gives the night real personality. It doesn’t feel like the usual events app.",
+          name: "Luca P.",
+          place: "Rome",
+        },
+        {
+          quote: "Very clear, very clean and above all built for real mobile use. It feels like a truly polished product.",
+          name: "Giulia S.",
+          place: "Turin",
+        },
+      ],
+    },
+    download: {
+      badge: "Download echo",
+      title: "The next party you throw can feel like a memory before it even starts.",
+      text: "Get echo and turn invites, management and gallery into a more polished, more shareable and far more memorable experience.",
+      secondaryCta: "Explore the features",
+    },
+    footer: {
+      rights: "© 2026 echo. All rights reserved.",
+      privacy: "Privacy",
+      download: "Get echo",
+    },
+  },
+};
@@ -0,0 +1,459 @@
+// Catalogo italiano: è la lingua di riferimento, la forma di questo oggetto definisce il tipo Messages.
+// I segnaposto {nome} vengono sostituiti da t(); i testi usano l'apostrofo tipografico ’.
+
+export const it = {
+  meta: {
+    title: "echo",
+    description: "Organizza feste e gestisci inviti facilmente con echo.",
+  },
+
+  common: {
+    loading: "Caricamento…",
+    oops: "Ops",
+    sending: "Invio…",
+    downloadApp: "Scarica l’app",
+    language: "Lingua",
+  },
+
+  party: {
+    fallbackTitle: "Evento",
+    type: {
+      paid: "A pagamento",
+      free: "Gratis",
+      byob: "Porta il tuo",
+    },
+  },
+
+  invite: {
+    meta: {
+      neutralTitle: "Sei stato invitato | echo",
+      neutralDescription: "Hai ricevuto un invito privato su echo. Apri il link per rispondere.",
+      respondCta: "Rispondi all’invito su echo.",
+      // card social (og:image)
+      cardKicker: "echo · Sei stato invitato",
+      cardFooter: "Apri il link per rispondere all’invito",
+    },
+    heroTitle: "Sei stato invitato",
+    app: {
+      title: "Scarica echo 🔥",
+      perks: [
+        "Notifiche istantanee quando vieni approvato",
+        "Luogo e orario dell’evento appena disponibili",
+        "Info e aggiornamenti in tempo reale",
+        "Fotocamera usa e getta della festa, nel tuo telefono",
+      ],
+      cta: "Scarica echo",
+      continueOnWeb: "Preferisco continuare sul web",
+      skipHint: "Preferisci non scaricarla? Rispondi qui sotto.",
+      notAvailable: "L’app non è ancora disponibile sugli store. Riprova più avanti.",
+    },
+    auth: {
+      continueAs: "Continua come {name}",
+      notYou: "Non sei tu? Esci",
+      title: "Accedi",
+      intro: "Inserisci i tuoi dati. Ti invieremo un codice via email o SMS per confermare l’accesso.",
+      firstName: "Nome",
+      lastName: "Cognome",
+      phone: "Telefono",
+      phoneCountry: "Paese del numero",
+      email: "Email",
+      male: "Uomo",
+      female: "Donna",
+      other: "Altro",
+      channelLabel: "Ricevi il codice via",
+      channelEmail: "Email",
+      channelSms: "SMS",
+      sendCode: "Invia codice",
+      retryIn: "Riprova tra {seconds}s",
+    },
+    verify: {
+      title: "Inserisci il codice",
+      sentTo: "Ti abbiamo inviato un codice a",
+      sentToPhone: "Ti abbiamo inviato un SMS con il codice al",
+      changeEmail: "Cambia email",
+      changePhone: "Cambia numero",
+      codePlaceholder: "Codice di accesso",
+      verifying: "Verifica…",
+      submit: "Verifica e continua",
+      resend: "Reinvia codice",
+      resendIn: "Reinvia tra {seconds}s",
+    },
+    details: {
+      dateUnavailable: "(data non disponibile)",
+      locationHint: "Luogo e orario saranno visibili solo dentro l’app.",
+    },
+    rsvp: {
+      full: "La festa è al completo: se rispondi “Ci sono” entri in lista d’attesa.",
+      spotsLeft: "Posti rimasti: {count}",
+      deadline: "Puoi cambiare idea fino a {deadline}.",
+      closedSince: "Le risposte sono chiuse dal {deadline}.",
+      closed: "Le risposte per questa festa sono chiuse.",
+      change: "Cambia risposta",
+      editPreferences: "Modifica preferenze",
+      withdraw: "Ritira risposta",
+      keepAnswer: "Lascia la risposta com’era",
+      title: "Facci sapere se ci sei",
+      withPreferences: "Indica anche le tue preferenze",
+      intro: "La tua risposta verrà inviata all’organizzatore. Riceverai una mail di conferma",
+      yes: "Ci sono",
+      no: "Non ci sono",
+      sending: "Sto inviando la tua risposta all’organizzatore…",
+      alreadySent: "Risposta già inviata.",
+    },
+    prefs: {
+      title: "Cosa vuoi bere",
+      noProducts: "Al momento l’organizzatore non ha reso disponibili prodotti selezionabili.",
+      sections: {
+        alcoholic: "Alcolici",
+        soft: "Analcolici",
+        other: "Altro",
+      },
+      howMuch: "Quanto vuoi bere?",
+      levels: {
+        none: "Non bevo",
+        moderate: "Moderato",
+        heavy: "Carico",
+      },
+      hintStart: "Prima scegli cosa vuoi bere oppure indica che non bevi, poi invia la partecipazione.",
+      hintIncomplete:
+        "Le preferenze non sono complete: se scegli di bere devi indicare almeno un alcolico; se non bevi non puoi lasciare alcolici selezionati.",
+      hintComplete: "Preferenze complete. Ora puoi inviare la tua partecipazione.",
+      submit: "Salva preferenze e invia",
+      back: "Torna indietro",
+    },
+    done: {
+      trackStatus: "Segui lo stato della richiesta",
+      waitlistedTitle: "Sei in lista d’attesa.",
+      waitlistedText: "La festa è al completo. Se si libera un posto entri automaticamente e ti avvisiamo via email.",
+      waitlistedPosition:
+        "La festa è al completo: sei n. {position} in lista d’attesa. Se si libera un posto entri automaticamente e ti avvisiamo via email.",
+      approvedTitle: "Sei dentro!",
+      approvedText: "L’organizzatore ha approvato la tua richiesta. Trovi luogo e orario nell’app.",
+      rejectedTitle: "Richiesta non accettata.",
+      rejectedText: "L’organizzatore non ha approvato la tua richiesta per questa festa.",
+      statusLabel: "Stato",
+      declinedTitle: "Risposta inviata.",
+      declinedText: "Abbiamo fatto sapere all’organizzatore che non ci sarai.",
+      requestedTitle: "Richiesta inviata.",
+      requestedText: "L’organizzatore riceverà la tua richiesta e ti confermerà al più presto.",
+      appTitle: "Vuoi sapere subito quando sei dentro?",
+      appText: "Scarica echo e ricevi una notifica non appena l’organizzatore ti approva.",
+      mailHint: "Altrimenti guarda nelle mail",
+    },
+    companions: {
+      title: "Porti qualcuno? (max {max})",
+      hint: "Aggiungi nome e cognome di chi viene con te, così l’organizzatore sa quanti siete.",
+      namePlaceholder: "Nome accompagnatore {n}",
+      remove: "Rimuovi accompagnatore",
+      addPreferences: "+ Preferenze drink",
+      removePreferences: "Nessuna preferenza",
+      add: "+ Aggiungi accompagnatore ({count}/{max})",
+      summary: "Con te: {names} · in totale siete {count}",
+    },
+    calendar: {
+      title: "Segnatelo in calendario",
+      download: "Scarica .ics (Apple, Outlook…)",
+      google: "Google Calendar",
+      outlook: "Outlook.com",
+      description: "Invito echo. Il luogo sarà visibile nell’app dopo l’approvazione dell’organizzatore.",
+      notFound: "Invito non trovato, scaduto o senza data.",
+    },
+    errors: {
+      companionName: "Inserisci il nome di ogni accompagnatore (o rimuovi le righe vuote).",
+      tooManyCompanions: "Il limite di accompagnatori per questo invito è {max}.",
+      withdrawFailed: "Non sono riuscito a ritirare la risposta. Riprova.",
+      phone: {
+        empty: "Inserisci il numero di telefono.",
+        international: "Controlla il numero: dopo il + servono il prefisso del paese e da 8 a 15 cifre in tutto.",
+        tooShort: "Numero troppo corto per il paese scelto ({country}).",
+        tooLong: "Numero troppo lungo per il paese scelto ({country}).",
+        invalid: "Il numero non sembra valido per il paese scelto ({country}). Controlla prefisso e cifre.",
+      },
+      missingToken: "Link non valido: token mancante o URL non corretta.",
+      previewFailed: "Non riesco a caricare i dettagli dell’evento. Riprova tra poco.",
+      notFound: "Invito non trovato o non più valido.",
+      expired: "Questo invito è scaduto.",
+      partialLoad: "Non riesco a caricare tutti i dettagli dell’invito. Puoi comunque rispondere.",
+      otpCooldown: "Per sicurezza puoi richiedere un nuovo codice tra {seconds}s.",
+      tooManyCodes: "Hai richiesto troppi codici. Riprova tra qualche secondo.",
+      fillAll: "Compila nome, cognome, telefono ed email.",
+      fillProfile: "Compila nome, cognome e telefono.",
+      enterValidEmail: "Inserisci un’email valida.",
+      invalidEmail: "Email non valida.",
+      invalidLink: "Link non valido.",
+      sendFailed: "Non sono riuscito a inviare il codice. Riprova.",
+      smsSendFailed: "Non sono riuscito a inviare l’SMS. Controlla il numero o ricevi il codice via email.",
+      otpLength: "Inserisci le {digits} cifre del codice OTP.",
+      codeExpired: "Codice scaduto. Premi “Reinvia codice” e usa l’ULTIMO codice ricevuto.",
+      codeInvalid: "Codice non valido o scaduto. Assicurati di usare l’ULTIMO codice ricevuto.",
+      codeInvalidDetailed:
+        "Codice non valido o scaduto. Controlla di aver inserito le 8 cifre esatte e che sia l’ultimo codice ricevuto.",
+      sessionInit: "Accesso riuscito ma non riesco a inizializzare la sessione. Riprova.",
+      loginFailed: "Accesso non riuscito. Riprova.",
+      profileSaveFailed: "Accesso riuscito, ma non sono riuscito a salvare i tuoi dati. Puoi rispondere lo stesso.",
+      sessionInvalid: "Sessione non valida. Riprova.",
+      respondFailed: "Non sono riuscito a registrare la risposta. Riprova.",
+      inviteInvalid: "Invito non valido oppure scaduto. Chiedi all’organizzatore di reinviarlo.",
+      prefsInconsistent:
+        "Per continuare devi mantenere coerenti le preferenze: se scegli “Non bevo” non puoi selezionare alcolici; se scegli di bere devi selezionare almeno una bevanda alcolica.",
+      joinFailed: "Non sono riuscito a inviare la tua partecipazione. Riprova.",
+      prefsSaveFailed: "Non sono riuscito a salvare le preferenze o a inviare la risposta. Riprova.",
+    },
+  },
+
+  status: {
+    metaTitle: "Stato della richiesta | echo",
+    loadFailed: "Non riesco a caricare lo stato della tua richiesta. Riprova tra poco.",
+    signedOutTitle: "Accedi per vedere lo stato",
+    signedOutText: "Apri l’invito e accedi con lo stesso numero o la stessa email usati per rispondere.",
+    openInvite: "Apri l’invito",
+    manageAnswer: "Gestisci la tua risposta",
+    noAnswerTitle: "Non hai ancora risposto",
+    noAnswerText: "Rispondi all’invito per chiedere all’organizzatore di entrare.",
+    declinedTitle: "Hai detto che non ci sarai",
+    declinedText: "Puoi cambiare idea dall’invito finché le risposte sono aperte.",
+    pendingTitle: "In attesa",
+    pendingText: "L’organizzatore non ha ancora deciso. Questa pagina si aggiorna da sola.",
+    approvedTitle: "Approvato 🎉",
+    approvedText: "Sei dentro! Luogo e orario sono nell’app echo.",
+    rejectedTitle: "Non approvato",
+    rejectedText: "L’organizzatore non ha approvato la tua richiesta per questa festa.",
+    waitlistedTitle: "In lista d’attesa",
+    waitlistedText: "La festa è al completo. Se si libera un posto entri automaticamente.",
+    waitlistedPosition: "Sei n. {position} in lista d’attesa. Se si libera un posto entri automaticamente.",
+    live: "Aggiornamento in tempo reale",
+    polling: "Aggiornamento automatico ogni 30 secondi",
+    connecting: "Connessione…",
+  },
+  poster: {
+    metaTitle: "Poster invito | echo",
+    unavailableTitle: "Invito non disponibile",
+    unavailableText: "Il link non è valido oppure l’invito è scaduto.",
+    scanHint: "Inquadra il QR per rispondere all’invito",
+    print: "Stampa poster",
+  },
+
+  pay: {
+    title: "Pagamento festa",
+    fee: "Quota: {amount}",
+    currentStatus: "Stato attuale",
+    labels: {
+      invite: "Invito",
+      method: "Metodo",
+      payment: "Pagamento",
+    },
+    approvalStatus: {
+      waitlisted: "In lista d’attesa",
+      approved: "Approvato",
+      rejected: "Rifiutato",
+      pending_approval: "In attesa",
+      pending: "In attesa",
+    },
+    paymentMethod: {
+      card: "Carta",
+      cash: "Contanti",
+      paypal: "PayPal",
+      satispay: "Satispay",
+    },
+    paymentStatus: {
+      paid: "Pagato",
+      unpaid: "Non pagato",
+      pending: "In attesa",
+      pending_review: "In verifica",
+    },
+    methodNone: "non selezionato",
+    statusUnavailable: "non disponibile",
+    invalidLink: "Link non valido o scaduto.",
+    confirmedTitle: "Pagamento confermato ✅",
+    confirmedText: "Il tuo pagamento è avvenuto con successo. Ci vediamo alla festa.",
+    receiptLink: "Vedi la ricevuta",
+    receiptPdf: "Scarica la ricevuta (PDF)",
+    chooseTitle: "Scegli come pagare",
+    chooseText:
+      "In base a cosa ha scelto l’organizzazione puoi pagare con Satispay, PayPal o contanti. Se paghi online, torna qui e conferma: riceverai una mail quando l’organizzatore verifica il pagamento.",
+    openSatispay: "Apri Satispay",
+    paidSatispay: "Ho pagato con Satispay",
+    openPaypal: "Apri PayPal",
+    paidPaypal: "Ho pagato con PayPal",
+    payCash: "Pago in contanti",
+    requestSentTitle: "Richiesta inviata ✅",
+    requestSentText:
+      "Abbiamo avvisato l’organizzatore. Riceverai una mail di conferma quando il pagamento sarà verificato e completato.",
+    cashSent:
+      "La tua richiesta di pagamento in contanti è stata inviata. Riceverai una mail di conferma quando l’organizzatore completerà la verifica del pagamento.",
+    claimSent:
+      "La tua richiesta di conferma pagamento è stata inviata all’organizzatore. Riceverai una mail di conferma quando il pagamento sarà verificato e completato.",
+    live: "Aggiornamento in tempo reale",
+    polling: "Aggiornamento automatico ogni 30 secondi",
+    connecting: "Connessione…",
+    reference: "Se l’app non la compila da sola, scrivi nella causale: {reference}",
+    card: {
+      pay: "Paga {amount} con carta",
+      hint: "Pagamento sicuro con Stripe: la conferma è automatica, senza attendere l’organizzatore.",
+      processingTitle: "Pagamento con carta in corso…",
+      processingText: "Stiamo aspettando la conferma di Stripe: questa pagina si aggiorna da sola.",
+      cancelled: "Pagamento con carta annullato. Puoi riprovare o scegliere un altro metodo.",
+    },
+    proof: {
+      title: "Prova di pagamento (facoltativa)",
+      hint: "Se hai pagato con Satispay o PayPal, allega lo screenshot o il PDF della transazione prima di confermare. JPG, PNG, WebP o PDF, massimo {mb} MB.",
+      choose: "Allega screenshot o PDF",
+      replace: "Cambia file",
+      remove: "Rimuovi",
+      privacy: "La vedete solo tu e l’organizzatore.",
+      errors: {
+        empty: "Il file è vuoto.",
+        tooLarge: "Il file supera i {mb} MB.",
+        type: "Formato non supportato: usa JPG, PNG, WebP o PDF.",
+      },
+    },
+    errors: {
+      loadFailed: "Impossibile caricare la pagina pagamento.",
+      cashFailed: "Impossibile salvare il pagamento in contanti.",
+      updateFailed: "Impossibile aggiornare il pagamento.",
+      cardFailed: "Impossibile avviare il pagamento con carta. Riprova tra poco.",
+      proofUploadFailed: "Impossibile caricare la prova di pagamento. Riprova o conferma senza allegato.",
+      generic: "Errore.",
+    },
+  },
+
+  receipt: {
+    metaTitle: "Ricevuta di pagamento | echo",
+    title: "Ricevuta di pagamento",
+    number: "Ricevuta n. {number}",
+    labels: {
+      party: "Festa",
+      date: "Data",
+      amount: "Importo",
+      method: "Metodo",
+      confirmedAt: "Confermato il",
+    },
+    note: "Ricevuta generata da echo come promemoria del pagamento all’organizzatore della festa. Non è un documento fiscale.",
+    print: "Stampa",
+    downloadPdf: "Scarica PDF",
+    backToPayment: "Torna al pagamento",
+    unavailableTitle: "Ricevuta non disponibile",
+    unavailableText: "La ricevuta è disponibile da questo link quando l’organizzatore ha confermato il pagamento.",
+    notFound: "Ricevuta non disponibile.",
+  },
+
+  get: {
+    title: "Scarica l’app",
+    intro: "Per vedere luogo, orario e aggiornamenti in tempo reale dell’evento, ti conviene usare echo.",
+    perksTitle: "Con l’app ottieni",
+    perks: [
+      "Notifiche istantanee quando vieni approvato",
+      "Luogo e orario dell’evento (appena disponibili)",
+      "Info e aggiornamenti in tempo reale",
+      "Scatti “vintage” con un tocco, stile disposable camera",
+    ],
+    appStore: "Scarica su App Store",
+    appStoreUnavailable: "App Store (non disponibile)",
+    googlePlay: "Scarica su Google Play",
+    googlePlayUnavailable: "Google Play (non disponibile)",
+    openApp: "Apri l’app (se già installata)",
+    storeNote: "Nota: gli store link non sono ancora disponibili. Quando pubblicherai l’app, imposta le env:",
+    storeNoteAnd: "e",
+  },
+
+  landing: {
+    nav: {
+      features: "Features",
+      experience: "Experience",
+      reviews: "Reviews",
+    },
+    hero: {
+      badge: "Per eventi privati che lasciano l’echo",
+      title: "L’app che rende le feste più belle, più semplici, più vive.",
+      text: "Echo ti aiuta a organizzare eventi privati con inviti curati, gestione smart degli invitati, pagamenti ordinati e una disposable gallery pensata per far parlare della serata anche dopo.",
+      primaryCta: "Scarica echo",
+      secondaryCta: "Guarda come funziona",
+      mockupAlt: "Anteprima dell’app echo",
+    },
+    stats: [
+      { label: "Esperienza", value: "mobile-first" },
+      { label: "Inviti", value: "privati" },
+      { label: "Foto", value: "disposable" },
+    ],
+    showcase: {
+      badge: "Designed to convert",
+      title: "Una landing deve far venire voglia di scaricare l’app. Tutto qui spinge in quella direzione.",
+      text: "Per questo il messaggio è chiaro, le schermate sono protagoniste e i punti forti dell’app si capiscono subito.",
+      cards: [
+        {
+          title: "Invita solo chi vuoi tu",
+          text: "Echo è pensata per eventi privati: richieste, approvazioni e controllo completo della lista.",
+        },
+        {
+          title: "Gestisci anche colletta e conferme",
+          text: "Quando serve, puoi tenere ordinati pagamenti, quote e stato degli invitati senza uscire dal flusso dell’evento.",
+        },
+        {
+          title: "Rendi la serata più memorabile",
+          text: "Le foto non sono solo una gallery: diventano parte dell’esperienza, con un reveal più divertente e curato.",
+        },
+      ],
+    },
+    features: {
+      badge: "Features",
+      title: "Tutto quello che serve per gestire un evento privato, senza attriti.",
+      cards: [
+        {
+          eyebrow: "Inviti",
+          title: "Crea un invito che sembra davvero un evento.",
+          text: "Link privati, approvazioni e dettagli dell’evento in un flusso semplice e molto più bello della solita chat.",
+        },
+        {
+          eyebrow: "Gestione",
+          title: "Tieni tutto sotto controllo senza impazzire.",
+          text: "Partecipanti, conferme, richieste e pagamenti organizzati in un’unica esperienza pensata per il telefono.",
+        },
+        {
+          eyebrow: "Memories",
+          title: "Rivivi la serata con una disposable gallery.",
+          text: "Le foto si sbloccano al momento giusto, così l’evento resta vivo anche dopo la festa.",
+        },
+      ],
+    },
+    reviews: {
+      badge: "Social proof",
+      title: "Pensata per chi organizza serate che devono funzionare davvero.",
+      items: [
+        {
+          quote:
+            "Finalmente un modo bello e ordinato per organizzare una festa privata senza perdersi tra chat, liste e conferme sparse.",
+          name: "Marco R.",
+          place: "Milano",
+        },
+        {
+          quote:
+            "La parte migliore è la gestione degli invitati: approvazioni, presenza e dettagli evento tutto nello stesso posto.",
+          name: "Chiara T.",
+          place: "Bologna",
+        },
+        {
+          quote: "L’effetto disposable camera dà davvero personalità alla serata. Non sembra la solita app per eventi.",
+          name: "Luca P.",
+          place: "Roma",
+        },
+        {
+          quote:
+            "Molto chiara, molto pulita e soprattutto coerente con un uso mobile reale. Sembra un prodotto rifinito davvero bene.",
+          name: "Giulia S.",
+          place: "Torino",
+        },
+      ],
+    },
+    download: {
+      badge: "Download echo",
+      title: "La prossima festa che organizzi può sembrare già un ricordo prima ancora di iniziare.",
+      text: "Scarica echo e trasforma inviti, gestione e gallery in un’esperienza più curata, più condivisibile e molto più memorabile.",
+      secondaryCta: "Esplora le feature",
+    },
+    footer: {
+      rights: "© 2026 echo. Tutti i diritti riservati.",
+      privacy: "Privacy",
+      download: "Scarica echo",
+    },
+  },
+};
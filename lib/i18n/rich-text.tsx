@@ -0,0 +1,34 @@
+// Markup minimo per i testi dei cataloghi: **grassetto** e [testo](href). Nessun HTML arbitrario.
+
+import React from "react";
+import { interpolate, type MessageVars } from "@/lib/i18n";
+
+const TOKEN = /\*\*(.+?)\*\*|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export function renderRichText(
+  template: string,
+  options: { vars?: MessageVars; linkStyle?: React.CSSProperties } = {}
+): React.ReactNode[] {
+  const text = interpolate(template, options.vars);
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(TOKEN)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(text.slice(last, index));
+
+    if (match[1] != null) {
+      nodes.push(<strong key={index}>{match[1]}</strong>);
+    } else {
+      nodes.push(
+        <a key={index} href={match[3]} style={options.linkStyle}>
+          {match[2]}
+        </a>
+      );
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
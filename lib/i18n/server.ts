@@ -0,0 +1,16 @@
+// Lingua della richiesta corrente per server component, generateMetadata e route handler.
+
+import { cookies, headers } from "next/headers";
+import { LOCALE_COOKIE, createTranslator, getMessages, isLocale, matchLocale, type Locale } from "@/lib/i18n";
+
+export async function getLocale(): Promise<Locale> {
+  const fromCookie = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(fromCookie)) return fromCookie;
+  return matchLocale((await headers()).get("accept-language"));
+}
+
+// `preferred`: lingua esplicita della richiesta (es. ?lang= nella card social); se valida vince su cookie e header.
+export async function getI18n(preferred?: string | null) {
+  const locale = isLocale(preferred) ? preferred : await getLocale();
+  return { locale, t: createTranslator(locale), messages: getMessages(locale) };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { isInviteExpired, isRsvpOpen, parseInvitePayload } from "@/lib/invite-contract";
+
+const base = { token: "tok", role: "guest", party_id: "party-1" };
+
+function productsOf(raw: Record<string, unknown>) {
+  const parsed = parseInvitePayload({ ...base, ...raw });
+  if (!parsed.ok) throw new Error(JSON.stringify(parsed.diagnostics));
+  return { products: parsed.invite.selected_products, warnings: parsed.diagnostics.map((d) => d.path) };
+}
+
+describe("v1 adapter products", () => {
+  it("reads selected_products as a list or a map without warnings", () => {
+    expect(productsOf({ selected_products: ["Gin", "rum", "gin"] })).toEqual({
+      products: ["gin", "rum"],
+      warnings: [],
+    });
+    expect(productsOf({ selected_products: { gin: true, rum: false } })).toEqual({ products: ["gin"], warnings: [] });
+  });
+
+  it("maps each legacy field and warns about it", () => {
+    expect(productsOf({ organizer_selected_products: ["vodka"] })).toEqual({
+      products: ["vodka"],
+      warnings: ["organizer_selected_products"],
+    });
+    expect(productsOf({ enabled_products: ["beer"] })).toEqual({ products: ["beer"], warnings: ["enabled_products"] });
+    expect(productsOf({ enabled_products: { beer: true, wine: false } })).toEqual({
+      products: ["beer"],
+      warnings: ["enabled_products"],
+    });
+    expect(productsOf({ selectedProducts: ["rum"] })).toEqual({ products: ["rum"], warnings: ["selectedProducts"] });
+  });
+
+  it.each([
+    "visible_products",
+    "organizer_selected_products",
+    "allowed_products",
+    "available_products",
+    "enabled_products",
+    "drink_products",
+    "selected_drinks",
+    "selectedProducts",
+    "visibleProducts",
+    "organizerSelectedProducts",
+    "allowedProducts",
+    "availableProducts",
+    "enabledProducts",
+    "drinkProducts",
+    "selectedDrinks",
+    "drink_preferences",
+    "drinkPreferences",
+    "party_products",
+    "partyProducts",
+    "products_available",
+    "productsAvailable",
+  ])("reads %s as a list and as a map", (field) => {
+    expect(productsOf({ [field]: ["Gin", "rum"] })).toEqual({ products: ["gin", "rum"], warnings: [field] });
+    expect(productsOf({ [field]: { gin: true, rum: false } })).toEqual({ products: ["gin"], warnings: [field] });
+  });
+
+  const containers = ["party", "settings", "config", "metadata", "payload", "data"];
+
+  it.each(containers)("reads products nested in %s", (container) => {
+    expect(productsOf({ [container]: { enabled_products: ["vodka"], title: "x" } })).toEqual({
+      products: ["vodka"],
+      warnings: [`${container}.enabled_products`],
+    });
+  });
+
+  it("accepts 1, \"1\" and \"true\" as selected in maps", () => {
+    const { products } = productsOf({
+      selected_products: { gin: 1, rum: "1", vodka: "true", beer: 0, cola: "false", tonic: null },
+    });
+    expect(products).toEqual(["gin", "rum", "vodka"]);
+  });
+
+  it("reads a single id and grouped maps", () => {
+    expect(productsOf({ selected_products: "Gin" }).products).toEqual(["gin"]);
+    expect(productsOf({ selected_products: { alcohol: ["gin"], soft: { cola: true } } }).products).toEqual([
+      "gin",
+      "cola",
+    ]);
+  });
+
+  it("warns about unrecognized selection values and product-like fields", () => {
+    expect(productsOf({ selected_products: { gin: "maybe" }, selected_product_ids: ["rum"] })).toEqual({
+      products: [],
+      warnings: ["selected_products.gin", "selected_product_ids"],
+    });
+    expect(productsOf({ settings: { drinksMenu: ["rum"] } }).warnings).toEqual(["settings.drinksMenu"]);
+    expect(productsOf({ show_drink_preferences: true }).warnings).toEqual([]);
+  });
+
+  it("merges the legacy fields like the old page did", () => {
+    const { products } = productsOf({
+      selected_products: ["gin"],
+      enabled_products: { rum: true },
+      selectedProducts: ["gin"],
+    });
+    expect(products).toEqual(["gin", "rum"]);
+  });
+
+  it("rejects a malformed legacy field", () => {
+    const parsed = parseInvitePayload({ ...base, enabled_products: 3 });
+    expect(parsed.ok).toBe(false);
+    expect(parsed.diagnostics).toContainEqual(expect.objectContaining({ path: "enabled_products", severity: "error" }));
+  });
+
+  it("v2 reads only selected_products", () => {
+    const parsed = parseInvitePayload({
+      ...base,
+      schema_version: 2,
+      selected_products: ["gin"],
+      enabled_products: ["rum"],
+    });
+    expect(parsed.ok && parsed.invite.selected_products).toEqual(["gin"]);
+  });
+});
+
+describe("expiry and RSVP deadline", () => {
+  // 2026-07-10 21:00 a Roma = 19:00Z
+  const invite = { expires_at: "2026-07-10 21:00", rsvp_deadline: "2026-07-10 21:00", party_timezone: "Europe/Rome" };
+  const justBefore = Date.parse("2026-07-10T18:59:00Z");
+  const justAfter = Date.parse("2026-07-10T19:01:00Z");
+
+  it("reads timestamps without offset in the party zone for both checks", () => {
+    expect(isInviteExpired(invite, justBefore)).toBe(false);
+    expect(isRsvpOpen(invite, justBefore)).toBe(true);
+    expect(isInviteExpired(invite, justAfter)).toBe(true);
+    expect(isRsvpOpen(invite, justAfter)).toBe(false);
+  });
+
+  it("ignores missing or unreadable expiry", () => {
+    expect(isInviteExpired({ expires_at: null, party_timezone: null })).toBe(false);
+    expect(isInviteExpired({ expires_at: "soon", party_timezone: null })).toBe(false);
+  });
+});
@@ -0,0 +1,316 @@
+// Contratto della risposta di get_invite_public.
+// Lo schema corrente è il v2 (`schema_version: 2`); le righe senza versione sono il v1 storico e passano
+// da un adapter esplicito. Il validator produce un InvitePublic tipizzato più una lista di diagnostiche.
+
+import { isValidTimeZone, parsePartyDate } from "@/lib/dates";
+
+export const INVITE_SCHEMA_VERSION = 2;
+
+export type InviteRole = "guest" | "organizer";
+
+export type InvitePublic = {
+  schema_version: typeof INVITE_SCHEMA_VERSION;
+  token: string;
+  role: InviteRole;
+  party_id: string;
+  expires_at: string | null;
+  party_title: string | null;
+  party_date: string | null;
+  // fuso IANA in cui leggere party_date quando non ha offset (null = Europe/Rome)
+  party_timezone: string | null;
+  // incrementato dal backend a ogni cambio di party_date (SEQUENCE dell'evento calendario)
+  party_date_revision: number;
+  party_mode: string | null;
+  party_type: string | null;
+  // oltre questa data l'ospite non può più cambiare o ritirare la risposta (null = nessun limite)
+  rsvp_deadline: string | null;
+  // accompagnatori che l'ospite può portare con sé (0 = solo l'ospite)
+  max_companions: number;
+  // posti totali (null = nessun limite) e posti ancora liberi; oltre la capienza i "Ci sono" vanno in lista d'attesa
+  capacity: number | null;
+  spots_left: number | null;
+  show_drink_preferences: boolean;
+  // id dei prodotti del catalogo che l'organizzatore rende selezionabili
+  selected_products: string[];
+};
+
+export type InviteDiagnostic = {
+  path: string;
+  severity: "error" | "warning";
+  message: string;
+};
+
+export type InviteParseResult =
+  | { ok: true; invite: InvitePublic; diagnostics: InviteDiagnostic[] }
+  | { ok: false; invite: null; diagnostics: InviteDiagnostic[] };
+
+type RawRecord = Record<string, unknown>;
+
+class Reader {
+  readonly diagnostics: InviteDiagnostic[] = [];
+
+  constructor(private readonly source: RawRecord) {}
+
+  error(path: string, message: string) {
+    this.diagnostics.push({ path, severity: "error", message });
+  }
+
+  warn(path: string, message: string) {
+    this.diagnostics.push({ path, severity: "warning", message });
+  }
+
+  requiredString(key: string) {
+    const value = this.source[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+    this.error(key, value == null ? "campo obbligatorio mancante" : `atteso string, ricevuto ${typeof value}`);
+    return "";
+  }
+
+  optionalString(key: string) {
+    const value = this.source[key];
+    if (value == null) return null;
+    if (typeof value === "string") return value.trim() || null;
+    this.warn(key, `atteso string o null, ricevuto ${typeof value}: campo ignorato`);
+    return null;
+  }
+
+  optionalTimestamp(key: string) {
+    const value = this.optionalString(key);
+    if (value && !parsePartyDate(value)) {
+      this.warn(key, `timestamp non riconosciuto "${value}"`);
+    }
+    return value;
+  }
+
+  optionalTimeZone(key: string) {
+    const value = this.optionalString(key);
+    if (value && !isValidTimeZone(value)) {
+      this.warn(key, `fuso orario sconosciuto "${value}": campo ignorato`);
+      return null;
+    }
+    return value;
+  }
+
+  nonNegativeInteger(key: string, fallback: number) {
+    const value = this.source[key];
+    if (typeof value === "number" && Number.isInteger(value) && value >= 0) return value;
+    if (value != null) this.warn(key, `atteso intero >= 0, ricevuto ${JSON.stringify(value)}: uso ${fallback}`);
+    return fallback;
+  }
+
+  optionalNonNegativeInteger(key: string) {
+    const value = this.source[key];
+    if (value == null) return null;
+    if (typeof value === "number" && Number.isInteger(value) && value >= 0) return value;
+    this.warn(key, `atteso intero >= 0 o null, ricevuto ${JSON.stringify(value)}: campo ignorato`);
+    return null;
+  }
+
+  boolean(key: string, fallback: boolean) {
+    const value = this.source[key];
+    if (typeof value === "boolean") return value;
+    if (value != null) this.warn(key, `atteso boolean, ricevuto ${typeof value}: uso ${fallback}`);
+    return fallback;
+  }
+
+  role(key: string): InviteRole {
+    const value = this.source[key];
+    if (value === "guest" || value === "organizer") return value;
+    this.warn(key, `ruolo sconosciuto ${JSON.stringify(value)}: uso "guest"`);
+    return "guest";
+  }
+}
+
+function normalizeProductIds(values: string[]) {
+  return Array.from(new Set(values.map((v) => v.trim().toLowerCase()).filter(Boolean)));
+}
+
+function readProductList(reader: Reader, key: string, value: unknown) {
+  if (value == null) return [];
+  if (Array.isArray(value) && value.every((v) => typeof v === "string")) return normalizeProductIds(value);
+  reader.error(key, "attesa una lista di id prodotto (string[])");
+  return [];
+}
+
+// v1: a seconda della versione dell'app organizzatore i prodotti arrivavano sotto uno di questi nomi, in cima
+// alla riga o dentro uno dei contenitori qui sotto. Si leggono tutti e si uniscono come faceva la vecchia pagina;
+// ogni campo diverso da selected_products in cima alla riga produce un warning.
+const LEGACY_PRODUCT_FIELDS = [
+  "selected_products",
+  "visible_products",
+  "organizer_selected_products",
+  "allowed_products",
+  "available_products",
+  "enabled_products",
+  "drink_products",
+  "selected_drinks",
+  "selectedProducts",
+  "visibleProducts",
+  "organizerSelectedProducts",
+  "allowedProducts",
+  "availableProducts",
+  "enabledProducts",
+  "drinkProducts",
+  "selectedDrinks",
+  "drink_preferences",
+  "drinkPreferences",
+  "party_products",
+  "partyProducts",
+  "products_available",
+  "productsAvailable",
+];
+
+const LEGACY_PRODUCT_CONTAINERS = ["party", "settings", "config", "metadata", "payload", "data"];
+
+// Nelle mappe { id: valore } il prodotto è selezionato con true, 1, "1" o "true".
+const LEGACY_SELECTED_VALUES = new Set<unknown>([true, 1, "1", "true"]);
+const LEGACY_UNSELECTED_VALUES = new Set<unknown>([false, 0, "0", "false", null]);
+
+// Campi con "product"/"drink" nel nome che non sono tra quelli noti: segnalati, non indovinati.
+const PRODUCT_LIKE_KEY = /products?|drinks?/i;
+const NON_PRODUCT_KEYS = new Set(["show_drink_preferences"]);
+
+const KNOWN_PRODUCT_FIELDS = new Set(LEGACY_PRODUCT_FIELDS);
+
+// Stringa, lista o mappa { id: selezionato }; nelle mappe un valore oggetto/lista è un gruppo ({ alcohol: [...] }).
+function collectLegacyProducts(reader: Reader, path: string, value: unknown, out: string[]) {
+  if (typeof value === "string") {
+    if (value.trim()) out.push(value);
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => {
+      if (typeof item === "string" || (item && typeof item === "object")) {
+        collectLegacyProducts(reader, `${path}[${i}]`, item, out);
+      } else if (item != null) {
+        reader.warn(`${path}[${i}]`, `atteso id prodotto, ricevuto ${JSON.stringify(item)}: ignorato`);
+      }
+    });
+    return;
+  }
+  if (value && typeof value === "object") {
+    for (const [id, selected] of Object.entries(value as RawRecord)) {
+      if (LEGACY_SELECTED_VALUES.has(selected)) out.push(id);
+      else if (LEGACY_UNSELECTED_VALUES.has(selected)) continue;
+      else if (typeof selected === "object") collectLegacyProducts(reader, `${path}.${id}`, selected, out);
+      else reader.warn(`${path}.${id}`, `valore di selezione non riconosciuto ${JSON.stringify(selected)}: ignorato`);
+    }
+    return;
+  }
+  reader.error(path, "attesa una lista di id prodotto o una mappa { id: boolean }");
+}
+
+function readLegacyProductFields(reader: Reader, record: RawRecord, prefix: string, out: string[]) {
+  for (const key of LEGACY_PRODUCT_FIELDS) {
+    const value = record[key];
+    if (value == null) continue;
+    const path = `${prefix}${key}`;
+    if (path !== "selected_products") reader.warn(path, "campo legacy per i prodotti: usare selected_products");
+    collectLegacyProducts(reader, path, value, out);
+  }
+
+  for (const key of Object.keys(record)) {
+    if (PRODUCT_LIKE_KEY.test(key) && !KNOWN_PRODUCT_FIELDS.has(key) && !NON_PRODUCT_KEYS.has(key)) {
+      reader.warn(`${prefix}${key}`, "campo prodotti non riconosciuto: ignorato");
+    }
+  }
+}
+
+function readLegacyProducts(source: RawRecord, reader: Reader) {
+  const ids: string[] = [];
+  readLegacyProductFields(reader, source, "", ids);
+
+  for (const container of LEGACY_PRODUCT_CONTAINERS) {
+    const nested = source[container];
+    if (nested && typeof nested === "object" && !Array.isArray(nested)) {
+      readLegacyProductFields(reader, nested as RawRecord, `${container}.`, ids);
+    }
+  }
+  return normalizeProductIds(ids);
+}
+
+function parseCommon(reader: Reader) {
+  return {
+    token: reader.requiredString("token"),
+    role: reader.role("role"),
+    party_id: reader.requiredString("party_id"),
+    expires_at: reader.optionalTimestamp("expires_at"),
+    party_title: reader.optionalString("party_title"),
+    party_date: reader.optionalTimestamp("party_date"),
+    party_timezone: reader.optionalTimeZone("party_timezone"),
+    party_date_revision: reader.nonNegativeInteger("party_date_revision", 0),
+    party_mode: reader.optionalString("party_mode"),
+    party_type: reader.optionalString("party_type"),
+    rsvp_deadline: reader.optionalTimestamp("rsvp_deadline"),
+    max_companions: reader.nonNegativeInteger("max_companions", 0),
+    capacity: reader.optionalNonNegativeInteger("capacity"),
+    spots_left: reader.optionalNonNegativeInteger("spots_left"),
+    show_drink_preferences: reader.boolean("show_drink_preferences", false),
+  };
+}
+
+function parseV2(source: RawRecord, reader: Reader): InvitePublic {
+  return {
+    schema_version: INVITE_SCHEMA_VERSION,
+    ...parseCommon(reader),
+    selected_products: readProductList(reader, "selected_products", source.selected_products),
+  };
+}
+
+function adaptV1(source: RawRecord, reader: Reader): InvitePublic {
+  return {
+    schema_version: INVITE_SCHEMA_VERSION,
+    ...parseCommon(reader),
+    selected_products: readLegacyProducts(source, reader),
+  };
+}
+
+export function parseInvitePayload(raw: unknown): InviteParseResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return {
+      ok: false,
+      invite: null,
+      diagnostics: [{ path: "", severity: "error", message: "payload assente o non è un oggetto" }],
+    };
+  }
+
+  const source = raw as RawRecord;
+  const reader = new Reader(source);
+  const version = source.schema_version;
+
+  let invite: InvitePublic;
+  if (version === INVITE_SCHEMA_VERSION) {
+    invite = parseV2(source, reader);
+  } else if (version == null || version === 1) {
+    invite = adaptV1(source, reader);
+  } else {
+    reader.error("schema_version", `versione non supportata ${JSON.stringify(version)}`);
+    return { ok: false, invite: null, diagnostics: reader.diagnostics };
+  }
+
+  if (reader.diagnostics.some((d) => d.severity === "error")) {
+    return { ok: false, invite: null, diagnostics: reader.diagnostics };
+  }
+  return { ok: true, invite, diagnostics: reader.diagnostics };
+}
+
+export function formatInviteDiagnostics(diagnostics: InviteDiagnostic[]) {
+  return diagnostics.map((d) => `${d.severity} ${d.path || "<root>"}: ${d.message}`).join("; ");
+}
+
+export function isInviteExpired(invite: Pick<InvitePublic, "expires_at" | "party_timezone">, now = Date.now()) {
+  if (!invite.expires_at) return false;
+  const exp = parsePartyDate(invite.expires_at, invite.party_timezone);
+  return !!exp && exp.getTime() < now;
+}
+
+// true se un nuovo "Ci sono" finirebbe in lista d'attesa.
+export function isPartyFull(invite: Pick<InvitePublic, "capacity" | "spots_left">) {
+  return invite.capacity != null && invite.spots_left != null && invite.spots_left <= 0;
+}
+
+export function isRsvpOpen(invite: Pick<InvitePublic, "rsvp_deadline" | "party_timezone">, now = Date.now()) {
+  if (!invite.rsvp_deadline) return true;
+  const deadline = parsePartyDate(invite.rsvp_deadline, invite.party_timezone);
+  return !deadline || deadline.getTime() > now;
+}
@@ -0,0 +1,238 @@
+import { describe, expect, it } from "vitest";
+import {
+  canHandle,
+  initialInviteFlowState,
+  inviteFlowReducer,
+  requiresPreferencesBeforeJoin,
+  type InviteFlowEvent,
+  type InviteFlowState,
+  type InviteStep,
+} from "@/lib/invite-flow";
+
+const STEPS: InviteStep[] = ["loading", "appChoice", "needAuth", "verifyCode", "ready", "done", "error"];
+
+// Un evento per tipo, con i flag di stato che ne soddisfano le condizioni oltre allo step.
+const EVENTS: { event: InviteFlowEvent; allowed: InviteStep[] | "any"; state?: Partial<InviteFlowState> }[] = [
+  { event: { type: "BOOTSTRAP" }, allowed: "any" },
+  { event: { type: "BOOTSTRAP_DONE" }, allowed: ["loading"] },
+  { event: { type: "FAIL", message: "boom" }, allowed: "any" },
+  { event: { type: "CONTINUE_ON_WEB" }, allowed: ["appChoice"] },
+  { event: { type: "CODE_SENT" }, allowed: ["needAuth", "verifyCode"] },
+  { event: { type: "CHANGE_CONTACT" }, allowed: ["verifyCode"] },
+  { event: { type: "VERIFIED", existing: null }, allowed: ["verifyCode"] },
+  { event: { type: "SESSION_RESUMED", existing: null }, allowed: ["appChoice", "needAuth"] },
+  { event: { type: "RESPOND", choice: "no", requiresPreferences: false }, allowed: ["ready"] },
+  { event: { type: "PREFS_TOUCHED" }, allowed: ["ready"] },
+  { event: { type: "PREFS_CANCELLED" }, allowed: ["ready"], state: { wantsToJoin: true } },
+  { event: { type: "PREFS_SUBMITTED" }, allowed: ["ready"], state: { wantsToJoin: true } },
+  { event: { type: "RESPOND_SUCCEEDED", choice: "yes" }, allowed: ["ready"], state: { pendingChoice: "yes" } },
+  { event: { type: "RESPOND_FAILED", message: "nope" }, allowed: ["ready"], state: { pendingChoice: "yes" } },
+  { event: { type: "EDIT_RSVP", editPreferences: false }, allowed: ["done"] },
+  { event: { type: "EDIT_CANCELLED", choice: "yes" }, allowed: ["ready"] },
+  { event: { type: "WITHDRAWN" }, allowed: ["done"] },
+  { event: { type: "BUSY_START" }, allowed: "any" },
+  { event: { type: "BUSY_END" }, allowed: "any" },
+  { event: { type: "SET_ERROR", message: "oops" }, allowed: "any" },
+];
+
+function stateAt(step: InviteStep, extra: Partial<InviteFlowState> = {}): InviteFlowState {
+  return { ...initialInviteFlowState, step, ...extra };
+}
+
+describe("inviteFlowReducer step guards", () => {
+  it("covers every event type", () => {
+    const types = new Set(EVENTS.map(({ event }) => event.type));
+    expect(types.size).toBe(EVENTS.length);
+    expect(types.size).toBe(20);
+  });
+
+  for (const { event, allowed, state } of EVENTS) {
+    for (const step of STEPS) {
+      const ok = allowed === "any" || allowed.includes(step);
+      it(`${event.type} in ${step} is ${ok ? "handled" : "ignored"}`, () => {
+        const before = stateAt(step, state);
+        expect(canHandle(before, event)).toBe(ok);
+        const after = inviteFlowReducer(before, event);
+        if (!ok) expect(after).toBe(before);
+      });
+    }
+  }
+});
+
+describe("inviteFlowReducer transitions", () => {
+  it("goes from loading to appChoice to needAuth to verifyCode", () => {
+    let s = inviteFlowReducer(initialInviteFlowState, { type: "BOOTSTRAP_DONE" });
+    expect(s.step).toBe("appChoice");
+    s = inviteFlowReducer(s, { type: "CONTINUE_ON_WEB" });
+    expect(s.step).toBe("needAuth");
+    s = inviteFlowReducer(s, { type: "CODE_SENT" });
+    expect(s.step).toBe("verifyCode");
+    s = inviteFlowReducer(s, { type: "CODE_SENT" });
+    expect(s.step).toBe("verifyCode");
+    s = inviteFlowReducer(s, { type: "CHANGE_CONTACT" });
+    expect(s.step).toBe("needAuth");
+  });
+
+  it("BOOTSTRAP_DONE with a saved answer shows it right away", () => {
+    const s = inviteFlowReducer(initialInviteFlowState, { type: "BOOTSTRAP_DONE", existing: "yes" });
+    expect(s).toMatchObject({ step: "done", resultStatus: "yes" });
+    expect(inviteFlowReducer(s, { type: "EDIT_RSVP", editPreferences: false }).step).toBe("ready");
+  });
+
+  it("BOOTSTRAP_DONE without a saved answer asks how to continue", () => {
+    const s = inviteFlowReducer(initialInviteFlowState, { type: "BOOTSTRAP_DONE", existing: null });
+    expect(s).toMatchObject({ step: "appChoice", resultStatus: null });
+  });
+
+  it("clears the error text when moving between auth steps", () => {
+    const s = inviteFlowReducer(stateAt("needAuth", { errorText: "bad phone" }), { type: "CODE_SENT" });
+    expect(s).toMatchObject({ step: "verifyCode", errorText: null });
+  });
+
+  it("VERIFIED without an existing answer goes to ready", () => {
+    const s = inviteFlowReducer(stateAt("verifyCode"), { type: "VERIFIED", existing: null });
+    expect(s).toMatchObject({ step: "ready", resultStatus: null });
+  });
+
+  it("VERIFIED with an existing answer goes to done", () => {
+    const s = inviteFlowReducer(stateAt("verifyCode"), { type: "VERIFIED", existing: "no" });
+    expect(s).toMatchObject({ step: "done", resultStatus: "no" });
+  });
+
+  it("SESSION_RESUMED skips the auth steps", () => {
+    expect(inviteFlowReducer(stateAt("appChoice"), { type: "SESSION_RESUMED", existing: null }).step).toBe("ready");
+    expect(inviteFlowReducer(stateAt("needAuth"), { type: "SESSION_RESUMED", existing: "yes" })).toMatchObject({
+      step: "done",
+      resultStatus: "yes",
+    });
+  });
+
+  it("FAIL moves any step to error and drops the pending answer", () => {
+    for (const step of STEPS) {
+      const s = inviteFlowReducer(stateAt(step, { busy: true, pendingChoice: "yes" }), {
+        type: "FAIL",
+        message: "boom",
+      });
+      expect(s).toMatchObject({ step: "error", busy: false, pendingChoice: null, errorText: "boom" });
+    }
+  });
+
+  it("BOOTSTRAP resets to the initial state", () => {
+    const s = inviteFlowReducer(stateAt("done", { resultStatus: "yes", busy: true }), { type: "BOOTSTRAP" });
+    expect(s).toEqual(initialInviteFlowState);
+  });
+
+  it("RESPOND no sends right away", () => {
+    const s = inviteFlowReducer(stateAt("ready"), { type: "RESPOND", choice: "no", requiresPreferences: true });
+    expect(s).toMatchObject({ pendingChoice: "no", busy: true, wantsToJoin: false });
+  });
+
+  it("RESPOND is ignored while busy, pending or already answered", () => {
+    const event: InviteFlowEvent = { type: "RESPOND", choice: "no", requiresPreferences: false };
+    for (const extra of [{ busy: true }, { pendingChoice: "yes" as const }, { resultStatus: "yes" as const }]) {
+      const before = stateAt("ready", extra);
+      expect(canHandle(before, event)).toBe(false);
+      expect(inviteFlowReducer(before, event)).toBe(before);
+    }
+  });
+
+  it("RESPOND_SUCCEEDED records the answer and goes to done", () => {
+    const s = inviteFlowReducer(stateAt("ready", { pendingChoice: "no", busy: true }), {
+      type: "RESPOND_SUCCEEDED",
+      choice: "no",
+    });
+    expect(s).toMatchObject({ step: "done", resultStatus: "no", pendingChoice: null, busy: false });
+  });
+
+  it("RESPOND_FAILED keeps ready and shows the error", () => {
+    const s = inviteFlowReducer(stateAt("ready", { pendingChoice: "no", busy: true }), {
+      type: "RESPOND_FAILED",
+      message: "nope",
+    });
+    expect(s).toMatchObject({ step: "ready", pendingChoice: null, busy: false, errorText: "nope" });
+  });
+
+  it("RESPOND_SUCCEEDED and RESPOND_FAILED need a pending answer", () => {
+    const before = stateAt("ready");
+    expect(canHandle(before, { type: "RESPOND_SUCCEEDED", choice: "yes" })).toBe(false);
+    expect(canHandle(before, { type: "RESPOND_FAILED", message: "x" })).toBe(false);
+  });
+
+  it("PREFS_TOUCHED is idempotent", () => {
+    const once = inviteFlowReducer(stateAt("ready"), { type: "PREFS_TOUCHED" });
+    expect(once.prefsTouched).toBe(true);
+    expect(inviteFlowReducer(once, { type: "PREFS_TOUCHED" })).toBe(once);
+  });
+
+  it("EDIT_RSVP goes back to ready, optionally with the preferences open", () => {
+    const done = stateAt("done", { resultStatus: "yes" });
+    expect(inviteFlowReducer(done, { type: "EDIT_RSVP", editPreferences: false })).toMatchObject({
+      step: "ready",
+      resultStatus: null,
+      wantsToJoin: false,
+    });
+    expect(inviteFlowReducer(done, { type: "EDIT_RSVP", editPreferences: true }).wantsToJoin).toBe(true);
+    expect(canHandle(stateAt("done", { busy: true }), { type: "EDIT_RSVP", editPreferences: false })).toBe(false);
+  });
+
+  it("EDIT_CANCELLED restores the previous answer", () => {
+    const s = inviteFlowReducer(stateAt("ready", { wantsToJoin: true }), { type: "EDIT_CANCELLED", choice: "yes" });
+    expect(s).toMatchObject({ step: "done", resultStatus: "yes", wantsToJoin: false });
+    expect(canHandle(stateAt("ready", { busy: true }), { type: "EDIT_CANCELLED", choice: "yes" })).toBe(false);
+    expect(canHandle(stateAt("ready", { pendingChoice: "no" }), { type: "EDIT_CANCELLED", choice: "yes" })).toBe(false);
+  });
+
+  it("WITHDRAWN goes back to ready without an answer", () => {
+    const s = inviteFlowReducer(stateAt("done", { resultStatus: "yes", busy: true }), { type: "WITHDRAWN" });
+    expect(s).toMatchObject({ step: "ready", resultStatus: null, busy: false });
+  });
+
+  it("BUSY_START, BUSY_END and SET_ERROR only touch their flag", () => {
+    const before = stateAt("verifyCode");
+    expect(inviteFlowReducer(before, { type: "BUSY_START" })).toEqual({ ...before, busy: true });
+    expect(inviteFlowReducer({ ...before, busy: true }, { type: "BUSY_END" })).toEqual(before);
+    expect(inviteFlowReducer(before, { type: "SET_ERROR", message: "x" })).toEqual({ ...before, errorText: "x" });
+  });
+});
+
+describe("preferences gate", () => {
+  it("requiresPreferencesBeforeJoin only for PAY_AND_DRINK with preferences on", () => {
+    expect(requiresPreferencesBeforeJoin({ party_mode: "PAY_AND_DRINK", show_drink_preferences: true })).toBe(true);
+    expect(requiresPreferencesBeforeJoin({ party_mode: " pay_and_drink ", show_drink_preferences: true })).toBe(true);
+    expect(requiresPreferencesBeforeJoin({ party_mode: "PAY_AND_DRINK", show_drink_preferences: false })).toBe(false);
+    expect(requiresPreferencesBeforeJoin({ party_mode: "PAY_AND_DRINK", show_drink_preferences: null })).toBe(false);
+    expect(requiresPreferencesBeforeJoin({ party_mode: "FREE", show_drink_preferences: true })).toBe(false);
+    expect(requiresPreferencesBeforeJoin({ party_mode: null })).toBe(false);
+    expect(requiresPreferencesBeforeJoin(null)).toBe(false);
+  });
+
+  it("RESPOND yes opens the preferences instead of sending", () => {
+    const s = inviteFlowReducer(stateAt("ready"), { type: "RESPOND", choice: "yes", requiresPreferences: true });
+    expect(s).toMatchObject({ step: "ready", wantsToJoin: true, pendingChoice: null, busy: false });
+  });
+
+  it("RESPOND yes without the gate sends right away", () => {
+    const s = inviteFlowReducer(stateAt("ready"), { type: "RESPOND", choice: "yes", requiresPreferences: false });
+    expect(s).toMatchObject({ wantsToJoin: false, pendingChoice: "yes", busy: true });
+  });
+
+  it("PREFS_SUBMITTED sends yes only after the gate opened", () => {
+    expect(canHandle(stateAt("ready"), { type: "PREFS_SUBMITTED" })).toBe(false);
+    expect(canHandle(stateAt("ready", { wantsToJoin: true, busy: true }), { type: "PREFS_SUBMITTED" })).toBe(false);
+
+    const open = inviteFlowReducer(stateAt("ready"), { type: "RESPOND", choice: "yes", requiresPreferences: true });
+    const sent = inviteFlowReducer(open, { type: "PREFS_SUBMITTED" });
+    expect(sent).toMatchObject({ pendingChoice: "yes", busy: true });
+    expect(inviteFlowReducer(sent, { type: "RESPOND_SUCCEEDED", choice: "yes" })).toMatchObject({
+      step: "done",
+      resultStatus: "yes",
+      wantsToJoin: false,
+    });
+  });
+
+  it("PREFS_CANCELLED closes the gate without answering", () => {
+    expect(canHandle(stateAt("ready"), { type: "PREFS_CANCELLED" })).toBe(false);
+    const s = inviteFlowReducer(stateAt("ready", { wantsToJoin: true }), { type: "PREFS_CANCELLED" });
+    expect(s).toMatchObject({ wantsToJoin: false, pendingChoice: null, resultStatus: null });
+  });
+});
@@ -0,0 +1,177 @@
+// Macchina a stati del flusso invito web:
+// loading → appChoice → needAuth → verifyCode → ready → done, con error raggiungibile da ogni step.
+// Chi ha già una sessione e un profilo completo salta da appChoice/needAuth direttamente a ready.
+// Se il server ha già una risposta per l'utente (`existing`), dopo il login si va subito a done;
+// con sessione valida e risposta salvata ci si arriva già da loading (BOOTSTRAP_DONE con `existing`).
+// Da done si può tornare a ready per cambiare risposta o preferenze (EDIT_RSVP) o dopo averla ritirata (WITHDRAWN).
+// Il reducer ignora gli eventi non ammessi nello stato corrente, così la UI non può finire in combinazioni incoerenti.
+
+export type InviteStep = "loading" | "appChoice" | "needAuth" | "verifyCode" | "ready" | "done" | "error";
+export type RsvpChoice = "yes" | "no";
+
+export type InviteFlowState = {
+  step: InviteStep;
+  // true quando la card preferenze è aperta prima di confermare "Ci sono"
+  wantsToJoin: boolean;
+  // risposta in invio all'organizzatore
+  pendingChoice: RsvpChoice | null;
+  // risposta registrata con successo
+  resultStatus: RsvpChoice | null;
+  prefsTouched: boolean;
+  busy: boolean;
+  errorText: string | null;
+};
+
+export type InviteFlowEvent =
+  | { type: "BOOTSTRAP" }
+  // existing: risposta salvata di un utente con sessione valida e profilo completo
+  | { type: "BOOTSTRAP_DONE"; existing?: RsvpChoice | null }
+  | { type: "FAIL"; message: string }
+  | { type: "CONTINUE_ON_WEB" }
+  | { type: "CODE_SENT" }
+  | { type: "CHANGE_CONTACT" }
+  | { type: "VERIFIED"; existing: RsvpChoice | null }
+  // sessione già valida e profilo completo: niente form né codice
+  | { type: "SESSION_RESUMED"; existing: RsvpChoice | null }
+  | { type: "RESPOND"; choice: RsvpChoice; requiresPreferences: boolean }
+  | { type: "PREFS_TOUCHED" }
+  | { type: "PREFS_CANCELLED" }
+  | { type: "PREFS_SUBMITTED" }
+  | { type: "RESPOND_SUCCEEDED"; choice: RsvpChoice }
+  | { type: "RESPOND_FAILED"; message: string }
+  | { type: "EDIT_RSVP"; editPreferences: boolean }
+  | { type: "EDIT_CANCELLED"; choice: RsvpChoice }
+  | { type: "WITHDRAWN" }
+  | { type: "BUSY_START" }
+  | { type: "BUSY_END" }
+  | { type: "SET_ERROR"; message: string | null };
+
+export const initialInviteFlowState: InviteFlowState = {
+  step: "loading",
+  wantsToJoin: false,
+  pendingChoice: null,
+  resultStatus: null,
+  prefsTouched: false,
+  busy: false,
+  errorText: null,
+};
+
+const ALLOWED_STEPS: Record<InviteFlowEvent["type"], readonly InviteStep[] | "any"> = {
+  BOOTSTRAP: "any",
+  BOOTSTRAP_DONE: ["loading"],
+  FAIL: "any",
+  CONTINUE_ON_WEB: ["appChoice"],
+  CODE_SENT: ["needAuth", "verifyCode"],
+  CHANGE_CONTACT: ["verifyCode"],
+  VERIFIED: ["verifyCode"],
+  SESSION_RESUMED: ["appChoice", "needAuth"],
+  RESPOND: ["ready"],
+  PREFS_TOUCHED: ["ready"],
+  PREFS_CANCELLED: ["ready"],
+  PREFS_SUBMITTED: ["ready"],
+  RESPOND_SUCCEEDED: ["ready"],
+  RESPOND_FAILED: ["ready"],
+  EDIT_RSVP: ["done"],
+  EDIT_CANCELLED: ["ready"],
+  WITHDRAWN: ["done"],
+  BUSY_START: "any",
+  BUSY_END: "any",
+  SET_ERROR: "any",
+};
+
+export function canHandle(state: InviteFlowState, event: InviteFlowEvent) {
+  const allowed = ALLOWED_STEPS[event.type];
+  if (allowed !== "any" && !allowed.includes(state.step)) return false;
+
+  switch (event.type) {
+    case "RESPOND":
+      return !state.busy && !state.pendingChoice && !state.resultStatus;
+    case "PREFS_SUBMITTED":
+      return state.wantsToJoin && !state.busy;
+    case "PREFS_CANCELLED":
+      return state.wantsToJoin && !state.busy;
+    case "EDIT_RSVP":
+      return !state.busy;
+    case "EDIT_CANCELLED":
+      return !state.busy && !state.pendingChoice;
+    case "RESPOND_SUCCEEDED":
+    case "RESPOND_FAILED":
+      return state.pendingChoice !== null;
+    default:
+      return true;
+  }
+}
+
+export function inviteFlowReducer(state: InviteFlowState, event: InviteFlowEvent): InviteFlowState {
+  if (!canHandle(state, event)) return state;
+
+  switch (event.type) {
+    case "BOOTSTRAP":
+      return { ...initialInviteFlowState };
+    case "BOOTSTRAP_DONE":
+      return event.existing
+        ? { ...state, step: "done", resultStatus: event.existing, errorText: null }
+        : { ...state, step: "appChoice" };
+    case "FAIL":
+      return { ...state, step: "error", busy: false, pendingChoice: null, errorText: event.message };
+    case "CONTINUE_ON_WEB":
+      return { ...state, step: "needAuth", errorText: null };
+    case "CODE_SENT":
+      return { ...state, step: "verifyCode", errorText: null };
+    case "CHANGE_CONTACT":
+      return { ...state, step: "needAuth", errorText: null };
+    case "VERIFIED":
+    case "SESSION_RESUMED":
+      return {
+        ...state,
+        step: event.existing ? "done" : "ready",
+        wantsToJoin: false,
+        pendingChoice: null,
+        resultStatus: event.existing,
+        errorText: null,
+      };
+    case "RESPOND":
+      if (event.choice === "yes" && event.requiresPreferences) {
+        return { ...state, wantsToJoin: true, errorText: null };
+      }
+      return { ...state, pendingChoice: event.choice, busy: true, errorText: null };
+    case "PREFS_TOUCHED":
+      return state.prefsTouched ? state : { ...state, prefsTouched: true };
+    case "PREFS_CANCELLED":
+      return { ...state, wantsToJoin: false, errorText: null };
+    case "PREFS_SUBMITTED":
+      return { ...state, pendingChoice: "yes", busy: true, errorText: null };
+    case "RESPOND_SUCCEEDED":
+      return {
+        ...state,
+        step: "done",
+        wantsToJoin: false,
+        pendingChoice: null,
+        resultStatus: event.choice,
+        busy: false,
+        errorText: null,
+      };
+    case "RESPOND_FAILED":
+      return { ...state, pendingChoice: null, busy: false, errorText: event.message };
+    case "EDIT_RSVP":
+      return { ...state, step: "ready", resultStatus: null, wantsToJoin: event.editPreferences, errorText: null };
+    case "EDIT_CANCELLED":
+      return { ...state, step: "done", resultStatus: event.choice, wantsToJoin: false, errorText: null };
+    case "WITHDRAWN":
+      return { ...state, step: "ready", resultStatus: null, wantsToJoin: false, busy: false, errorText: null };
+    case "BUSY_START":
+      return { ...state, busy: true };
+    case "BUSY_END":
+      return { ...state, busy: false };
+    case "SET_ERROR":
+      return { ...state, errorText: event.message };
+  }
+}
+
+// Gate preferenze: nelle feste PAY_AND_DRINK con preferenze attive il "Ci sono" passa prima dalla scelta delle bevande.
+export function requiresPreferencesBeforeJoin(
+  invite: { party_mode?: string | null; show_drink_preferences?: boolean | null } | null
+) {
+  const partyModeRaw = String(invite?.party_mode ?? "").toUpperCase().trim();
+  return partyModeRaw === "PAY_AND_DRINK" && invite?.show_drink_preferences === true;
+}
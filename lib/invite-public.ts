@@ -0,0 +1,66 @@
+import { createHash } from "node:crypto";
+import { cache } from "react";
+import { formatInviteDiagnostics, isInviteExpired, parseInvitePayload } from "@/lib/invite-contract";
+import { createLogger } from "@/lib/log";
+import { supabaseServer } from "@/lib/supabase-server";
+
+const log = createLogger("invite-preview");
+
+export type InvitePreview = {
+  party_title: string | null;
+  party_date: string | null;
+  party_timezone: string | null;
+  party_date_revision: number;
+  party_mode: string | null;
+  party_type: string | null;
+};
+
+// Legge get_invite_public lato server. Ritorna null per token sconosciuti, scaduti o in caso di errore,
+// così chi chiama può mostrare una preview neutra senza esporre nulla.
+export const getInvitePreview = cache(async (token: string): Promise<InvitePreview | null> => {
+  if (!token) return null;
+
+  try {
+    const { data, error } = await supabaseServer.rpc("get_invite_public", { p_token: token });
+    if (error) {
+      log.error("get_invite_public error", error);
+      return null;
+    }
+
+    const row: unknown = Array.isArray(data) ? data[0] : data;
+    if (!row) return null;
+
+    const parsed = parseInvitePayload(row);
+    if (!parsed.ok) {
+      log.error("invalid payload", formatInviteDiagnostics(parsed.diagnostics));
+      return null;
+    }
+    if (isInviteExpired(parsed.invite)) return null;
+
+    const { party_title, party_date, party_timezone, party_date_revision, party_mode, party_type } = parsed.invite;
+    return { party_title, party_date, party_timezone, party_date_revision, party_mode, party_type };
+  } catch (e) {
+    log.error("unexpected error", e);
+    return null;
+  }
+});
+
+export const INVITE_CARD_SIZE = { width: 1200, height: 630 };
+
+// Versione della card social: cambia quando cambiano i campi disegnati nell'immagine,
+// così l'URL della card cambia e le app di chat scaricano quella nuova.
+export function inviteCardVersion(preview: InvitePreview | null) {
+  if (!preview) return "none";
+
+  const source = [
+    preview.party_title,
+    preview.party_date,
+    preview.party_timezone,
+    preview.party_mode,
+    preview.party_type,
+  ]
+    .map((v) => v ?? "")
+    .join("|");
+
+  return createHash("sha1").update(source).digest("hex").slice(0, 12);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { redact, redactString } from "@/lib/log";
+
+describe("redactString phones", () => {
+  it("redacts international numbers with or without separators", () => {
+    expect(redactString("sms to +39 333 123 4567")).toBe("sms to [phone]");
+    expect(redactString("sms to +393331234567.")).toBe("sms to [phone].");
+    expect(redactString("call +1 (201) 555-0123 now")).toBe("call [phone] now");
+    expect(redactString("+44 7400 123456")).toBe("[phone]");
+  });
+
+  it("redacts national numbers written in groups", () => {
+    expect(redactString("phone 333 123 4567")).toBe("phone [phone]");
+    expect(redactString("phone 06 12 34 56 78")).toBe("phone [phone]");
+    expect(redactString("phone (201) 555-0123")).toBe("phone [phone]");
+  });
+
+  it("leaves ids, timestamps and dates alone", () => {
+    expect(redactString("id 1234567890")).toBe("id 1234567890");
+    expect(redactString("at 1760000000123")).toBe("at 1760000000123");
+    expect(redactString("order 123456789012345678")).toBe("order 123456789012345678");
+    expect(redactString("evt_1PfixtureCompleted0001")).toBe("evt_1PfixtureCompleted0001");
+    expect(redactString("2026-07-10 21:00:00")).toBe("2026-07-10 21:00:00");
+    expect(redactString("status 200 in 35 ms")).toBe("status 200 in 35 ms");
+    expect(redactString("ip 192.168.100.200")).toBe("ip 192.168.100.200");
+  });
+
+  it("does not redact a + number that is too long to be a phone", () => {
+    expect(redactString("+1234567890123456789")).toBe("+1234567890123456789");
+  });
+});
+
+describe("redact", () => {
+  it("hides sensitive keys and patterns in nested data", () => {
+    expect(
+      redact({
+        phone: "+393331234567",
+        note: "write to mario@example.com or +39 333 123 4567",
+        count: 1234567890,
+        url: "/pay/abc123?checkout=success",
+      })
+    ).toEqual({
+      phone: "[redacted]",
+      note: "write to [email] or [phone]",
+      count: 1234567890,
+      url: "/pay/[token]?checkout=success",
+    });
+  });
+});
@@ -0,0 +1,156 @@
+// Logger strutturato per i flussi web (invite-web, pay-link, ...).
+// Ogni argomento passa dalla redazione: email, telefoni, token, id utente e JWT non finiscono mai in console o nel sink.
+// In produzione il livello debug è spento; warn ed error possono essere inoltrati a NEXT_PUBLIC_LOG_ENDPOINT.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogEntry = {
+  level: LogLevel;
+  namespace: string;
+  message: string;
+  data?: unknown;
+  at: string;
+};
+
+export type LogSink = (entry: LogEntry) => void;
+
+export type Logger = Record<LogLevel, (message: string, data?: unknown) => void>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MIN_LEVEL: LogLevel = process.env.NODE_ENV === "production" ? "info" : "debug";
+
+const REDACTED = "[redacted]";
+
+// Chiavi il cui valore viene sempre oscurato, indipendentemente dal contenuto.
+const SENSITIVE_KEYS = new Set([
+  "token",
+  "p_token",
+  "access_token",
+  "refresh_token",
+  "otp",
+  "email",
+  "phone",
+  "user_id",
+  "userid",
+  "uid",
+  "sessionuserid",
+  "guest_user_id",
+  "first_name",
+  "last_name",
+  "password",
+]);
+
+const PATTERNS: [RegExp, string][] = [
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]+/g, "[jwt]"],
+  [/[^\s@"'<>]+@[^\s@"'<>]+\.[a-z]{2,}/gi, "[email]"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "[id]"],
+  [/(\/(?:i|pay)\/)[^/?#\s"']+/g, "$1[token]"],
+  [/([?&](?:token|p_token|access_token|code)=)[^&#\s"']+/gi, "$1[redacted]"],
+];
+
+// Telefoni: "+" e 8-15 cifre ("+39 333 123 4567", "+393331234567") oppure numeri nazionali a gruppi separati
+// da spazi ("333 123 4567", "(201) 555-0123"). Mai dentro una sequenza più lunga di cifre o lettere:
+// id numerici, timestamp in ms e date restano leggibili.
+// Niente lookbehind (Safari < 16.4): il carattere prima del numero si cattura e si rimette.
+const PHONE_PATTERN =
+  /(^|[^\w+])(\+\d(?:[\s.()-]{0,2}\d){7,14}|\(\d{3}\) ?\d{3}[-.]\d{4}|\(?\d{2,4}\)?(?: \d{2,4}){2,4})(?!\w)/g;
+
+function redactPhones(value: string) {
+  return value.replace(PHONE_PATTERN, (match, before: string, phone: string) => {
+    const digits = phone.replace(/\D/g, "").length;
+    return digits >= 8 && digits <= 15 ? `${before}[phone]` : match;
+  });
+}
+
+export function redactString(value: string) {
+  return redactPhones(PATTERNS.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), value));
+}
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (value == null || typeof value === "number" || typeof value === "boolean") return value;
+  if (typeof value === "string") return redactString(value);
+  if (depth > 5) return "[depth]";
+
+  if (value instanceof Error) {
+    const err = value as Error & { code?: unknown; status?: unknown };
+    return {
+      name: err.name,
+      message: redactString(err.message),
+      ...(err.code != null ? { code: redact(err.code, depth + 1) } : {}),
+      ...(err.status != null ? { status: err.status } : {}),
+    };
+  }
+
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1));
+
+  if (typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value as Record<string, unknown>)) {
+      out[key] = SENSITIVE_KEYS.has(key.toLowerCase()) && inner != null ? REDACTED : redact(inner, depth + 1);
+    }
+    return out;
+  }
+
+  return String(value);
+}
+
+function beaconSink(endpoint: string): LogSink {
+  return (entry) => {
+    if (typeof window === "undefined") return;
+    try {
+      const body = JSON.stringify(entry);
+      if (typeof navigator !== "undefined" && typeof navigator.sendBeacon === "function") {
+        navigator.sendBeacon(endpoint, new Blob([body], { type: "application/json" }));
+        return;
+      }
+      void fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body,
+        keepalive: true,
+      }).catch(() => {});
+    } catch {
+      // il logging non deve mai rompere la pagina
+    }
+  };
+}
+
+const LOG_ENDPOINT = process.env.NEXT_PUBLIC_LOG_ENDPOINT || "";
+
+let sink: LogSink | null = LOG_ENDPOINT ? beaconSink(LOG_ENDPOINT) : null;
+
+// Sostituisce (o disattiva con null) il sink che riceve warn ed error.
+export function setLogSink(next: LogSink | null) {
+  sink = next;
+}
+
+function write(level: LogLevel, namespace: string, message: string, data?: unknown) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[MIN_LEVEL]) return;
+
+  const entry: LogEntry = {
+    level,
+    namespace,
+    message: redactString(message),
+    ...(data !== undefined ? { data: redact(data) } : {}),
+    at: new Date().toISOString(),
+  };
+
+  const prefix = `[${namespace}] ${entry.message}`;
+  const args = entry.data !== undefined ? [prefix, entry.data] : [prefix];
+  if (level === "error") console.error(...args);
+  else if (level === "warn") console.warn(...args);
+  else if (level === "info") console.info(...args);
+  else console.debug(...args);
+
+  if (sink && LEVEL_ORDER[level] >= LEVEL_ORDER.warn) sink(entry);
+}
+
+export function createLogger(namespace: string): Logger {
+  return {
+    debug: (message, data) => write("debug", namespace, message, data),
+    info: (message, data) => write("info", namespace, message, data),
+    warn: (message, data) => write("warn", namespace, message, data),
+    error: (message, data) => write("error", namespace, message, data),
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { moneyFromMajor } from "@/lib/money";
+
+describe("moneyFromMajor", () => {
+  it.each([
+    ["12", 1200],
+    ["12.5", 1250],
+    ["12,50", 1250],
+    ["1.234,50", 123450],
+    ["1,234.50", 123450],
+    ["1.234.567", 123456700],
+    ["1,234,567.8", 123456780],
+    ["1 234,50", 123450],
+    ["1 234,50", 123450],
+    ["1'234.50", 123450],
+    ["12.500", 1250],
+  ])("reads %s", (value, amount) => {
+    expect(moneyFromMajor(value, "EUR")).toEqual({ amount, currency: "EUR" });
+  });
+
+  it.each(["", "abc", "12,", "1.2.3,4", "1,23,456.00", "12.34.56", "1.234", "12.345", "1,234", "€ 12", "12,50,00.1"])(
+    "rejects %j instead of turning it into 0",
+    (value) => {
+      expect(moneyFromMajor(value, "EUR")).toBeNull();
+    }
+  );
+
+  it("follows the currency's minor digits", () => {
+    expect(moneyFromMajor("1.500.000", "JPY")).toEqual({ amount: 1500000, currency: "JPY" });
+    expect(moneyFromMajor("1.500", "JPY")).toBeNull();
+    expect(moneyFromMajor("1,234", "BHD")).toEqual({ amount: 1234, currency: "BHD" });
+    expect(moneyFromMajor("1500,5", "JPY")).toBeNull();
+  });
+
+  it("keeps rounding plain numbers", () => {
+    expect(moneyFromMajor(12.345, "EUR")).toEqual({ amount: 1235, currency: "EUR" });
+    expect(moneyFromMajor(Number.NaN, "EUR")).toBeNull();
+    expect(moneyFromMajor(null, "EUR")).toBeNull();
+  });
+});
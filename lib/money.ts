@@ -0,0 +1,121 @@
+// Importi in unità minori intere (centesimi per EUR, yen per JPY) con valuta ISO 4217.
+// Le cifre decimali di ogni valuta e la formattazione per lingua vengono da Intl, niente tabelle locali.
+
+import { DEFAULT_LOCALE, INTL_LOCALE, type Locale } from "@/lib/i18n";
+
+export type Money = {
+  // unità minori, sempre intero
+  amount: number;
+  // ISO 4217 maiuscolo, es. "EUR"
+  currency: string;
+};
+
+export const DEFAULT_CURRENCY = "EUR";
+
+const digitsCache = new Map<string, number>();
+
+export function isCurrencyCode(value: unknown): value is string {
+  if (typeof value !== "string" || !/^[A-Z]{3}$/.test(value)) return false;
+  try {
+    new Intl.NumberFormat("en", { style: "currency", currency: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function resolveCurrency(value: string | null | undefined) {
+  const code = String(value ?? "").trim().toUpperCase();
+  return isCurrencyCode(code) ? code : DEFAULT_CURRENCY;
+}
+
+// Cifre delle unità minori: 2 per EUR, 0 per JPY, 3 per BHD.
+export function currencyDigits(currency: string) {
+  let digits = digitsCache.get(currency);
+  if (digits == null) {
+    digits = new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    digitsCache.set(currency, digits);
+  }
+  return digits;
+}
+
+export function moneyFromMinor(amount: unknown, currency?: string | null): Money | null {
+  if (typeof amount !== "number" || !Number.isInteger(amount)) return null;
+  return { amount, currency: resolveCurrency(currency) };
+}
+
+// Stringa decimale con separatori italiani o inglesi: "12,50", "1.234,50", "1,234.50", "1 234,5".
+// Con entrambi i separatori il decimale è l'ultimo; un separatore ripetuto raggruppa le migliaia.
+// null se la forma non è riconoscibile, così un importo illeggibile non diventa mai 0.
+function parseDecimal(value: string): { int: string; frac: string; negative: boolean } | null {
+  const raw = value.replace(/[\s\u00a0\u202f']/g, "");
+  const m = raw.match(/^([+-]?)(\d[\d.,]*)$/);
+  if (!m || /[.,]$/.test(m[2])) return null;
+  const body = m[2];
+
+  const lastDot = body.lastIndexOf(".");
+  const lastComma = body.lastIndexOf(",");
+  let decimalSep: string | null = null;
+  let groupSep: string | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalSep = lastDot > lastComma ? "." : ",";
+    groupSep = decimalSep === "." ? "," : ".";
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const sep = lastDot >= 0 ? "." : ",";
+    if (body.split(sep).length > 2) groupSep = sep;
+    else decimalSep = sep;
+  }
+
+  const cut = decimalSep ? body.lastIndexOf(decimalSep) : body.length;
+  const intPart = body.slice(0, cut);
+  const frac = decimalSep ? body.slice(cut + 1) : "";
+  if (!/^\d*$/.test(frac)) return null;
+  if (groupSep) {
+    const groups = intPart.split(groupSep);
+    if (!/^\d{1,3}$/.test(groups[0]) || groups.slice(1).some((g) => !/^\d{3}$/.test(g))) return null;
+  } else if (!/^\d+$/.test(intPart)) {
+    return null;
+  }
+  return { int: intPart.split(groupSep ?? "").join(""), frac, negative: m[1] === "-" };
+}
+
+// Importo in unità maggiori, numero o stringa ("12.5", "12,50", "1.234,50"), come arriva dai campi legacy.
+// Da stringa non arrotonda: più decimali di quanti ne preveda la valuta ("1.234" in EUR) è ambiguo, quindi null.
+export function moneyFromMajor(value: unknown, currency?: string | null): Money | null {
+  const code = resolveCurrency(currency);
+  const digits = currencyDigits(code);
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    return { amount: Math.round(value * 10 ** digits), currency: code };
+  }
+
+  const parsed = parseDecimal(String(value ?? "").trim());
+  if (!parsed || /[1-9]/.test(parsed.frac.slice(digits))) return null;
+  const amount = Number(parsed.int + parsed.frac.slice(0, digits).padEnd(digits, "0"));
+  if (!Number.isSafeInteger(amount)) return null;
+  return { amount: parsed.negative ? -amount : amount, currency: code };
+}
+
+export function isPositiveMoney(money: Money | null): money is Money {
+  return !!money && money.amount > 0;
+}
+
+// "12.50", "1500" (JPY): per URL e API che vogliono l'importo in unità maggiori col punto.
+export function moneyToDecimal(money: Money, options: { trimZeroFraction?: boolean } = {}) {
+  const digits = currencyDigits(money.currency);
+  const major = money.amount / 10 ** digits;
+  if (options.trimZeroFraction && money.amount % 10 ** digits === 0) return String(major);
+  return major.toFixed(digits);
+}
+
+// "12,50 €" in italiano, "€12.50" in inglese, "CHF 12.50"...
+export function formatMoney(money: Money, locale: Locale = DEFAULT_LOCALE) {
+  const digits = currencyDigits(money.currency);
+  return new Intl.NumberFormat(INTL_LOCALE[locale], {
+    style: "currency",
+    currency: money.currency,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(money.amount / 10 ** digits);
+}
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { OtpError, createOtpProviders, fakeSmsOtp, supabaseEmailOtp, supabaseSmsOtp, toOtpError } from "@/lib/otp";
+
+function mockClient() {
+  const auth = {
+    signInWithOtp: vi.fn().mockResolvedValue({ error: null }),
+    verifyOtp: vi.fn().mockResolvedValue({ data: { user: { id: "user-otp" } }, error: null }),
+    signInAnonymously: vi.fn().mockResolvedValue({ data: { user: { id: "user-anon" } }, error: null }),
+  };
+  return { auth, client: { auth } as unknown as SupabaseClient };
+}
+
+describe("toOtpError", () => {
+  it("reads the retry delay from rate-limit messages", () => {
+    const err = toOtpError({ message: "For security purposes, you can only request this after 42 seconds." });
+    expect(err).toMatchObject({ kind: "rateLimited", retryAfterSec: 42 });
+    expect(toOtpError(new Error("429 Too Many Requests"))).toMatchObject({ kind: "rateLimited", retryAfterSec: null });
+  });
+
+  it("tells expired codes from invalid ones", () => {
+    expect(toOtpError({ message: "Token has expired or is invalid" }).kind).toBe("expired");
+    expect(toOtpError({ message: "Invalid token" }).kind).toBe("invalid");
+  });
+
+  it("falls back to failed and keeps OtpError as is", () => {
+    expect(toOtpError("network down").kind).toBe("failed");
+    expect(toOtpError(null).kind).toBe("failed");
+    const original = new OtpError("invalid", "wrong code");
+    expect(toOtpError(original)).toBe(original);
+  });
+});
+
+describe("supabase providers", () => {
+  it("email retries as magic link before failing", async () => {
+    const { auth, client } = mockClient();
+    auth.verifyOtp
+      .mockResolvedValueOnce({ data: { user: null }, error: { message: "Token has expired or is invalid" } })
+      .mockResolvedValueOnce({ data: { user: { id: "user-link" } }, error: null });
+
+    await expect(supabaseEmailOtp(client).verify("a@b.it", "12345678")).resolves.toEqual({ userId: "user-link" });
+    expect(auth.verifyOtp).toHaveBeenLastCalledWith({ email: "a@b.it", token: "12345678", type: "magiclink" });
+  });
+
+  it("sms sends on the sms channel and maps errors", async () => {
+    const { auth, client } = mockClient();
+    const sms = supabaseSmsOtp(client);
+
+    await sms.send("+393331234567");
+    expect(auth.signInWithOtp).toHaveBeenCalledWith({
+      phone: "+393331234567",
+      options: { shouldCreateUser: true, channel: "sms" },
+    });
+
+    auth.signInWithOtp.mockResolvedValueOnce({ error: { message: "only request this after 30 seconds" } });
+    await expect(sms.send("+393331234567")).rejects.toMatchObject({ kind: "rateLimited", retryAfterSec: 30 });
+  });
+});
+
+describe("fakeSmsOtp", () => {
+  it("accepts only the configured code and opens a Supabase session", async () => {
+    const { auth, client } = mockClient();
+    const fake = fakeSmsOtp(client, { code: "4242" });
+    expect(fake.codeLength).toBe(4);
+
+    await fake.send("+393331234567");
+    await expect(fake.verify("+393331234567", "0000")).rejects.toMatchObject({ kind: "invalid" });
+    expect(auth.signInAnonymously).not.toHaveBeenCalled();
+
+    await expect(fake.verify("+393331234567", "4242")).resolves.toEqual({ userId: "user-anon" });
+    expect(auth.signInAnonymously).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects numbers without a sent code, including after a successful verify", async () => {
+    const { client } = mockClient();
+    const fake = fakeSmsOtp(client);
+
+    await expect(fake.verify("+393331234567", "123456")).rejects.toMatchObject({ kind: "expired" });
+    await fake.send("+393331234567");
+    await fake.verify("+393331234567", "123456");
+    await expect(fake.verify("+393331234567", "123456")).rejects.toMatchObject({ kind: "expired" });
+  });
+
+  it("fails when the session cannot be opened", async () => {
+    const { auth, client } = mockClient();
+    auth.signInAnonymously.mockResolvedValueOnce({
+      data: { user: null },
+      error: { message: "Anonymous sign-ins are disabled" },
+    });
+    const fake = fakeSmsOtp(client);
+
+    await fake.send("+393331234567");
+    await expect(fake.verify("+393331234567", "123456")).rejects.toMatchObject({ kind: "failed" });
+  });
+});
+
+describe("createOtpProviders", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the fake sms provider only outside production", async () => {
+    const { auth, client } = mockClient();
+    vi.stubEnv("NEXT_PUBLIC_SMS_OTP_PROVIDER", "fake");
+
+    vi.stubEnv("NODE_ENV", "development");
+    await createOtpProviders(client).sms.send("+393331234567");
+    expect(auth.signInWithOtp).not.toHaveBeenCalled();
+
+    vi.stubEnv("NODE_ENV", "production");
+    await createOtpProviders(client).sms.send("+393331234567");
+    expect(auth.signInWithOtp).toHaveBeenCalledTimes(1);
+  });
+
+  it("always uses Supabase for email", () => {
+    const { client } = mockClient();
+    vi.stubEnv("NEXT_PUBLIC_SMS_OTP_PROVIDER", "fake");
+    expect(createOtpProviders(client).email).toMatchObject({ channel: "email", codeLength: 8 });
+  });
+});
@@ -0,0 +1,127 @@
+// Codici di accesso monouso (OTP) per il login web: via email o via SMS.
+// Ogni canale è un OtpProvider intercambiabile: in produzione Supabase Auth, in locale/test un fake
+// che non spedisce niente (NEXT_PUBLIC_SMS_OTP_PROVIDER=fake, ignorato in produzione) e apre una sessione
+// anonima di Supabase, così il salvataggio del profilo passa da RLS come dopo un vero login.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createLogger } from "@/lib/log";
+
+const log = createLogger("otp");
+
+export type OtpChannel = "email" | "sms";
+
+export type OtpErrorKind = "rateLimited" | "expired" | "invalid" | "failed";
+
+export class OtpError extends Error {
+  constructor(
+    readonly kind: OtpErrorKind,
+    message: string,
+    // secondi da attendere prima di un nuovo invio, quando il server li comunica
+    readonly retryAfterSec: number | null = null
+  ) {
+    super(message);
+    this.name = "OtpError";
+  }
+}
+
+export type OtpProvider = {
+  channel: OtpChannel;
+  codeLength: number;
+  // attesa minima tra due invii sullo stesso canale
+  cooldownSec: number;
+  // destination: email in minuscolo oppure numero E.164
+  send(destination: string): Promise<void>;
+  verify(destination: string, code: string): Promise<{ userId: string | null }>;
+};
+
+function errorMessage(e: unknown) {
+  if (!e) return "";
+  if (typeof e === "string") return e;
+  if (typeof e === "object" && "message" in e && typeof e.message === "string") return e.message;
+  return String(e);
+}
+
+// Traduce gli errori di Supabase Auth (solo testo, niente codici stabili) in OtpError.
+export function toOtpError(e: unknown): OtpError {
+  if (e instanceof OtpError) return e;
+
+  const msg = errorMessage(e);
+  if (/429|too many requests|rate limit/i.test(msg) || /only request this after/i.test(msg)) {
+    const m = msg.match(/after\s+(\d+)\s+seconds/i);
+    const sec = m ? parseInt(m[1], 10) : null;
+    return new OtpError("rateLimited", msg, sec != null && Number.isFinite(sec) && sec > 0 ? sec : null);
+  }
+  if (/expired|scadut/i.test(msg)) return new OtpError("expired", msg);
+  if (/invalid|token/i.test(msg)) return new OtpError("invalid", msg);
+  return new OtpError("failed", msg);
+}
+
+export function supabaseEmailOtp(client: SupabaseClient): OtpProvider {
+  return {
+    channel: "email",
+    codeLength: 8,
+    cooldownSec: 30,
+    async send(email) {
+      const { error } = await client.auth.signInWithOtp({ email, options: { shouldCreateUser: true } });
+      if (error) throw toOtpError(error);
+    },
+    async verify(email, code) {
+      let res = await client.auth.verifyOtp({ email, token: code, type: "email" });
+      // link/codice generati come magic link (utenti creati prima del passaggio agli OTP)
+      if (res.error) res = await client.auth.verifyOtp({ email, token: code, type: "magiclink" });
+      if (res.error) throw toOtpError(res.error);
+      return { userId: res.data.user?.id ?? null };
+    },
+  };
+}
+
+// Supabase phone auth: l'SMS parte dal provider configurato nel progetto (Twilio, MessageBird, …).
+export function supabaseSmsOtp(client: SupabaseClient): OtpProvider {
+  return {
+    channel: "sms",
+    codeLength: 6,
+    cooldownSec: 60,
+    async send(phone) {
+      const { error } = await client.auth.signInWithOtp({ phone, options: { shouldCreateUser: true, channel: "sms" } });
+      if (error) throw toOtpError(error);
+    },
+    async verify(phone, code) {
+      const { data, error } = await client.auth.verifyOtp({ phone, token: code, type: "sms" });
+      if (error) throw toOtpError(error);
+      return { userId: data.user?.id ?? null };
+    },
+  };
+}
+
+// Fake per sviluppo e test: non invia nulla e accetta solo `code`. La sessione è anonima (signInAnonymously):
+// nel progetto di sviluppo gli accessi anonimi devono essere attivi.
+export function fakeSmsOtp(client: SupabaseClient, options: { code?: string } = {}): OtpProvider {
+  const code = options.code ?? "123456";
+  const sent = new Set<string>();
+  return {
+    channel: "sms",
+    codeLength: code.length,
+    cooldownSec: 5,
+    async send(phone) {
+      sent.add(phone);
+      log.info("fake sms sent", { phone, code });
+    },
+    async verify(phone, input) {
+      if (!sent.has(phone)) throw new OtpError("expired", "no code sent to this number");
+      if (input !== code) throw new OtpError("invalid", "wrong code");
+
+      const { data, error } = await client.auth.signInAnonymously();
+      if (error) throw toOtpError(error);
+      sent.delete(phone);
+      return { userId: data.user?.id ?? null };
+    },
+  };
+}
+
+export function createOtpProviders(client: SupabaseClient): Record<OtpChannel, OtpProvider> {
+  const useFakeSms = process.env.NEXT_PUBLIC_SMS_OTP_PROVIDER === "fake" && process.env.NODE_ENV !== "production";
+  return {
+    email: supabaseEmailOtp(client),
+    sms: useFakeSms ? fakeSmsOtp(client) : supabaseSmsOtp(client),
+  };
+}
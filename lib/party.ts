@@ -0,0 +1,18 @@
+// Helper condivisi per mostrare i dati di una festa (pagina invito, preview social)
+
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@/lib/i18n";
+
+export function partyTypeLabel(
+  partyMode: string | null | undefined,
+  partyType: string | null | undefined,
+  locale: Locale = DEFAULT_LOCALE
+) {
+  const labels = getMessages(locale).party.type;
+  const rawMode = String(partyMode ?? "").toUpperCase().trim();
+  const rawType = String(partyType ?? "").toUpperCase().trim();
+
+  if (rawMode === "PAY_AND_DRINK" || rawType === "COLLECTION") return labels.paid;
+  if (rawType === "CLOSED_LIST") return labels.free;
+  if (rawType === "BRING_DRINKS") return labels.byob;
+  return rawMode === "PAY_AND_DRINK" ? labels.paid : labels.free;
+}
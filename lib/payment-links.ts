@@ -0,0 +1,121 @@
+// Link di pagamento Satispay e PayPal.me con importo (la quota della festa) e causale già compilati.
+// L'handle dell'organizzatore arriva da satispay_handle / paypal_handle o, in mancanza, si ricava da
+// satispay_url / paypal_url; se non si riconosce nessun handle il link salvato si apre così com'è.
+
+import { isPositiveMoney, moneyToDecimal } from "@/lib/money";
+import { feeMoney, type PaymentPageRow } from "@/lib/payments";
+
+export type PaymentLink = {
+  web: string;
+  // deep link dell'app, provato prima del web su mobile
+  app: string | null;
+};
+
+const PAYPAL_HANDLE = /^[A-Za-z0-9]{1,20}$/;
+const SATISPAY_HANDLE = /^[A-Za-z0-9._-]{2,40}$/;
+const REFERENCE_MAX_LENGTH = 60;
+
+function parseUrl(value: string) {
+  try {
+    return new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+}
+
+// Causale: l'organizzatore la vede nella cronologia e la usa per riconoscere il pagamento.
+export function paymentReference(row: Pick<PaymentPageRow, "party_title">) {
+  const title = String(row.party_title ?? "").replace(/\s+/g, " ").trim();
+  return `echo · ${title}`.slice(0, REFERENCE_MAX_LENGTH).trim();
+}
+
+// "mario", "@mario", "paypal.me/mario", "https://www.paypal.com/paypalme/mario/10EUR"
+export function paypalHandle(value: string | null | undefined) {
+  const raw = String(value ?? "").trim().replace(/^@/, "");
+  if (!raw) return null;
+  if (PAYPAL_HANDLE.test(raw)) return raw;
+
+  const url = parseUrl(raw);
+  if (!url) return null;
+  const host = url.hostname.replace(/^www\./, "").toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+  const handle =
+    host === "paypal.me" ? segments[0] : host === "paypal.com" && segments[0] === "paypalme" ? segments[1] : null;
+  return handle && PAYPAL_HANDLE.test(handle) ? handle : null;
+}
+
+// "mariorossi", "tag.satispay.com/mariorossi"
+export function satispayHandle(value: string | null | undefined) {
+  const raw = String(value ?? "").trim().replace(/^@/, "");
+  if (!raw) return null;
+  if (SATISPAY_HANDLE.test(raw)) return raw;
+
+  const url = parseUrl(raw);
+  if (!url || url.hostname.toLowerCase() !== "tag.satispay.com") return null;
+  const handle = url.pathname.split("/").filter(Boolean)[0];
+  return handle && SATISPAY_HANDLE.test(handle) ? handle : null;
+}
+
+// PayPal.me: https://paypal.me/<handle>/<importo><valuta>, es. /mario/15.50EUR.
+// La causale non si può precompilare: la pagina la mostra.
+// Il link universale apre già l'app PayPal se installata.
+export function paypalLink(row: PaymentPageRow): PaymentLink | null {
+  const handle = paypalHandle(row.paypal_handle) ?? paypalHandle(row.paypal_url);
+  const fee = feeMoney(row);
+
+  if (!handle) return row.paypal_url ? { web: row.paypal_url, app: null } : null;
+
+  const amount = isPositiveMoney(fee) ? `/${moneyToDecimal(fee, { trimZeroFraction: true })}${fee.currency}` : "";
+  return { web: `https://paypal.me/${encodeURIComponent(handle)}${amount}`, app: null };
+}
+
+// Satispay tag: web https://tag.satispay.com/<tag>, app satispay://tag/<tag>; importo in centesimi e causale in query.
+// Satispay incassa solo in euro: con altre valute l'importo non si precompila.
+export function satispayLink(row: PaymentPageRow): PaymentLink | null {
+  const handle = satispayHandle(row.satispay_handle) ?? satispayHandle(row.satispay_url);
+  const fee = feeMoney(row);
+
+  if (!handle) return row.satispay_url ? { web: row.satispay_url, app: null } : null;
+
+  const query = new URLSearchParams();
+  if (isPositiveMoney(fee) && fee.currency === "EUR") {
+    query.set("amount", String(fee.amount));
+    query.set("currency", fee.currency);
+  }
+  query.set("description", paymentReference(row));
+
+  const path = encodeURIComponent(handle);
+  return {
+    web: `https://tag.satispay.com/${path}?${query}`,
+    app: `satispay://tag/${path}?${query}`,
+  };
+}
+
+export function isMobileBrowser() {
+  return typeof navigator !== "undefined" && /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
+}
+
+const APP_FALLBACK_DELAY_MS = 1500;
+
+// Prova il deep link; se dopo un attimo la pagina è ancora in primo piano l'app non c'è: apre il web.
+export function openPaymentLink(link: PaymentLink) {
+  if (!link.app || !isMobileBrowser()) {
+    window.open(link.web, "_blank", "noopener,noreferrer");
+    return;
+  }
+
+  const timer = window.setTimeout(() => {
+    document.removeEventListener("visibilitychange", onHidden);
+    if (document.visibilityState === "visible") window.location.assign(link.web);
+  }, APP_FALLBACK_DELAY_MS);
+
+  function onHidden() {
+    if (document.visibilityState === "hidden") {
+      window.clearTimeout(timer);
+      document.removeEventListener("visibilitychange", onHidden);
+    }
+  }
+
+  document.addEventListener("visibilitychange", onHidden);
+  window.location.assign(link.app);
+}
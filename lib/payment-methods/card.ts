@@ -0,0 +1,25 @@
+import { isPositiveMoney } from "@/lib/money";
+import type { PaymentMethod } from "@/lib/payment-methods/types";
+import { feeMoney } from "@/lib/payments";
+
+// Stripe Checkout (app/api/pay/[token]/checkout): serve anche STRIPE_SECRET_KEY lato server.
+const CARD_PAYMENTS_ENABLED = process.env.NEXT_PUBLIC_CARD_PAYMENTS === "stripe";
+
+export const card: PaymentMethod = {
+  id: "card",
+  icon: "💳",
+  labelKey: "pay.paymentMethod.card",
+  buttonKey: "pay.card.pay",
+  hintKey: "pay.card.hint",
+  available: (row) => CARD_PAYMENTS_ENABLED && isPositiveMoney(feeMoney(row)),
+  action: {
+    kind: "instant",
+    async start(ctx) {
+      const res = await fetch(`/api/pay/${encodeURIComponent(ctx.token)}/checkout`, { method: "POST" });
+      const json = (await res.json().catch(() => null)) as { url?: string; error?: string } | null;
+      if (!res.ok || !json?.url) throw new Error(json?.error ?? `checkout ${res.status}`);
+      return json.url;
+    },
+  },
+  verification: "automatic",
+};
@@ -0,0 +1,27 @@
+import type { PaymentMethod } from "@/lib/payment-methods/types";
+import { notifyOrganizerPaymentUpdate } from "@/lib/payment-methods/claims";
+
+export const cash: PaymentMethod = {
+  id: "cash",
+  icon: "💵",
+  labelKey: "pay.paymentMethod.cash",
+  buttonKey: "pay.payCash",
+  sentKey: "pay.cashSent",
+  available: () => true,
+  action: {
+    kind: "claim",
+    async claim(ctx) {
+      const { data, error } = await ctx.client.rpc("choose_cash_payment_from_link", {
+        p_token: ctx.token,
+      });
+
+      if (error) throw error;
+
+      const result = Array.isArray(data) ? data[0] : data;
+      if (!result?.ok) throw new Error(ctx.t("pay.errors.cashFailed"));
+
+      await notifyOrganizerPaymentUpdate(ctx, "cash");
+    },
+  },
+  verification: "manual",
+};
@@ -0,0 +1,57 @@
+// Dichiarazioni di pagamento dalla pagina pubblica (senza sessione, solo token), condivise dai metodi.
+
+import type { MessageKey } from "@/lib/i18n";
+import { createLogger } from "@/lib/log";
+import type { PaymentMethodContext } from "@/lib/payment-methods/types";
+
+const log = createLogger("payment-claim");
+
+export async function notifyOrganizerPaymentUpdate(ctx: PaymentMethodContext, method: string) {
+  const { data, error } = await ctx.client.functions.invoke("notify-organizer-payment-from-link", {
+    body: {
+      token: ctx.token,
+      method,
+    },
+  });
+
+  log.debug("notify-organizer-payment-from-link response", { data, error });
+
+  if (error) {
+    let detailedMessage = "Failed to send a request to the edge function";
+
+    try {
+      const context = (error as { context?: { json?: () => Promise<{ error?: string; message?: string }> } }).context;
+      if (context?.json) {
+        const errJson = await context.json();
+        detailedMessage = errJson?.error ?? errJson?.message ?? detailedMessage;
+      } else if (error instanceof Error && error.message) {
+        detailedMessage = error.message;
+      }
+    } catch {
+      if (error instanceof Error && error.message) {
+        detailedMessage = error.message;
+      }
+    }
+
+    throw new Error(detailedMessage);
+  }
+}
+
+// Dichiarazione "ho pagato" per un metodo esterno (Satispay, PayPal, ...): stato pending_review finché
+// l'organizzatore non verifica. Un nuovo metodo di questo tipo non richiede RPC dedicate.
+export function claimFromLink(method: string, failedKey: MessageKey = "pay.errors.updateFailed") {
+  return async (ctx: PaymentMethodContext) => {
+    const { data, error } = await ctx.client.rpc("mark_guest_payment_claim_from_link", {
+      p_token: ctx.token,
+      p_method: method,
+      p_proof_path: ctx.proofPath,
+    });
+
+    if (error) throw error;
+
+    const result = Array.isArray(data) ? data[0] : data;
+    if (!result?.ok) throw new Error(ctx.t(failedKey));
+
+    await notifyOrganizerPaymentUpdate(ctx, method);
+  };
+}
@@ -0,0 +1,30 @@
+// Registro dei metodi di pagamento, nell'ordine in cui la pagina li propone.
+// Per aggiungerne uno (es. bonifico, Revolut): un modulo accanto a questi, una riga qui e le etichette nei cataloghi.
+
+import { labelFor, type Messages, type Translator } from "@/lib/i18n";
+import type { PaymentPageRow } from "@/lib/payments";
+import { card } from "@/lib/payment-methods/card";
+import { cash } from "@/lib/payment-methods/cash";
+import { paypal } from "@/lib/payment-methods/paypal";
+import { satispay } from "@/lib/payment-methods/satispay";
+import type { PaymentMethod } from "@/lib/payment-methods/types";
+
+export type { PaymentMethod, PaymentMethodAction, PaymentMethodContext, PaymentVerification } from "@/lib/payment-methods/types";
+
+export const PAYMENT_METHODS: readonly PaymentMethod[] = [card, satispay, paypal, cash];
+
+export function getPaymentMethod(id: string | null | undefined) {
+  const key = String(id ?? "").trim().toLowerCase();
+  return PAYMENT_METHODS.find((method) => method.id === key) ?? null;
+}
+
+export function availablePaymentMethods(row: PaymentPageRow) {
+  return PAYMENT_METHODS.filter((method) => method.available(row));
+}
+
+// Nome del metodo salvato; valori sconosciuti al registro passano così come arrivano.
+export function paymentMethodLabel(t: Translator, messages: Messages, value: string | null) {
+  const method = getPaymentMethod(value);
+  if (method) return t(method.labelKey);
+  return labelFor(messages.pay.paymentMethod, value) ?? value ?? messages.pay.methodNone;
+}
@@ -0,0 +1,20 @@
+import type { PaymentMethod } from "@/lib/payment-methods/types";
+import { claimFromLink } from "@/lib/payment-methods/claims";
+import { paypalLink } from "@/lib/payment-links";
+
+export const paypal: PaymentMethod = {
+  id: "paypal",
+  icon: "🅿️",
+  labelKey: "pay.paymentMethod.paypal",
+  buttonKey: "pay.openPaypal",
+  sentKey: "pay.claimSent",
+  available: (row) => !!paypalLink(row),
+  action: {
+    kind: "redirect",
+    link: paypalLink,
+    claimKey: "pay.paidPaypal",
+    claim: claimFromLink("paypal"),
+  },
+  verification: "manual",
+  acceptsProof: true,
+};
@@ -0,0 +1,20 @@
+import type { PaymentMethod } from "@/lib/payment-methods/types";
+import { claimFromLink } from "@/lib/payment-methods/claims";
+import { satispayLink } from "@/lib/payment-links";
+
+export const satispay: PaymentMethod = {
+  id: "satispay",
+  icon: "📱",
+  labelKey: "pay.paymentMethod.satispay",
+  buttonKey: "pay.openSatispay",
+  sentKey: "pay.claimSent",
+  available: (row) => !!satispayLink(row),
+  action: {
+    kind: "redirect",
+    link: satispayLink,
+    claimKey: "pay.paidSatispay",
+    claim: claimFromLink("satispay"),
+  },
+  verification: "manual",
+  acceptsProof: true,
+};
@@ -0,0 +1,49 @@
+// Contratto di un metodo di pagamento della pagina /pay/[token]. Ogni metodo è un modulo in lib/payment-methods
+// registrato in index.ts: pagina, stato e ricevuta leggono da lì etichette, disponibilità e azione.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MessageKey, Translator } from "@/lib/i18n";
+import type { PaymentLink } from "@/lib/payment-links";
+import type { PaymentPageRow } from "@/lib/payments";
+
+export type PaymentMethodContext = {
+  client: SupabaseClient;
+  token: string;
+  t: Translator;
+  // path nel bucket della prova di pagamento, se l'ospite l'ha allegata
+  proofPath: string | null;
+};
+
+export type PaymentMethodAction =
+  // si paga fuori da echo (link esterno), poi l'ospite dichiara di aver pagato
+  | {
+      kind: "redirect";
+      link: (row: PaymentPageRow) => PaymentLink | null;
+      // bottone "ho pagato" dopo il pagamento esterno
+      claimKey: MessageKey;
+      claim: (ctx: PaymentMethodContext) => Promise<void>;
+    }
+  // solo dichiarazione: il pagamento avviene di persona
+  | { kind: "claim"; claim: (ctx: PaymentMethodContext) => Promise<void> }
+  // pagamento gestito da echo: `start` ritorna l'URL del checkout, la conferma arriva dal provider
+  | { kind: "instant"; start: (ctx: PaymentMethodContext) => Promise<string> };
+
+// manual: l'organizzatore verifica (pending_review); automatic: il provider conferma da solo.
+export type PaymentVerification = "manual" | "automatic";
+
+export type PaymentMethod = {
+  // valore di payment_method nel backend
+  id: string;
+  icon: string;
+  // nome del metodo (stato attuale, ricevuta)
+  labelKey: MessageKey;
+  // bottone principale; riceve {amount}
+  buttonKey: MessageKey;
+  hintKey?: MessageKey;
+  // messaggio dopo una dichiarazione riuscita (redirect e claim)
+  sentKey?: MessageKey;
+  available: (row: PaymentPageRow) => boolean;
+  action: PaymentMethodAction;
+  verification: PaymentVerification;
+  acceptsProof?: boolean;
+};
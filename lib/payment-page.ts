@@ -0,0 +1,26 @@
+// Riga della pagina di pagamento letta lato server (ricevuta, checkout con carta), con il token del link.
+
+import { cache } from "react";
+import { createLogger } from "@/lib/log";
+import type { PaymentPageRow } from "@/lib/payments";
+import { supabaseServer } from "@/lib/supabase-server";
+
+const log = createLogger("payment-page");
+
+// null per token sconosciuti o scaduti e in caso di errore: chi chiama risponde 404 senza dettagli.
+export const getPaymentPage = cache(async (token: string): Promise<PaymentPageRow | null> => {
+  if (!token) return null;
+
+  try {
+    const { data, error } = await supabaseServer.rpc("get_guest_payment_page_public", { p_token: token });
+    if (error) {
+      log.error("get_guest_payment_page_public error", error);
+      return null;
+    }
+
+    return ((Array.isArray(data) ? data[0] : data) as PaymentPageRow | null | undefined) ?? null;
+  } catch (e) {
+    log.error("unexpected error", e);
+    return null;
+  }
+});
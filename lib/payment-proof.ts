@@ -0,0 +1,71 @@
+// Prova di pagamento (screenshot o PDF della transazione) allegata alla conferma Satispay/PayPal.
+// Il bucket è privato: la pagina di pagamento non ha sessione, quindi l'edge function
+// create-payment-proof-upload verifica il token del link e rilascia un URL di upload firmato
+// per quell'ospite. La lettura resta all'organizzatore (dall'app) e all'ospite stesso.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const PAYMENT_PROOF_BUCKET = "payment-proofs";
+
+export const PAYMENT_PROOF_MAX_BYTES = 5 * 1024 * 1024;
+
+export type PaymentProofKind = "image" | "pdf";
+
+// Tipi accettati con la firma dei primi byte: il MIME dichiarato dal browser non basta.
+const PROOF_TYPES: { mime: string; kind: PaymentProofKind; matches: (bytes: Uint8Array) => boolean }[] = [
+  { mime: "image/jpeg", kind: "image", matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mime: "image/png", kind: "image", matches: (b) => ascii(b, 1, 4) === "PNG" && b[0] === 0x89 },
+  { mime: "image/webp", kind: "image", matches: (b) => ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 12) === "WEBP" },
+  { mime: "application/pdf", kind: "pdf", matches: (b) => ascii(b, 0, 5) === "%PDF-" },
+];
+
+export const PAYMENT_PROOF_ACCEPT = PROOF_TYPES.map((type) => type.mime).join(",");
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+export type PaymentProofError = "empty" | "tooLarge" | "type";
+
+export async function validatePaymentProof(
+  file: File
+): Promise<{ ok: true; mime: string; kind: PaymentProofKind } | { ok: false; error: PaymentProofError }> {
+  if (file.size === 0) return { ok: false, error: "empty" };
+  if (file.size > PAYMENT_PROOF_MAX_BYTES) return { ok: false, error: "tooLarge" };
+
+  const head = new Uint8Array(await file.slice(0, 12).arrayBuffer());
+  const type = PROOF_TYPES.find((candidate) => candidate.matches(head));
+  if (!type) return { ok: false, error: "type" };
+
+  return { ok: true, mime: type.mime, kind: type.kind };
+}
+
+// Carica la prova e ritorna il path nel bucket, da passare a mark_guest_payment_claim_from_link.
+export async function uploadPaymentProof(client: SupabaseClient, params: { token: string; file: File }) {
+  const checked = await validatePaymentProof(params.file);
+  if (!checked.ok) throw new Error(`invalid payment proof: ${checked.error}`);
+
+  const { data, error } = await client.functions.invoke("create-payment-proof-upload", {
+    body: { token: params.token, content_type: checked.mime, size: params.file.size },
+  });
+  if (error) throw error;
+
+  const signed = data as { path?: string; upload_token?: string } | null;
+  if (!signed?.path || !signed.upload_token) throw new Error("missing signed upload url");
+
+  const upload = await client.storage
+    .from(PAYMENT_PROOF_BUCKET)
+    .uploadToSignedUrl(signed.path, signed.upload_token, params.file, { contentType: checked.mime });
+  if (upload.error) throw upload.error;
+
+  return signed.path;
+}
+
+// Elimina una prova caricata ma non agganciata a nessuna conferma (claim fallito). Come per l'upload,
+// senza sessione passa dall'edge function, che accetta solo path emessi per il token del link.
+export async function discardPaymentProof(client: SupabaseClient, params: { token: string; path: string }) {
+  const { error } = await client.functions.invoke("discard-payment-proof", {
+    body: { token: params.token, path: params.path },
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,118 @@
+// Ricevuta di pagamento dell'ospite (HTML stampabile e PDF), solo lato server.
+// Si legge con lo stesso token del link di pagamento e solo a pagamento confermato ("paid").
+
+import { createHash } from "node:crypto";
+import { formatPartyDay, formatPartyTime, resolveTimeZone } from "@/lib/dates";
+import { INTL_LOCALE, type Locale, type Messages, type Translator } from "@/lib/i18n";
+import { PDF_PAGE_SIZE, buildPdf, wrapPdfText, type PdfLine, type PdfText } from "@/lib/pdf";
+import { paymentMethodLabel } from "@/lib/payment-methods";
+import { getPaymentPage } from "@/lib/payment-page";
+import { feeMoney, isPaymentConfirmed } from "@/lib/payments";
+import { formatMoney, type Money } from "@/lib/money";
+
+export type PaymentReceipt = {
+  number: string;
+  party_title: string;
+  party_date: string | null;
+  party_timezone: string | null;
+  amount: Money | null;
+  payment_method: string | null;
+  confirmed_at: string | null;
+};
+
+// Un pagamento per ospite e festa: l'hash della coppia dà un numero stabile (stessa ricevuta a ogni download)
+// e non ricavabile dal token. Es. "ECHO-3F9A1-C07BE".
+export function receiptNumber(partyId: string, guestUserId: string) {
+  const hex = createHash("sha1").update(`${partyId}:${guestUserId}`).digest("hex").toUpperCase();
+  return `ECHO-${hex.slice(0, 5)}-${hex.slice(5, 10)}`;
+}
+
+export async function getPaymentReceipt(token: string): Promise<PaymentReceipt | null> {
+  const row = await getPaymentPage(token);
+  if (!row || !isPaymentConfirmed(row)) return null;
+
+  return {
+    number: receiptNumber(row.party_id, row.guest_user_id),
+    party_title: row.party_title,
+    party_date: row.party_date,
+    party_timezone: row.party_timezone ?? null,
+    amount: feeMoney(row),
+    payment_method: row.payment_method,
+    confirmed_at: row.payment_confirmed_at ?? null,
+  };
+}
+
+export type ReceiptField = { label: string; value: string };
+
+type ReceiptI18n = { locale: Locale; t: Translator; messages: Messages };
+
+// Voci della ricevuta nell'ordine in cui vanno stampate, condivise da pagina HTML e PDF.
+export function receiptFields(receipt: PaymentReceipt, i18n: ReceiptI18n): ReceiptField[] {
+  const { locale, t, messages } = i18n;
+  const dateOptions = { locale, timeZone: receipt.party_timezone };
+  const day = formatPartyDay(receipt.party_date, dateOptions);
+  const time = formatPartyTime(receipt.party_date, dateOptions);
+
+  const confirmed = receipt.confirmed_at ? new Date(receipt.confirmed_at) : null;
+  const confirmedLabel =
+    confirmed && !Number.isNaN(confirmed.getTime())
+      ? confirmed.toLocaleString(INTL_LOCALE[locale], {
+          timeZone: resolveTimeZone(receipt.party_timezone),
+          day: "2-digit",
+          month: "long",
+          year: "numeric",
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : null;
+
+  return [
+    { label: t("receipt.labels.party"), value: receipt.party_title || t("party.fallbackTitle") },
+    { label: t("receipt.labels.date"), value: [day, time].filter(Boolean).join(" · ") || "-" },
+    { label: t("receipt.labels.amount"), value: receipt.amount ? formatMoney(receipt.amount, locale) : "-" },
+    {
+      label: t("receipt.labels.method"),
+      value: receipt.payment_method ? paymentMethodLabel(t, messages, receipt.payment_method) : "-",
+    },
+    { label: t("receipt.labels.confirmedAt"), value: confirmedLabel ?? "-" },
+  ];
+}
+
+// Ricevuta A5: intestazione, numero, voci su due colonne e nota in fondo.
+export function receiptPdf(receipt: PaymentReceipt, i18n: ReceiptI18n) {
+  const { t } = i18n;
+  const { width, height } = PDF_PAGE_SIZE.A5;
+  const left = 40;
+  const valueX = 160;
+
+  const texts: PdfText[] = [];
+  const lines: PdfLine[] = [];
+  let y = height - 56;
+
+  texts.push({ x: left, y, text: "echo", size: 20, bold: true });
+  y -= 36;
+  texts.push({ x: left, y, text: t("receipt.title"), size: 18, bold: true });
+  y -= 20;
+  texts.push({ x: left, y, text: t("receipt.number", { number: receipt.number }), size: 11, gray: 0.4 });
+  y -= 18;
+  lines.push({ x1: left, y1: y, x2: width - left, y2: y });
+  y -= 28;
+
+  for (const field of receiptFields(receipt, i18n)) {
+    texts.push({ x: left, y, text: field.label, size: 10, gray: 0.45 });
+    for (const line of wrapPdfText(field.value, 34)) {
+      texts.push({ x: valueX, y, text: line, size: 12, bold: true });
+      y -= 16;
+    }
+    y -= 10;
+  }
+
+  lines.push({ x1: left, y1: y, x2: width - left, y2: y });
+  y -= 22;
+  for (const line of wrapPdfText(t("receipt.note"), 62)) {
+    texts.push({ x: left, y, text: line, size: 9, gray: 0.45 });
+    y -= 13;
+  }
+
+  return buildPdf({ width, height, texts, lines, title: `${t("receipt.title")} ${receipt.number}` });
+}
@@ -0,0 +1,51 @@
+// Pagamento della quota da parte dell'ospite (pagina /pay/[token]).
+
+import { moneyFromMajor, moneyFromMinor, type Money } from "@/lib/money";
+
+// Riga di get_guest_payment_page_public, letta con il token del link di pagamento.
+export type PaymentPageRow = {
+  token: string;
+  party_id: string;
+  guest_user_id: string;
+  party_title: string;
+  party_date: string | null;
+  party_timezone?: string | null;
+  party_mode: string | null;
+  // unità minori nella valuta della festa (il nome è storico: vale anche per valute diverse dall'euro)
+  fee_amount_cents: number | null;
+  // legacy: importo in unità maggiori, usato solo se manca fee_amount_cents
+  fee_eur: number | string | null;
+  // ISO 4217; assente = EUR
+  fee_currency?: string | null;
+  satispay_url: string | null;
+  paypal_url: string | null;
+  // handle dell'organizzatore per i link con importo (lib/payment-links); se assenti si ricavano dagli URL
+  satispay_handle?: string | null;
+  paypal_handle?: string | null;
+  approval_status: string | null;
+  status: string | null;
+  payment_method: string | null;
+  payment_status: string | null;
+  // quando l'organizzatore ha confermato il pagamento (solo con payment_status "paid")
+  payment_confirmed_at?: string | null;
+  expires_at: string | null;
+};
+
+// La pagina di pagamento è pubblica (niente sessione): invece di postgres_changes su guest_payments, che con
+// la chiave anon o non arriva per RLS o espone i pagamenti di chiunque, ascolta un broadcast sul topic del
+// token. Il backend lo invia quando cambiano metodo o stato del pagamento; il polling di sicurezza resta.
+export const GUEST_PAYMENT_UPDATED_EVENT = "payment_updated";
+export const GUEST_PAYMENT_LIVE_POLL_MS = 60_000;
+
+export function guestPaymentTopic(token: string) {
+  return `guest-payment:${token}`;
+}
+
+export function isPaymentConfirmed(row: Pick<PaymentPageRow, "payment_status">) {
+  return String(row.payment_status ?? "").trim().toLowerCase() === "paid";
+}
+
+// Quota della festa come Money; null se il backend non ha un importo leggibile.
+export function feeMoney(row: Pick<PaymentPageRow, "fee_amount_cents" | "fee_eur" | "fee_currency">): Money | null {
+  return moneyFromMinor(row.fee_amount_cents, row.fee_currency) ?? moneyFromMajor(row.fee_eur, row.fee_currency);
+}
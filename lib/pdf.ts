@@ -0,0 +1,136 @@
+// PDF minimale a una pagina (PDF 1.4) con solo testo e linee, senza dipendenze.
+// Usa i font standard Helvetica/Helvetica-Bold con WinAnsiEncoding: niente font da incorporare,
+// i caratteri fuori da Windows-1252 (emoji, alfabeti non latini) diventano "?".
+
+export type PdfText = {
+  x: number;
+  y: number;
+  text: string;
+  size: number;
+  bold?: boolean;
+  // grigio 0 (nero) - 1 (bianco)
+  gray?: number;
+};
+
+export type PdfLine = { x1: number; y1: number; x2: number; y2: number; gray?: number };
+
+// Formati in punti tipografici (1/72 di pollice).
+export const PDF_PAGE_SIZE = {
+  A4: { width: 595, height: 842 },
+  A5: { width: 420, height: 595 },
+};
+
+// Windows-1252 nella fascia 0x80-0x9F; 0xA0-0xFF coincide con Latin-1.
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99,
+};
+
+function winAnsiString(text: string) {
+  let out = "";
+  for (const ch of text.normalize("NFC")) {
+    const code = ch.codePointAt(0) ?? 0x3f;
+    let byte: number;
+    if (code >= 0x20 && code < 0x7f) byte = code;
+    else if (code >= 0xa0 && code <= 0xff) byte = code;
+    else if (ch === "\u202f" || ch === "\u2009") byte = 0x20; // spazi stretti di Intl.NumberFormat / DateTimeFormat
+    else byte = WIN_ANSI_EXTRA[ch] ?? 0x3f;
+
+    const c = String.fromCharCode(byte);
+    out += c === "\\" || c === "(" || c === ")" ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+// Stringa di testo nel dizionario Info: UTF-16BE con BOM, vale per qualsiasi carattere.
+function utf16HexString(text: string) {
+  let hex = "FEFF";
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  return `<${hex}>`;
+}
+
+function num(n: number) {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+function contentStream(texts: PdfText[], lines: PdfLine[]) {
+  const ops: string[] = [];
+
+  for (const line of lines) {
+    ops.push(`${num(line.gray ?? 0.8)} G 0.75 w ${num(line.x1)} ${num(line.y1)} m ${num(line.x2)} ${num(line.y2)} l S`);
+  }
+  for (const t of texts) {
+    ops.push(
+      `BT ${num(t.gray ?? 0)} g /${t.bold ? "F2" : "F1"} ${num(t.size)} Tf ${num(t.x)} ${num(t.y)} Td ${winAnsiString(t.text)} Tj ET`
+    );
+  }
+  return ops.join("\n");
+}
+
+export function buildPdf(params: {
+  width: number;
+  height: number;
+  texts: PdfText[];
+  lines?: PdfLine[];
+  title?: string;
+}) {
+  const content = contentStream(params.texts, params.lines ?? []);
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(params.width)} ${num(params.height)}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    // il contenuto è già in byte singoli (latin1), quindi la lunghezza in caratteri è quella in byte
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    `<< /Producer (echo)${params.title ? ` /Title ${utf16HexString(params.title)}` : ""} >>`,
+  ];
+
+  // Il secondo commento binario segnala ai lettori che il file contiene byte non ASCII.
+  let pdf = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) pdf += `${String(offset).padStart(10, "0")} 00000 n \n`;
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, "latin1"));
+}
+
+// Andata a capo per numero di caratteri: Helvetica non è monospaziata, quindi `maxChars` va tenuto prudente.
+export function wrapPdfText(text: string, maxChars: number) {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) current = word;
+    else if (current.length + 1 + word.length <= maxChars) current += ` ${word}`;
+    else {
+      lines.push(current);
+      current = word;
+    }
+    while (current.length > maxChars) {
+      lines.push(current.slice(0, maxChars));
+      current = current.slice(maxChars);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
@@ -0,0 +1,63 @@
+// Regole minime per paese dei numeri di telefono, incluse nel bundle (niente chiamate di rete).
+// Ogni regola lega un prefisso del numero nazionale significativo (senza prefisso internazionale e senza
+// prefisso di linea) alle lunghezze ammesse in cifre. Le regole sono volutamente larghe: servono a scartare
+// numeri chiaramente sbagliati, non a sapere se un numero è attivo.
+
+export type PhoneNumberRule = {
+  // inizio del numero nazionale, es. /^3/ per i cellulari italiani
+  prefix: RegExp;
+  lengths: [min: number, max: number];
+};
+
+export type PhoneCountryMetadata = {
+  // ISO 3166-1 alpha-2
+  iso: string;
+  // prefisso internazionale senza "+"
+  dial: string;
+  rules: PhoneNumberRule[];
+  // prefisso di linea nazionale da togliere ("0" in Francia, "1" negli Stati Uniti). L'Italia non ne ha:
+  // lo 0 dei fissi fa parte del numero anche in E.164.
+  trunkPrefix?: string;
+  // esempio nazionale per il placeholder
+  example: string;
+};
+
+export const PHONE_METADATA: PhoneCountryMetadata[] = [
+  {
+    iso: "IT",
+    dial: "39",
+    rules: [
+      { prefix: /^3/, lengths: [9, 10] },
+      { prefix: /^0/, lengths: [6, 11] },
+    ],
+    example: "333 123 4567",
+  },
+  { iso: "SM", dial: "378", rules: [{ prefix: /^[05-7]/, lengths: [6, 10] }], example: "66 66 12 12" },
+  { iso: "CH", dial: "41", rules: [{ prefix: /^[2-9]/, lengths: [9, 9] }], trunkPrefix: "0", example: "078 123 45 67" },
+  { iso: "FR", dial: "33", rules: [{ prefix: /^[1-9]/, lengths: [9, 9] }], trunkPrefix: "0", example: "06 12 34 56 78" },
+  { iso: "DE", dial: "49", rules: [{ prefix: /^[1-9]/, lengths: [6, 13] }], trunkPrefix: "0", example: "0151 23456789" },
+  { iso: "AT", dial: "43", rules: [{ prefix: /^[1-9]/, lengths: [6, 13] }], trunkPrefix: "0", example: "0664 123456" },
+  { iso: "ES", dial: "34", rules: [{ prefix: /^[5-9]/, lengths: [9, 9] }], example: "612 34 56 78" },
+  { iso: "PT", dial: "351", rules: [{ prefix: /^[2-9]/, lengths: [9, 9] }], example: "912 345 678" },
+  { iso: "GB", dial: "44", rules: [{ prefix: /^[1-9]/, lengths: [9, 10] }], trunkPrefix: "0", example: "07400 123456" },
+  { iso: "IE", dial: "353", rules: [{ prefix: /^[1-9]/, lengths: [7, 9] }], trunkPrefix: "0", example: "085 012 3456" },
+  { iso: "BE", dial: "32", rules: [{ prefix: /^[1-9]/, lengths: [8, 9] }], trunkPrefix: "0", example: "0470 12 34 56" },
+  { iso: "NL", dial: "31", rules: [{ prefix: /^[1-9]/, lengths: [9, 9] }], trunkPrefix: "0", example: "06 12345678" },
+  { iso: "LU", dial: "352", rules: [{ prefix: /^[2-9]/, lengths: [6, 11] }], example: "628 123 456" },
+  { iso: "MC", dial: "377", rules: [{ prefix: /^[4689]/, lengths: [8, 9] }], example: "6 12 34 56 78" },
+  { iso: "MT", dial: "356", rules: [{ prefix: /^[2579]/, lengths: [8, 8] }], example: "9696 1234" },
+  { iso: "SI", dial: "386", rules: [{ prefix: /^[1-7]/, lengths: [8, 8] }], trunkPrefix: "0", example: "031 234 567" },
+  { iso: "HR", dial: "385", rules: [{ prefix: /^[1-9]/, lengths: [8, 9] }], trunkPrefix: "0", example: "091 234 5678" },
+  { iso: "AL", dial: "355", rules: [{ prefix: /^[2-9]/, lengths: [8, 9] }], trunkPrefix: "0", example: "067 212 3456" },
+  { iso: "GR", dial: "30", rules: [{ prefix: /^[2-9]/, lengths: [10, 10] }], example: "691 234 5678" },
+  { iso: "RO", dial: "40", rules: [{ prefix: /^[2-9]/, lengths: [9, 9] }], trunkPrefix: "0", example: "0712 034 567" },
+  { iso: "PL", dial: "48", rules: [{ prefix: /^[1-9]/, lengths: [9, 9] }], example: "512 345 678" },
+  { iso: "DK", dial: "45", rules: [{ prefix: /^[2-9]/, lengths: [8, 8] }], example: "32 12 34 56" },
+  { iso: "SE", dial: "46", rules: [{ prefix: /^[1-9]/, lengths: [7, 10] }], trunkPrefix: "0", example: "070 123 45 67" },
+  { iso: "NO", dial: "47", rules: [{ prefix: /^[2-9]/, lengths: [8, 8] }], example: "406 12 345" },
+  { iso: "US", dial: "1", rules: [{ prefix: /^[2-9]/, lengths: [10, 10] }], trunkPrefix: "1", example: "(201) 555-0123" },
+  { iso: "CA", dial: "1", rules: [{ prefix: /^[2-9]/, lengths: [10, 10] }], trunkPrefix: "1", example: "(506) 234-5678" },
+  { iso: "BR", dial: "55", rules: [{ prefix: /^[1-9]/, lengths: [10, 11] }], trunkPrefix: "0", example: "(11) 96123-4567" },
+  { iso: "AR", dial: "54", rules: [{ prefix: /^[1-9]/, lengths: [10, 11] }], trunkPrefix: "0", example: "9 11 2345-6789" },
+  { iso: "AU", dial: "61", rules: [{ prefix: /^[2-478]/, lengths: [9, 9] }], trunkPrefix: "0", example: "0412 345 678" },
+];
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parsePhoneNumber, splitE164 } from "@/lib/phone";
+
+describe("parsePhoneNumber", () => {
+  it("validates national numbers against the selected country", () => {
+    expect(parsePhoneNumber("333 123 4567")).toMatchObject({ ok: true, e164: "+393331234567" });
+    expect(parsePhoneNumber("06 12 34 56 78", "FR")).toMatchObject({ ok: true, e164: "+33612345678" });
+    expect(parsePhoneNumber("333 12", "IT")).toMatchObject({ ok: false, error: "tooShort" });
+  });
+
+  it("uses the written prefix for listed countries", () => {
+    expect(parsePhoneNumber("+44 07400 123456")).toMatchObject({ ok: true, e164: "+447400123456" });
+    expect(parsePhoneNumber("0049 151 23456789")).toMatchObject({ ok: true, e164: "+4915123456789" });
+  });
+
+  it("falls back to a generic E.164 check for prefixes outside the metadata", () => {
+    const numbers = [
+      "+420 601 123 456",
+      "+36 20 123 4567",
+      "+358 40 1234567",
+      "+90 532 123 45 67",
+      "+380 50 123 4567",
+      "+91 98765 43210",
+      "+86 138 0013 8000",
+    ];
+    for (const input of numbers) {
+      const parsed = parsePhoneNumber(input);
+      expect(parsed.ok, input).toBe(true);
+      if (parsed.ok) {
+        expect(parsed.country).toBeNull();
+        expect(parsed.e164).toBe(`+${input.replace(/\D/g, "")}`);
+        expect(parsed.national).toBe(parsed.e164);
+        expect(parsePhoneNumber(parsed.national)).toMatchObject({ ok: true, e164: parsed.e164 });
+      }
+    }
+  });
+
+  it("rejects generic numbers outside 8 to 15 digits", () => {
+    expect(parsePhoneNumber("+420 601")).toMatchObject({ ok: false, error: "tooShort", country: null });
+    expect(parsePhoneNumber("+420 601 123 456 789 01")).toMatchObject({ ok: false, error: "tooLong", country: null });
+    expect(parsePhoneNumber("+0 123 456 789")).toMatchObject({ ok: false, error: "invalid", country: null });
+    expect(parsePhoneNumber("+420 abc")).toMatchObject({ ok: false, error: "invalid", country: null });
+  });
+});
+
+describe("splitE164", () => {
+  it("splits numbers of listed countries", () => {
+    expect(splitE164("+393331234567")).toMatchObject({ country: { iso: "IT" }, national: "3331234567" });
+  });
+
+  it("returns null for generic numbers, which stay in international form", () => {
+    expect(splitE164("+420601123456")).toBeNull();
+  });
+});
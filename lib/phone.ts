@@ -0,0 +1,100 @@
+// Numeri di telefono: parsing dell'input dell'utente (nazionale o con +/00) e normalizzazione in E.164.
+// Le regole per paese stanno in lib/phone-metadata.ts e sono incluse nel bundle; i prefissi internazionali
+// che non vi compaiono passano con il solo controllo generico E.164.
+
+import { PHONE_METADATA, type PhoneCountryMetadata } from "@/lib/phone-metadata";
+
+export type { PhoneCountryMetadata } from "@/lib/phone-metadata";
+
+export const DEFAULT_PHONE_COUNTRY = "IT";
+
+export type PhoneParseError = "empty" | "tooShort" | "tooLong" | "invalid";
+
+// country null: prefisso non in metadata, il numero è valido solo come E.164 generico e `national`
+// resta in forma internazionale ("+420…") così il campo lo rilegge uguale.
+export type PhoneParseResult =
+  | { ok: true; e164: string; country: PhoneCountryMetadata | null; national: string }
+  | { ok: false; error: PhoneParseError; country: PhoneCountryMetadata | null };
+
+// E.164: al massimo 15 cifre con il prefisso internazionale; sotto le 8 non esistono numeri mobili.
+const E164_MIN_DIGITS = 8;
+const E164_MAX_DIGITS = 15;
+
+const BY_ISO = new Map(PHONE_METADATA.map((c) => [c.iso, c]));
+
+export function phoneCountry(iso: string | null | undefined): PhoneCountryMetadata {
+  return BY_ISO.get(String(iso ?? "").toUpperCase()) ?? BY_ISO.get(DEFAULT_PHONE_COUNTRY)!;
+}
+
+// Emoji della bandiera dal codice ISO (lettere regional indicator).
+export function countryFlag(iso: string) {
+  return String.fromCodePoint(...iso.toUpperCase().split("").map((c) => 0x1f1e6 + c.charCodeAt(0) - 65));
+}
+
+function matchesRule(national: string, country: PhoneCountryMetadata) {
+  return country.rules.some(
+    (r) => r.prefix.test(national) && national.length >= r.lengths[0] && national.length <= r.lengths[1]
+  );
+}
+
+function validateNational(digits: string, country: PhoneCountryMetadata): PhoneParseResult {
+  let national = digits;
+  // Prefisso di linea: "0151…" in Germania, "1 201…" negli USA, ma anche "+44 07…" scritto per abitudine.
+  if (country.trunkPrefix && national.startsWith(country.trunkPrefix) && !matchesRule(national, country)) {
+    national = national.slice(country.trunkPrefix.length);
+  }
+
+  const rule = country.rules.find((r) => r.prefix.test(national));
+  if (!rule) return { ok: false, error: "invalid", country };
+
+  const [min, max] = rule.lengths;
+  if (national.length < min) return { ok: false, error: "tooShort", country };
+  if (national.length > max) return { ok: false, error: "tooLong", country };
+
+  return { ok: true, e164: `+${country.dial}${national}`, country, national };
+}
+
+// Paese dal prefisso internazionale (1-3 cifre). Più paesi con lo stesso prefisso (+1): vince quello
+// selezionato se condivide il prefisso, altrimenti il primo in lista.
+function countryFromInternational(digits: string, preferred: PhoneCountryMetadata) {
+  for (const len of [1, 2, 3]) {
+    const dial = digits.slice(0, len);
+    const matches = PHONE_METADATA.filter((c) => c.dial === dial);
+    if (matches.length) {
+      return matches.includes(preferred) ? preferred : matches[0];
+    }
+  }
+  return null;
+}
+
+function validateGenericE164(digits: string): PhoneParseResult {
+  if (digits.startsWith("0")) return { ok: false, error: "invalid", country: null };
+  if (digits.length < E164_MIN_DIGITS) return { ok: false, error: "tooShort", country: null };
+  if (digits.length > E164_MAX_DIGITS) return { ok: false, error: "tooLong", country: null };
+  return { ok: true, e164: `+${digits}`, country: null, national: `+${digits}` };
+}
+
+export function parsePhoneNumber(input: string, defaultCountry: string = DEFAULT_PHONE_COUNTRY): PhoneParseResult {
+  const preferred = phoneCountry(defaultCountry);
+  const raw = input.replace(/[\s().\-/]/g, "");
+  if (!raw) return { ok: false, error: "empty", country: preferred };
+
+  const international = raw.startsWith("+") ? raw.slice(1) : raw.startsWith("00") ? raw.slice(2) : null;
+  if (international != null) {
+    if (!/^\d+$/.test(international)) return { ok: false, error: "invalid", country: null };
+    const country = countryFromInternational(international, preferred);
+    if (!country) return validateGenericE164(international);
+    return validateNational(international.slice(country.dial.length), country);
+  }
+
+  if (!/^\d+$/.test(raw)) return { ok: false, error: "invalid", country: preferred };
+  return validateNational(raw, preferred);
+}
+
+// Numero già salvato (E.164) -> paese e parte nazionale, per precompilare il campo.
+export function splitE164(value: string | null | undefined): { country: PhoneCountryMetadata; national: string } | null {
+  const raw = String(value ?? "").trim();
+  if (!raw.startsWith("+")) return null;
+  const parsed = parsePhoneNumber(raw);
+  return parsed.ok && parsed.country ? { country: parsed.country, national: parsed.national } : null;
+}
@@ -0,0 +1,66 @@
+// Profilo dell'ospite (tabella profiles): lettura per chi ha già una sessione e upsert solo dei cambiamenti.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type ProfileSex = "male" | "female" | null;
+
+export type GuestProfile = {
+  first_name: string | null;
+  last_name: string | null;
+  // E.164
+  phone: string | null;
+  email: string | null;
+  sex: ProfileSex;
+};
+
+const PROFILE_FIELDS: (keyof GuestProfile)[] = ["first_name", "last_name", "phone", "email", "sex"];
+
+function normalizeSex(value: unknown): ProfileSex {
+  return value === "male" || value === "female" ? value : null;
+}
+
+function cleanString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export async function loadGuestProfile(client: SupabaseClient, userId: string): Promise<GuestProfile | null> {
+  const { data, error } = await client
+    .from("profiles")
+    .select("first_name, last_name, phone, email, sex")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    first_name: cleanString(data.first_name),
+    last_name: cleanString(data.last_name),
+    phone: cleanString(data.phone),
+    email: cleanString(data.email)?.toLowerCase() ?? null,
+    sex: normalizeSex(data.sex),
+  };
+}
+
+// Nome, cognome e telefono presenti: l'organizzatore sa chi è senza rifare il form.
+export function isProfileComplete(profile: GuestProfile | null): profile is GuestProfile {
+  return !!profile?.first_name && !!profile.last_name && !!profile.phone;
+}
+
+// "Mario R."
+export function shortDisplayName(profile: Pick<GuestProfile, "first_name" | "last_name">) {
+  const first = profile.first_name?.trim() ?? "";
+  const initial = profile.last_name?.trim().charAt(0).toUpperCase() ?? "";
+  return initial ? `${first} ${initial}.` : first;
+}
+
+// Campi da scrivere: null se il profilo salvato è già uguale.
+export function changedProfileFields(saved: GuestProfile | null, next: GuestProfile): Partial<GuestProfile> | null {
+  if (!saved) return next;
+
+  const changes: Partial<GuestProfile> = {};
+  for (const key of PROFILE_FIELDS) {
+    if (saved[key] !== next[key]) Object.assign(changes, { [key]: next[key] });
+  }
+  return Object.keys(changes).length ? changes : null;
+}
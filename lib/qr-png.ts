@@ -0,0 +1,66 @@
+// Rasterizza un QrCode in PNG (scala di grigi 8 bit). Solo lato server: usa node:zlib.
+
+import { deflateSync } from "node:zlib";
+import type { QrCode } from "@/lib/qr";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array) {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Uint8Array) {
+  const out = Buffer.alloc(12 + data.length);
+  out.writeUInt32BE(data.length, 0);
+  out.write(type, 4, "ascii");
+  Buffer.from(data).copy(out, 8);
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length);
+  return out;
+}
+
+export function qrToPng(qr: QrCode, options: { scale?: number; margin?: number } = {}) {
+  const scale = Math.max(1, Math.floor(options.scale ?? 10));
+  const margin = options.margin ?? 4;
+  const dim = (qr.size + margin * 2) * scale;
+
+  // Ogni riga: 1 byte di filtro (0 = none) + 1 byte per pixel.
+  const raw = Buffer.alloc((dim + 1) * dim, 0xff);
+  for (let py = 0; py < dim; py++) {
+    const rowStart = py * (dim + 1);
+    raw[rowStart] = 0;
+
+    const y = Math.floor(py / scale) - margin;
+    if (y < 0 || y >= qr.size) continue;
+
+    for (let px = 0; px < dim; px++) {
+      const x = Math.floor(px / scale) - margin;
+      if (x >= 0 && x < qr.size && qr.modules[y][x]) raw[rowStart + 1 + px] = 0;
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(dim, 0);
+  header.writeUInt32BE(dim, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+  header[10] = 0;
+  header[11] = 0;
+  header[12] = 0;
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ]);
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { describe, expect, it, vi } from "vitest";
+import { subscribeWithFallback } from "@/lib/realtime";
+
+type Handler = (payload: unknown) => void;
+
+function mockClient() {
+  let handler: Handler = () => {};
+  const channel = {
+    on: vi.fn((_type: string, _filter: unknown, cb: Handler) => {
+      handler = cb;
+      return channel;
+    }),
+    subscribe: vi.fn(() => channel),
+  };
+  const client = { channel: vi.fn(() => channel), removeChannel: vi.fn() } as unknown as SupabaseClient;
+  return { client, emit: (payload: unknown) => handler(payload) };
+}
+
+describe("subscribeWithFallback", () => {
+  it("drops postgres_changes rejected by accept", () => {
+    const { client, emit } = mockClient();
+    const onChange = vi.fn();
+    const stop = subscribeWithFallback({
+      client,
+      channel: "test",
+      table: "party_guests",
+      filter: "user_id=eq.u1",
+      accept: (row) => row.party_id == null || row.party_id === "p1",
+      onChange,
+    });
+
+    emit({ eventType: "UPDATE", new: { user_id: "u1", party_id: "p2" }, old: {} });
+    expect(onChange).not.toHaveBeenCalled();
+
+    emit({ eventType: "UPDATE", new: { user_id: "u1", party_id: "p1" }, old: {} });
+    emit({ eventType: "DELETE", new: {}, old: { id: "g1" } });
+    expect(onChange).toHaveBeenCalledTimes(2);
+
+    stop();
+  });
+});
@@ -0,0 +1,112 @@
+// Aggiornamenti live di una riga Supabase: postgres_changes o broadcast via Realtime, con polling come ripiego
+// quando il canale non si apre (Realtime spento, rete che blocca i websocket, errori di RLS sul canale).
+// postgres_changes solo con una sessione: senza, RLS scarta gli eventi ma il canale risulta comunque SUBSCRIBED.
+// Le pagine pubbliche (link con token) ascoltano un broadcast sul topic del token e tengono un polling di sicurezza.
+
+import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
+import { createLogger } from "@/lib/log";
+
+const log = createLogger("realtime");
+
+export type LiveMode = "connecting" | "realtime" | "polling";
+
+const SUBSCRIBE_TIMEOUT_MS = 10_000;
+
+type Row = Record<string, unknown>;
+
+export type LiveSource =
+  // `filter` accetta una sola colonna: `accept` scarta gli eventi che non riguardano chi ascolta
+  | { table: string; filter: string; accept?: (row: Row) => boolean; broadcast?: never }
+  // evento broadcast inviato dal backend sul topic `channel`
+  | { broadcast: string; table?: never; filter?: never; accept?: never };
+
+// `onChange` non riceve il payload: chi lo usa rilegge lo stato dalla sua RPC, così vale la stessa
+// validazione del primo caricamento e un evento perso non lascia dati parziali.
+export function subscribeWithFallback(
+  params: LiveSource & {
+    client: SupabaseClient;
+    channel: string;
+    onChange: () => void;
+    onModeChange?: (mode: LiveMode) => void;
+    pollMs?: number;
+    // polling anche a canale aperto, per quando la consegna degli eventi non è garantita
+    livePollMs?: number;
+  }
+): () => void {
+  const { client, onChange, onModeChange, livePollMs } = params;
+  const pollMs = params.pollMs ?? 30_000;
+  const source = params.broadcast ?? params.table;
+
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let fallback = false;
+  let stopped = false;
+
+  function startPolling(reason: string) {
+    if (stopped || fallback) return;
+    log.warn("realtime unavailable, polling", { source, reason });
+    fallback = true;
+    stopPolling();
+    pollTimer = setInterval(onChange, pollMs);
+    onModeChange?.("polling");
+  }
+
+  function startLivePolling() {
+    fallback = false;
+    stopPolling();
+    if (livePollMs) pollTimer = setInterval(onChange, livePollMs);
+  }
+
+  function stopPolling() {
+    if (!pollTimer) return;
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+
+  onModeChange?.("connecting");
+
+  const timeout = setTimeout(() => startPolling("subscribe timeout"), SUBSCRIBE_TIMEOUT_MS);
+
+  let channel: RealtimeChannel | null = null;
+  try {
+    channel = client.channel(params.channel);
+    if (params.broadcast) {
+      channel.on("broadcast", { event: params.broadcast }, () => onChange());
+    } else {
+      const { accept } = params;
+      channel.on<Row>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: params.table, filter: params.filter },
+        (payload) => {
+          // su DELETE la riga arriva solo in `old` (e senza REPLICA IDENTITY FULL solo con la chiave primaria)
+          const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+          if (accept && !accept(row)) return;
+          onChange();
+        }
+      );
+    }
+    channel.subscribe((status) => {
+      if (stopped) return;
+      if (status === "SUBSCRIBED") {
+        clearTimeout(timeout);
+        startLivePolling();
+        onModeChange?.("realtime");
+        // recupera eventuali modifiche arrivate prima della sottoscrizione
+        onChange();
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+        clearTimeout(timeout);
+        startPolling(status);
+      }
+    });
+  } catch (e) {
+    clearTimeout(timeout);
+    log.error("realtime subscribe error", e);
+    startPolling("subscribe error");
+  }
+
+  return () => {
+    stopped = true;
+    clearTimeout(timeout);
+    stopPolling();
+    if (channel) void client.removeChannel(channel);
+  };
+}
@@ -0,0 +1,96 @@
+// Risposta e approvazione dell'utente autenticato per la festa dell'invito (get_my_invite_status),
+// più ritiro della risposta e avviso all'organizzatore quando cambia. Vale su ogni dispositivo e dopo un reload.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { readCompanions, type Companion } from "@/lib/companions";
+import type { RsvpChoice } from "@/lib/invite-flow";
+
+// waitlisted: ha detto "Ci sono" a festa piena; il backend lo promuove (e gli scrive) quando si libera un posto.
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "waitlisted";
+
+export type MyInviteStatus = {
+  rsvp: RsvpChoice | null;
+  approval: ApprovalStatus | null;
+  responded_at: string | null;
+  companions: Companion[];
+  // 1 = il prossimo a entrare; null se non in lista d'attesa
+  waitlist_position: number | null;
+};
+
+export function readWaitlistPosition(value: unknown) {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null;
+}
+
+function readRsvp(value: unknown): RsvpChoice | null {
+  return value === "yes" || value === "no" ? value : null;
+}
+
+// Il backend usa anche "pending_approval" (come nella pagina di pagamento).
+export function readApprovalStatus(value: unknown): ApprovalStatus | null {
+  const v = String(value ?? "").trim().toLowerCase();
+  if (v === "approved" || v === "rejected" || v === "waitlisted") return v;
+  if (v === "waitlist") return "waitlisted";
+  if (v === "pending" || v === "pending_approval") return "pending";
+  return null;
+}
+
+export async function loadMyInviteStatus(client: SupabaseClient, token: string): Promise<MyInviteStatus> {
+  const { data, error } = await client.rpc("get_my_invite_status", { p_token: token });
+  if (error) throw error;
+
+  const row = (Array.isArray(data) ? data[0] : data) as Record<string, unknown> | null | undefined;
+  if (!row) return { rsvp: null, approval: null, responded_at: null, companions: [], waitlist_position: null };
+
+  return {
+    rsvp: readRsvp(row.rsvp_status),
+    approval: readApprovalStatus(row.approval_status),
+    responded_at: typeof row.responded_at === "string" ? row.responded_at : null,
+    companions: readCompanions(row.companions),
+    waitlist_position: readWaitlistPosition(row.waitlist_position),
+  };
+}
+
+// Stato locale dopo una risposta riuscita, dal risultato di respond_party_invite_auth
+// ({ ok, approval_status?, waitlisted?, waitlist_position? }) senza un secondo giro al server.
+export function statusAfterResponse(
+  prev: MyInviteStatus | null,
+  choice: RsvpChoice,
+  result: Record<string, unknown>,
+  companions: Companion[]
+): MyInviteStatus {
+  const waitlisted = result.waitlisted === true;
+  const approval =
+    choice === "no"
+      ? null
+      : (readApprovalStatus(result.approval_status) ?? (waitlisted ? "waitlisted" : (prev?.approval ?? "pending")));
+
+  return {
+    rsvp: choice,
+    approval,
+    responded_at: new Date().toISOString(),
+    companions: choice === "yes" ? companions : [],
+    waitlist_position: approval === "waitlisted" ? readWaitlistPosition(result.waitlist_position) : null,
+  };
+}
+
+export type RsvpChange = RsvpChoice | "withdrawn" | "preferences";
+
+// Ritira la risposta: l'ospite torna "senza risposta" e può rispondere di nuovo finché la scadenza non passa.
+export async function withdrawRsvp(client: SupabaseClient, token: string) {
+  const { data, error } = await client.rpc("withdraw_party_invite_auth", { p_token: token });
+  if (error) throw error;
+
+  const result = (Array.isArray(data) ? data[0] : data) as { ok?: boolean } | null | undefined;
+  return !!result?.ok;
+}
+
+// Avvisa l'organizzatore di un cambio di risposta o di preferenze. Best effort: la risposta è già salvata.
+export async function notifyOrganizerRsvpChange(client: SupabaseClient, token: string, change: RsvpChange) {
+  const { error } = await client.functions.invoke("notify-organizer-rsvp-change", {
+    body: { token, change },
+  });
+  if (error) throw error;
+}
+
+// Tabella con risposta e approvazione di ogni ospite: la pagina di stato ne ascolta le modifiche in realtime.
+export const PARTY_GUESTS_TABLE = "party_guests";
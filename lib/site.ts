@@ -0,0 +1,6 @@
+// URL pubblico del sito (link condivisi, QR, metadata)
+export const SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || "https://echo.partydispo.app").replace(/\/+$/, "");
+
+export function inviteUrl(token: string) {
+  return `${SITE_URL}/i/${encodeURIComponent(token)}`;
+}
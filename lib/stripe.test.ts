@@ -0,0 +1,108 @@
+import { readFileSync } from "node:fs";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  STRIPE_SIGNATURE_TOLERANCE_SEC,
+  StripeError,
+  createCheckoutSession,
+  signStripePayload,
+  verifyStripeEvent,
+} from "@/lib/stripe";
+
+const SECRET = "whsec_test";
+const payload = readFileSync("fixtures/stripe/checkout.session.completed.json", "utf8");
+const now = new Date("2026-07-10T12:00:00Z");
+const nowSec = Math.floor(now.getTime() / 1000);
+
+function header(timestamp: number, body = payload, secret = SECRET) {
+  return `t=${timestamp},v1=${signStripePayload(body, secret, timestamp)}`;
+}
+
+describe("verifyStripeEvent", () => {
+  it("accepts a valid signature and returns the event", () => {
+    const event = verifyStripeEvent(payload, header(nowSec), SECRET, { now });
+    expect(event).toMatchObject({ id: "evt_1PfixtureCompleted0001", type: "checkout.session.completed" });
+  });
+
+  it("accepts a header with several v1 signatures when one matches (secret rotation)", () => {
+    const oldSignature = signStripePayload(payload, "whsec_old", nowSec);
+    const rotated = `t=${nowSec},v1=${oldSignature},v1=${signStripePayload(payload, SECRET, nowSec)}`;
+    expect(verifyStripeEvent(payload, rotated, SECRET, { now }).id).toBe("evt_1PfixtureCompleted0001");
+  });
+
+  it("rejects a signature made with another secret", () => {
+    expect(() => verifyStripeEvent(payload, header(nowSec, payload, "whsec_other"), SECRET, { now })).toThrow(
+      "invalid Stripe signature"
+    );
+  });
+
+  it("rejects a tampered body", () => {
+    const tampered = payload.replace('"amount_total": 1500', '"amount_total": 1');
+    expect(tampered).not.toBe(payload);
+    expect(() => verifyStripeEvent(tampered, header(nowSec), SECRET, { now })).toThrow("invalid Stripe signature");
+  });
+
+  it("rejects a stale or future timestamp", () => {
+    const stale = nowSec - STRIPE_SIGNATURE_TOLERANCE_SEC - 1;
+    const future = nowSec + STRIPE_SIGNATURE_TOLERANCE_SEC + 1;
+    expect(() => verifyStripeEvent(payload, header(stale), SECRET, { now })).toThrow("outside tolerance");
+    expect(() => verifyStripeEvent(payload, header(future), SECRET, { now })).toThrow("outside tolerance");
+    expect(verifyStripeEvent(payload, header(nowSec - STRIPE_SIGNATURE_TOLERANCE_SEC), SECRET, { now }).id).toBe(
+      "evt_1PfixtureCompleted0001"
+    );
+  });
+
+  it("rejects a missing or malformed header", () => {
+    expect(() => verifyStripeEvent(payload, null, SECRET, { now })).toThrow("missing Stripe-Signature header");
+    expect(() => verifyStripeEvent(payload, "v1=abc", SECRET, { now })).toThrow("malformed");
+    expect(() => verifyStripeEvent(payload, `t=${nowSec}`, SECRET, { now })).toThrow("malformed");
+    expect(() => verifyStripeEvent(payload, "garbage", SECRET, { now })).toThrow(StripeError);
+  });
+});
+
+describe("createCheckoutSession idempotency", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  async function keyFor(overrides: Partial<Parameters<typeof createCheckoutSession>[0]> = {}) {
+    const fetchMock = vi.fn(async () =>
+      Response.json({ id: "cs_test_1", url: "https://checkout.stripe.test/cs_test_1" })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    vi.stubEnv("STRIPE_SECRET_KEY", "sk_test_123");
+
+    await createCheckoutSession({
+      amount: { amount: 1500, currency: "EUR" },
+      productName: "Festa",
+      successUrl: "https://echo.test/pay/tok?checkout=success",
+      cancelUrl: "https://echo.test/pay/tok?checkout=cancelled",
+      clientReferenceId: "party:guest",
+      metadata: { party_id: "party", guest_user_id: "guest" },
+      locale: "it",
+      idempotencyScope: "checkout:party:guest",
+      ...overrides,
+    });
+
+    const init = (fetchMock.mock.calls[0] as unknown as [string, RequestInit])[1];
+    return (init.headers as Record<string, string>)["Idempotency-Key"];
+  }
+
+  it("reuses the key for an identical request", async () => {
+    const key = await keyFor();
+    expect(key).toMatch(/^checkout:party:guest:[0-9a-f]{32}$/);
+    expect(await keyFor()).toBe(key);
+  });
+
+  it("changes the key when the locale, return URLs or amount change", async () => {
+    const key = await keyFor();
+    expect(await keyFor({ locale: "en" })).not.toBe(key);
+    expect(await keyFor({ successUrl: "https://echo.test/pay/other?checkout=success" })).not.toBe(key);
+    expect(await keyFor({ cancelUrl: "https://echo.test/pay/other?checkout=cancelled" })).not.toBe(key);
+    expect(await keyFor({ amount: { amount: 2000, currency: "EUR" } })).not.toBe(key);
+  });
+
+  it("sends no key without a scope", async () => {
+    expect(await keyFor({ idempotencyScope: undefined })).toBeUndefined();
+  });
+});
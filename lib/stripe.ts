@@ -0,0 +1,165 @@
+// Stripe Checkout per il pagamento con carta della quota. Solo lato server: usa la chiave segreta.
+// Niente SDK: due chiamate REST e la verifica della firma dei webhook.
+// STRIPE_API_BASE permette di puntare a stripe-mock in locale (es. http://localhost:12111).
+
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+import { createLogger } from "@/lib/log";
+import type { Money } from "@/lib/money";
+
+const log = createLogger("stripe");
+
+const STRIPE_API_BASE = (process.env.STRIPE_API_BASE || "https://api.stripe.com").replace(/\/+$/, "");
+
+// Tolleranza di Stripe per il timestamp della firma: oltre, l'evento è considerato un replay.
+export const STRIPE_SIGNATURE_TOLERANCE_SEC = 300;
+
+export class StripeError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "StripeError";
+  }
+}
+
+export function isStripeConfigured() {
+  return !!process.env.STRIPE_SECRET_KEY;
+}
+
+// Parametri annidati nel formato form di Stripe: { line_items: [{ quantity: 1 }] } -> line_items[0][quantity]=1
+function formEncode(value: unknown, prefix: string, out: URLSearchParams) {
+  if (value == null) return;
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => formEncode(item, `${prefix}[${i}]`, out));
+  } else if (typeof value === "object") {
+    for (const [key, inner] of Object.entries(value)) formEncode(inner, prefix ? `${prefix}[${key}]` : key, out);
+  } else {
+    out.append(prefix, String(value));
+  }
+}
+
+// La chiave di idempotenza è lo scope più l'hash del body: Stripe rifiuta con 400 la stessa chiave con
+// parametri diversi (lingua, URL di ritorno), mentre un doppio invio identico riusa la stessa sessione.
+function idempotencyKey(scope: string, body: URLSearchParams) {
+  return `${scope}:${createHash("sha256").update(body.toString()).digest("hex").slice(0, 32)}`;
+}
+
+async function stripeRequest<T>(path: string, params: Record<string, unknown>, idempotencyScope?: string): Promise<T> {
+  const secret = process.env.STRIPE_SECRET_KEY;
+  if (!secret) throw new StripeError("STRIPE_SECRET_KEY is not set");
+
+  const body = new URLSearchParams();
+  formEncode(params, "", body);
+
+  const res = await fetch(`${STRIPE_API_BASE}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${secret}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+      ...(idempotencyScope ? { "Idempotency-Key": idempotencyKey(idempotencyScope, body) } : {}),
+    },
+    body,
+  });
+
+  const json = (await res.json().catch(() => null)) as { error?: { message?: string } } | null;
+  if (!res.ok) {
+    log.error("stripe request failed", { path, status: res.status, error: json?.error?.message });
+    throw new StripeError(json?.error?.message ?? `Stripe request failed (${res.status})`, res.status);
+  }
+  return json as T;
+}
+
+export type CheckoutSession = {
+  id: string;
+  url: string | null;
+  payment_status?: "paid" | "unpaid" | "no_payment_required";
+  amount_total?: number | null;
+  currency?: string | null;
+  client_reference_id?: string | null;
+  metadata?: Record<string, string> | null;
+};
+
+export async function createCheckoutSession(params: {
+  amount: Money;
+  productName: string;
+  successUrl: string;
+  cancelUrl: string;
+  clientReferenceId: string;
+  metadata: Record<string, string>;
+  locale?: string;
+  idempotencyScope?: string;
+}) {
+  return stripeRequest<CheckoutSession>(
+    "/v1/checkout/sessions",
+    {
+      mode: "payment",
+      payment_method_types: ["card"],
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            // Stripe vuole le unità minori, come Money (anche per le valute senza decimali)
+            currency: params.amount.currency.toLowerCase(),
+            unit_amount: params.amount.amount,
+            product_data: { name: params.productName },
+          },
+        },
+      ],
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      client_reference_id: params.clientReferenceId,
+      metadata: params.metadata,
+      payment_intent_data: { metadata: params.metadata },
+      locale: params.locale,
+    },
+    params.idempotencyScope
+  );
+}
+
+export type StripeEvent = {
+  id: string;
+  type: string;
+  created: number;
+  livemode: boolean;
+  data: { object: unknown };
+};
+
+export function signStripePayload(payload: string, secret: string, timestamp: number) {
+  return createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+}
+
+// Verifica l'header Stripe-Signature ("t=...,v1=...,v1=...") sul body grezzo, prima di qualsiasi JSON.parse.
+export function verifyStripeEvent(
+  payload: string,
+  header: string | null,
+  secret: string,
+  options: { toleranceSec?: number; now?: Date } = {}
+): StripeEvent {
+  if (!header) throw new StripeError("missing Stripe-Signature header", 400);
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(",")) {
+    const [key, value] = part.split("=", 2).map((s) => s.trim());
+    if (key === "t") timestamp = Number(value);
+    else if (key === "v1" && value) signatures.push(value);
+  }
+  if (!timestamp || !Number.isFinite(timestamp) || !signatures.length) {
+    throw new StripeError("malformed Stripe-Signature header", 400);
+  }
+
+  const expected = Buffer.from(signStripePayload(payload, secret, timestamp), "hex");
+  const matches = signatures.some((sig) => {
+    const candidate = Buffer.from(sig, "hex");
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+  if (!matches) throw new StripeError("invalid Stripe signature", 400);
+
+  const nowSec = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(nowSec - timestamp) > (options.toleranceSec ?? STRIPE_SIGNATURE_TOLERANCE_SEC)) {
+    throw new StripeError("Stripe signature timestamp outside tolerance", 400);
+  }
+
+  return JSON.parse(payload) as StripeEvent;
+}
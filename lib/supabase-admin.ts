@@ -0,0 +1,24 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+let admin: SupabaseClient | null = null;
+
+// Server-side Supabase con la service role: solo per i webhook dei provider di pagamento, mai nel browser.
+// Creato al primo uso, così le pagine che non ne hanno bisogno funzionano anche senza la chiave.
+export function supabaseAdmin() {
+  if (admin) return admin;
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) {
+    throw new Error("Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY");
+  }
+
+  admin = createClient(url, key, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+  return admin;
+}
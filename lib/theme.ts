@@ -0,0 +1,6 @@
+// Colori condivisi tra le pagine guest e le immagini generate (card social, poster)
+
+export const PAGE_BG = "#0B0D12";
+
+export const PAGE_GRADIENT =
+  "radial-gradient(circle at 20% 10%, rgba(42,127,255,0.18), transparent 40%), radial-gradient(circle at 90% 30%, rgba(124,77,255,0.14), transparent 45%), radial-gradient(circle at 10% 90%, rgba(255,82,85,0.10), transparent 45%)";
@@ -0,0 +1,26 @@
+// Rimanda un evento Stripe registrato (fixtures/stripe/*.json) al webhook locale, firmato come farebbe Stripe.
+// Uso: STRIPE_WEBHOOK_SECRET=whsec_... node scripts/replay-stripe-webhook.mjs fixtures/stripe/checkout.session.completed.json [url]
+
+import { createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+const [fixture, url = "http://localhost:3000/api/stripe/webhook"] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!fixture || !secret) {
+  console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... node scripts/replay-stripe-webhook.mjs <fixture.json> [url]");
+  process.exit(1);
+}
+
+const payload = readFileSync(fixture, "utf8");
+const timestamp = Math.floor(Date.now() / 1000);
+const signature = createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+
+const res = await fetch(url, {
+  method: "POST",
+  headers: { "Content-Type": "application/json", "Stripe-Signature": `t=${timestamp},v1=${signature}` },
+  body: payload,
+});
+
+console.log(res.status, await res.text());
+process.exit(res.ok ? 0 : 1);